@@ -29,10 +29,32 @@ import {
   getArchivedLinks,
   getAllProjectNames,
   claimLegacyData,
+  setLinkShortCode,
+  ensureShortCode,
+  assignRandomShortCode,
+  setLinkPasswordHash,
 } from "@/lib/mock-data";
 import { getServerSession } from "@/lib/auth-session";
 import { reportError } from "@/lib/gcp/error-reporting";
 import { generateUniqueProjectSlug } from "@/lib/slug";
+import { normalizeCountryCode } from "@/lib/countries";
+import { isValidTimeZone } from "@/lib/schedule";
+import { isValidClickIdParam } from "@/lib/click-id";
+import { normalizePassthroughPolicy } from "@/lib/passthrough";
+import { normalizeDeepLinkConfig } from "@/lib/deep-link";
+import { normalizeOgPreview } from "@/lib/og-preview";
+import { isRedirectType } from "@/lib/redirect-type";
+import {
+  hasTrackingPixels,
+  normalizeTrackingPixels,
+} from "@/lib/tracking-pixels";
+import { normalizeRateLimitPolicy } from "@/lib/rate-limit-policy";
+import { isValidShortCode } from "@/lib/short-code";
+import {
+  hashLinkPassword,
+  MAX_LINK_PASSWORD_LENGTH,
+  MIN_LINK_PASSWORD_LENGTH,
+} from "@/lib/link-access";
 import { revalidatePath } from "next/cache";
 import type { Link, Project, LinkSearchCriteria } from "@/lib/types";
 
@@ -82,6 +104,26 @@ export async function saveProjectAction(
       project.title = project.name;
     }
 
+    const passthrough = normalizePassthroughPolicy(project.param_passthrough);
+    if (!passthrough.ok) {
+      return { success: false, error: passthrough.error };
+    }
+    project.param_passthrough = passthrough.policy;
+
+    const pixels = normalizeTrackingPixels(project.tracking_pixels);
+    if (!pixels.ok) {
+      return { success: false, error: pixels.error };
+    }
+    project.tracking_pixels = hasTrackingPixels(pixels.pixels)
+      ? pixels.pixels
+      : null;
+
+    const rateLimit = normalizeRateLimitPolicy(project.rate_limit);
+    if (!rateLimit.ok) {
+      return { success: false, error: rateLimit.error };
+    }
+    project.rate_limit = rateLimit.policy;
+
     await saveProject(project);
 
     console.log("[RouteGenius] Project saved:", {
@@ -240,6 +282,175 @@ export async function saveLinkAction(
       };
     }
 
+    // Normalise country targeting lists (uppercase ISO alpha-2, no dupes)
+    for (const rule of link.rotation_rules) {
+      for (const key of ["include_countries", "exclude_countries"] as const) {
+        const raw = rule[key] ?? [];
+        const invalid = raw.filter((c) => !normalizeCountryCode(c));
+        if (invalid.length > 0) {
+          return {
+            success: false,
+            error: `Código de país inválido en el destino #${rule.order_index + 1}: ${invalid.join(", ")}`,
+          };
+        }
+        rule[key] = Array.from(
+          new Set(raw.map((c) => normalizeCountryCode(c) as string)),
+        );
+      }
+    }
+
+    // Validate dayparting schedules (IANA timezone, 7 days of 0–23 hours)
+    for (const rule of link.rotation_rules) {
+      if (!rule.schedule) continue;
+      const { timezone, weekly_hours } = rule.schedule;
+      if (!isValidTimeZone(timezone)) {
+        return {
+          success: false,
+          error: `Zona horaria inválida en el destino #${rule.order_index + 1}: ${timezone}`,
+        };
+      }
+      if (!Array.isArray(weekly_hours) || weekly_hours.length !== 7) {
+        return {
+          success: false,
+          error: `Horario inválido en el destino #${rule.order_index + 1}.`,
+        };
+      }
+      rule.schedule.weekly_hours = weekly_hours.map((hours) =>
+        Array.from(
+          new Set(
+            (hours ?? []).filter(
+              (h) => Number.isInteger(h) && h >= 0 && h < 24,
+            ),
+          ),
+        ).sort((a, b) => a - b),
+      );
+    }
+
+    // Validate expiration settings
+    if (link.expires_at && Number.isNaN(new Date(link.expires_at).getTime())) {
+      return { success: false, error: "La fecha de expiración no es válida." };
+    }
+    if (
+      link.max_clicks != null &&
+      (!Number.isInteger(link.max_clicks) || link.max_clicks <= 0)
+    ) {
+      return {
+        success: false,
+        error: "El límite de clics debe ser un número entero positivo.",
+      };
+    }
+    if (link.expired_redirect_url?.trim()) {
+      try {
+        const { protocol } = new URL(link.expired_redirect_url.trim());
+        if (protocol !== "http:" && protocol !== "https:") throw new Error();
+        link.expired_redirect_url = link.expired_redirect_url.trim();
+      } catch {
+        return {
+          success: false,
+          error: "La URL posterior a la expiración no es válida.",
+        };
+      }
+    } else {
+      link.expired_redirect_url = null;
+    }
+    if (link.bot_destination_url?.trim()) {
+      try {
+        const { protocol } = new URL(link.bot_destination_url.trim());
+        if (protocol !== "http:" && protocol !== "https:") throw new Error();
+        link.bot_destination_url = link.bot_destination_url.trim();
+      } catch {
+        return {
+          success: false,
+          error: "La URL para bots no es válida.",
+        };
+      }
+    } else {
+      link.bot_destination_url = null;
+    }
+
+    // Validate per-destination click caps
+    for (const rule of link.rotation_rules) {
+      if (rule.click_cap == null) continue;
+      if (!Number.isInteger(rule.click_cap) || rule.click_cap <= 0) {
+        return {
+          success: false,
+          error: `El límite de clics del destino #${rule.order_index + 1} debe ser un número entero positivo.`,
+        };
+      }
+    }
+    if (link.cap_redistribution !== "main") {
+      link.cap_redistribution = "proportional";
+    }
+
+    // Validate the optimize strategy floor (0–50 % per destination)
+    if (link.rotation_strategy !== "optimize") {
+      link.rotation_strategy = "fixed";
+    }
+    if (
+      link.optimize_floor_percentage != null &&
+      (!Number.isFinite(link.optimize_floor_percentage) ||
+        link.optimize_floor_percentage < 0 ||
+        link.optimize_floor_percentage > 50)
+    ) {
+      return {
+        success: false,
+        error: "El tráfico mínimo por destino debe estar entre 0% y 50%.",
+      };
+    }
+
+    // Validate the click ID passthrough parameter name
+    link.click_id_param = link.click_id_param?.trim() || null;
+    if (link.click_id_param && !isValidClickIdParam(link.click_id_param)) {
+      return {
+        success: false,
+        error:
+          "El nombre del parámetro de ID de clic solo admite letras, números, guiones, puntos y guiones bajos.",
+      };
+    }
+
+    // Validate the query parameter passthrough policy (null = inherit project)
+    const passthrough = normalizePassthroughPolicy(link.param_passthrough);
+    if (!passthrough.ok) {
+      return { success: false, error: passthrough.error };
+    }
+    link.param_passthrough = passthrough.policy;
+
+    // Validate retargeting pixels (null = inherit the project's)
+    const pixels = normalizeTrackingPixels(link.tracking_pixels);
+    if (!pixels.ok) {
+      return { success: false, error: pixels.error };
+    }
+    link.tracking_pixels = pixels.pixels;
+
+    // Validate the redirect rate limit (null = inherit the project's)
+    const rateLimit = normalizeRateLimitPolicy(link.rate_limit);
+    if (!rateLimit.ok) {
+      return { success: false, error: rateLimit.error };
+    }
+    link.rate_limit = rateLimit.policy;
+
+    // Validate the mobile app deep link (null = web only)
+    const deepLink = normalizeDeepLinkConfig(link.deep_link);
+    if (!deepLink.ok) {
+      return { success: false, error: deepLink.error };
+    }
+    link.deep_link = deepLink.config;
+
+    // Validate the link-preview (Open Graph) metadata
+    const ogPreview = normalizeOgPreview(link);
+    if (!ogPreview.ok) {
+      return { success: false, error: ogPreview.error };
+    }
+    Object.assign(link, ogPreview.preview);
+
+    // Validate the redirect method
+    if (link.redirect_type != null && !isRedirectType(link.redirect_type)) {
+      return {
+        success: false,
+        error: "El método de redirección no es válido.",
+      };
+    }
+
     // Global URL uniqueness check
     const duplicate = await findDuplicateUrl(
       link.main_destination_url,
@@ -272,6 +483,12 @@ export async function saveLinkAction(
 
     // Re-read to confirm persistence
     const savedLink = (await getLink(link.id, userId)) ?? link;
+
+    // New links get a random short code on their first save
+    if (!savedLink.short_code) {
+      savedLink.short_code = await ensureShortCode(savedLink);
+    }
+
     return { success: true, link: savedLink };
   } catch (err) {
     const error = err instanceof Error ? err : new Error(String(err));
@@ -286,6 +503,114 @@ export async function saveLinkAction(
   }
 }
 
+/**
+ * Change a link's short code. `null` assigns a new random code; a vanity
+ * code must be free. The previous code keeps redirecting to the link.
+ */
+export async function updateShortCodeAction(
+  linkId: string,
+  code: string | null,
+): Promise<ActionResult<string>> {
+  try {
+    const userId = await requireUserId();
+    const link = await getLink(linkId, userId);
+    if (!link) {
+      return { success: false, error: "Enlace no encontrado." };
+    }
+
+    const requested = code?.trim() || null;
+    if (requested !== null && !isValidShortCode(requested)) {
+      return {
+        success: false,
+        error:
+          "El código corto debe tener de 3 a 32 caracteres: letras, números, guiones o guiones bajos.",
+      };
+    }
+    if (requested !== null && requested === link.short_code) {
+      return { success: true, data: requested };
+    }
+
+    let assigned: string | null;
+    if (requested !== null) {
+      if (!(await setLinkShortCode(linkId, requested))) {
+        return {
+          success: false,
+          error: "Este código corto ya está en uso por otro enlace.",
+        };
+      }
+      assigned = requested;
+    } else {
+      assigned = await assignRandomShortCode(linkId);
+    }
+    if (!assigned) {
+      return { success: false, error: "No se pudo generar un código corto." };
+    }
+
+    console.log("[RouteGenius] Short code changed:", {
+      id: linkId,
+      from: link.short_code,
+      to: assigned,
+    });
+    revalidatePath(`/dashboard/projects/${link.project_id}/links/${linkId}`);
+    return { success: true, data: assigned };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error updating short code:", error);
+    reportError(error, {
+      httpRequest: { method: "POST", url: "/actions/updateShortCodeAction" },
+    });
+    return { success: false, error: "Error al cambiar el código corto." };
+  }
+}
+
+/**
+ * Set a link's password (stored hashed), or remove it with `null`.
+ * Saved immediately, separate from the link auto-save.
+ */
+export async function updateLinkPasswordAction(
+  linkId: string,
+  password: string | null,
+): Promise<ActionResult<boolean>> {
+  try {
+    const userId = await requireUserId();
+    const link = await getLink(linkId, userId);
+    if (!link) {
+      return { success: false, error: "Enlace no encontrado." };
+    }
+
+    if (
+      password !== null &&
+      (password.length < MIN_LINK_PASSWORD_LENGTH ||
+        password.length > MAX_LINK_PASSWORD_LENGTH)
+    ) {
+      return {
+        success: false,
+        error: `La contraseña debe tener entre ${MIN_LINK_PASSWORD_LENGTH} y ${MAX_LINK_PASSWORD_LENGTH} caracteres.`,
+      };
+    }
+
+    const hash = password !== null ? await hashLinkPassword(password) : null;
+    await setLinkPasswordHash(linkId, userId, hash);
+
+    console.log("[RouteGenius] Link password updated:", {
+      id: linkId,
+      protected: hash !== null,
+    });
+    revalidatePath(`/dashboard/projects/${link.project_id}/links/${linkId}`);
+    return { success: true, data: hash !== null };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error updating link password:", error);
+    reportError(error, {
+      httpRequest: {
+        method: "POST",
+        url: "/actions/updateLinkPasswordAction",
+      },
+    });
+    return { success: false, error: "Error al guardar la contraseña." };
+  }
+}
+
 /** Delete a link */
 export async function deleteLinkAction(
   id: string,
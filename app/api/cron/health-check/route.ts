@@ -0,0 +1,80 @@
+/**
+ * RouteGenius — Destination Health Check Cron Route
+ *
+ * Probes the main and secondary destinations of every enabled link and
+ * stores status, latency and failure streaks in `destination_health`.
+ * Secondaries that turn unhealthy are skipped by the redirect route
+ * until they recover.
+ *
+ * GET /api/cron/health-check  (scheduled in vercel.json)
+ *
+ * Authenticated with `Authorization: Bearer <CRON_SECRET>`, which is
+ * what Vercel Cron sends when the CRON_SECRET env var is set.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getLinksForHealthCheck,
+  getDestinationHealthByLinkIds,
+  saveDestinationHealth,
+} from "@/lib/mock-data";
+import { healthKey, runHealthChecks } from "@/lib/health-check";
+import { reportError } from "@/lib/gcp/error-reporting";
+import { isCronAuthorized } from "@/lib/cron-auth";
+import { invalidateUnhealthyRuleIds } from "@/lib/click-counts";
+
+/** Probing hundreds of destinations can take a while. */
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "No autorizado." }, { status: 401 });
+  }
+
+  try {
+    const links = await getLinksForHealthCheck();
+    const linkIds = links.map((l) => l.id);
+
+    const previous = Object.fromEntries(
+      Object.values(await getDestinationHealthByLinkIds(linkIds))
+        .flat()
+        .map((h) => [healthKey(h), h]),
+    );
+
+    const records = await runHealthChecks(links, previous);
+    await saveDestinationHealth(linkIds, records);
+
+    const unhealthy = records.filter((r) => r.status === "unhealthy");
+    const changed = records.filter(
+      (r) => (previous[healthKey(r)]?.status ?? "healthy") !== r.status,
+    );
+    invalidateUnhealthyRuleIds([...new Set(changed.map((r) => r.link_id))]);
+
+    for (const r of changed) {
+      console.log("[RouteGenius] Destination health changed:", {
+        link_id: r.link_id,
+        destination: r.destination_key,
+        url: r.url,
+        status: r.status,
+        error: r.error,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      links: links.length,
+      checked: records.length,
+      unhealthy: unhealthy.length,
+      changed: changed.length,
+    });
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    reportError(error, {
+      httpRequest: { method: "GET", url: request.url },
+    });
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 },
+    );
+  }
+}
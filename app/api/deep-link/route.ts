@@ -0,0 +1,63 @@
+/**
+ * RouteGenius — Deep Link Outcome API Route
+ *
+ * POST /api/deep-link  { "click_id": "…" }
+ *
+ * Sent (via `navigator.sendBeacon`) by the deep-link landing page when the
+ * app took over, upgrading the click's `deep_link_outcome` to "app".
+ * Public: the click ID is unguessable and only recent landing-page clicks
+ * can be updated.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { recordDeepLinkAppOpen } from "@/lib/mock-data";
+import { isClickId } from "@/lib/click-id";
+import { flushClicks } from "@/lib/click-ingest";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { reportError } from "@/lib/gcp/error-reporting";
+
+export async function POST(request: NextRequest) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+      "127.0.0.1";
+    const rateLimit = await checkRateLimit(`deep-link:${ip}`, undefined, {
+      ip,
+    });
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: "Demasiadas solicitudes. Intenta de nuevo más tarde." },
+        { status: 429, headers: rateLimitHeaders(rateLimit) },
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as {
+      click_id?: unknown;
+    } | null;
+    const clickId = typeof body?.click_id === "string" ? body.click_id : "";
+    if (!isClickId(clickId)) {
+      return NextResponse.json(
+        { error: "click_id no válido" },
+        { status: 400 },
+      );
+    }
+
+    // The beacon can beat the batched insert of its click: when the row
+    // isn't there yet, write this instance's queue and try once more
+    let updated = await recordDeepLinkAppOpen(clickId);
+    if (!updated) {
+      await flushClicks();
+      updated = await recordDeepLinkAppOpen(clickId);
+    }
+    return new NextResponse(null, { status: updated ? 204 : 404 });
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    reportError(error, {
+      httpRequest: { method: "POST", url: request.url },
+    });
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 },
+    );
+  }
+}
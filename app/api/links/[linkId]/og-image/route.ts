@@ -0,0 +1,119 @@
+/**
+ * RouteGenius — Link Preview Image Upload API Route
+ *
+ * Handles multipart upload of a link's Open Graph preview image.
+ * Uses Google Cloud Storage (GCS) in production/staging (Vercel),
+ * falls back to local public/og-images/ in development.
+ *
+ * POST /api/links/[linkId]/og-image
+ * - Accepts: multipart/form-data with "image" field
+ * - Returns: { success: true, url: string } | { success: false, error: string }
+ *
+ * The URL is not saved here — the editor stores it in `og_image_url`
+ * with the rest of the link.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getLink } from "@/lib/mock-data";
+import { uploadFile } from "@/lib/storage/gcs";
+import { MAX_OG_IMAGE_SIZE, OG_IMAGE_MIME_TYPES } from "@/lib/og-preview";
+import fs from "node:fs";
+import path from "node:path";
+
+/** Whether the runtime supports local filesystem writes (dev only). */
+const isVercel = !!process.env.VERCEL;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ linkId: string }> },
+) {
+  try {
+    // 1. Authenticate user and check link ownership
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "No autorizado" },
+        { status: 401 },
+      );
+    }
+
+    const { linkId } = await params;
+    const link = await getLink(linkId, session.user.id);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: "Enlace no encontrado" },
+        { status: 404 },
+      );
+    }
+
+    // 2. Parse multipart form data
+    const formData = await request.formData();
+    const file = formData.get("image") as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: "No se proporcionó ningún archivo" },
+        { status: 400 },
+      );
+    }
+
+    // 3. Validate file type and size
+    if (!OG_IMAGE_MIME_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Tipo de archivo no válido. Use JPEG, PNG, WebP o GIF.",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (file.size > MAX_OG_IMAGE_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "El archivo es demasiado grande. El tamaño máximo es 5 MB.",
+        },
+        { status: 400 },
+      );
+    }
+
+    // 4. Upload under a new name each time — crawlers cache images by URL
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const extension =
+      file.type.split("/")[1] === "jpeg" ? "jpg" : file.type.split("/")[1];
+    const fileName = `${link.id}-${Date.now()}.${extension}`;
+
+    let imageUrl: string;
+
+    if (isVercel) {
+      const url = await uploadFile(`og-images/${fileName}`, buffer, file.type);
+      if (!url) {
+        throw new Error(
+          "GCS upload returned null — check GCS_PROJECT_ID, GCS_CLIENT_EMAIL, and GCS_PRIVATE_KEY environment variables.",
+        );
+      }
+      imageUrl = url;
+    } else {
+      const dir = path.join(process.cwd(), "public", "og-images");
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, fileName), buffer);
+      imageUrl = `/og-images/${fileName}`;
+    }
+
+    return NextResponse.json({ success: true, url: imageUrl });
+  } catch (error) {
+    console.error("[RouteGenius] Preview image upload error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Error interno al subir la imagen. Intente de nuevo.",
+      },
+      { status: 500 },
+    );
+  }
+}
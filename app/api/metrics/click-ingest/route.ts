@@ -0,0 +1,25 @@
+/**
+ * RouteGenius — Click Ingestion Metrics Route
+ *
+ * Queued, inserted, retried, spilled and dropped click counts of the
+ * instance that serves the request (counters are per process).
+ *
+ * GET /api/metrics/click-ingest
+ *
+ * Authenticated with `Authorization: Bearer <CRON_SECRET>`, like the
+ * cron routes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getClickIngestStats } from "@/lib/click-ingest";
+import { isCronAuthorized } from "@/lib/cron-auth";
+
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "No autorizado." }, { status: 401 });
+  }
+
+  return NextResponse.json(getClickIngestStats(), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
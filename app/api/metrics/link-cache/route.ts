@@ -0,0 +1,25 @@
+/**
+ * RouteGenius — Link Cache Metrics Route
+ *
+ * Hit/miss counters, size and configuration of the redirect link cache
+ * on the instance that serves the request (counters are per process).
+ *
+ * GET /api/metrics/link-cache
+ *
+ * Authenticated with `Authorization: Bearer <CRON_SECRET>`, like the
+ * cron routes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLinkCacheStats } from "@/lib/link-cache";
+import { isCronAuthorized } from "@/lib/cron-auth";
+
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "No autorizado." }, { status: 401 });
+  }
+
+  return NextResponse.json(getLinkCacheStats(), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
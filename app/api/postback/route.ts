@@ -0,0 +1,165 @@
+/**
+ * RouteGenius — Conversion Postback API Route
+ *
+ * Server-to-server conversion tracking. Attributes a conversion to the
+ * originating click_events row (and thereby its destination).
+ *
+ * GET  /api/postback?click_id=…&event=…&payout=…&transaction_id=…&secret=…
+ * POST /api/postback  (JSON or form-encoded body with the same fields)
+ *
+ * Authenticated with the workspace secret of the clicked link, sent as
+ * `secret` or in the X-RouteGenius-Secret header.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getClickForPostback,
+  getWorkspacePostbackSecret,
+  recordConversion,
+} from "@/lib/mock-data";
+import {
+  parsePostbackParams,
+  verifyPostbackSecret,
+  POSTBACK_SECRET_HEADER,
+} from "@/lib/postback";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { reportError } from "@/lib/gcp/error-reporting";
+
+async function handlePostback(
+  request: NextRequest,
+  input: URLSearchParams | Record<string, unknown>,
+) {
+  // 0. Rate limiting (100 requests per 10 seconds per IP, allowlist exempt)
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+    "127.0.0.1";
+  const rateLimit = await checkRateLimit(`postback:${ip}`, undefined, { ip });
+
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { error: "Demasiadas solicitudes. Intenta de nuevo más tarde." },
+      { status: 429, headers: rateLimitHeaders(rateLimit) },
+    );
+  }
+
+  // 1. Validate parameters
+  const parsed = parsePostbackParams(input);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { clickId, event, revenue, transactionId } = parsed.params;
+  const secret =
+    request.headers.get(POSTBACK_SECRET_HEADER) ?? parsed.params.secret;
+
+  if (!secret) {
+    return NextResponse.json(
+      { error: "Falta el secreto de postback." },
+      { status: 401 },
+    );
+  }
+
+  // 2. Authenticate with the secret of the click's workspace. An unknown
+  // click gets the same 401 as a wrong secret, so click IDs can't be probed.
+  const click = await getClickForPostback(clickId);
+  const expected = click
+    ? await getWorkspacePostbackSecret(click.workspace_id)
+    : null;
+  if (!click || !verifyPostbackSecret(secret, expected)) {
+    return NextResponse.json(
+      { error: "Secreto de postback inválido." },
+      { status: 401 },
+    );
+  }
+
+  // 3. Record the conversion — a retried postback is acknowledged without
+  // counting it again
+  const conversionId = await recordConversion(
+    click,
+    event,
+    revenue,
+    transactionId,
+  );
+  if (!conversionId) {
+    return NextResponse.json({
+      success: true,
+      duplicate: true,
+      click_id: click.id,
+      link_id: click.link_id,
+      event,
+    });
+  }
+
+  console.log("[RouteGenius] Conversion:", {
+    conversion_id: conversionId,
+    click_id: click.id,
+    link_id: click.link_id,
+    rule_id: click.rule_id,
+    event,
+    revenue,
+    transaction_id: transactionId,
+  });
+
+  return NextResponse.json({
+    success: true,
+    conversion_id: conversionId,
+    click_id: click.id,
+    link_id: click.link_id,
+    event,
+  });
+}
+
+function handleError(request: NextRequest, method: string, err: unknown) {
+  const error = err instanceof Error ? err : new Error(String(err));
+  // Report without the query string — it may carry the secret
+  reportError(error, {
+    httpRequest: {
+      method,
+      url: `${request.nextUrl.origin}${request.nextUrl.pathname}`,
+    },
+  });
+  return NextResponse.json(
+    { error: "Error interno del servidor" },
+    { status: 500 },
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    return await handlePostback(request, request.nextUrl.searchParams);
+  } catch (err) {
+    return handleError(request, "GET", err);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    let body: URLSearchParams | Record<string, unknown>;
+
+    if (contentType.includes("application/json")) {
+      const json: unknown = await request.json().catch(() => null);
+      if (!json || typeof json !== "object" || Array.isArray(json)) {
+        return NextResponse.json(
+          { error: "El cuerpo JSON no es válido." },
+          { status: 400 },
+        );
+      }
+      body = json as Record<string, unknown>;
+    } else {
+      body = new URLSearchParams(await request.text());
+    }
+
+    // Query-string parameters fill in anything missing from the body
+    for (const [key, value] of request.nextUrl.searchParams) {
+      if (body instanceof URLSearchParams) {
+        if (!body.has(key)) body.set(key, value);
+      } else if (body[key] === undefined) {
+        body[key] = value;
+      }
+    }
+
+    return await handlePostback(request, body);
+  } catch (err) {
+    return handleError(request, "POST", err);
+  }
+}
@@ -21,15 +21,29 @@ import {
   Clock,
   Target,
   Download,
+  BadgeCheck,
+  DollarSign,
+  ArrowRightLeft,
+  Bot,
+  Smartphone,
 } from "lucide-react";
 import {
   getClicksByDay,
   getClicksByDestination,
+  getConversionsByDestination,
+  getForwardedParamBreakdown,
+  getClicksBySource,
+  getDeepLinkOutcomes,
   getClicksByCountry,
   getClicksByHour,
   getClickEvents,
   exportClicksCSV,
 } from "../actions";
+import {
+  DEFAULT_REDIRECT_TYPE,
+  REDIRECT_TYPE_LABELS,
+} from "@/lib/redirect-type";
+import type { RedirectType } from "@/lib/types";
 import RealtimeClickCounter from "@/components/RealtimeClickCounter";
 
 // Lazy load charts
@@ -76,6 +90,18 @@ function getDateRange(days: number) {
   };
 }
 
+/** Conversion rate as a percentage string ("—" without clicks). */
+function formatRate(conversions: number, clicks: number): string {
+  return clicks > 0 ? `${((conversions / clicks) * 100).toFixed(2)}%` : "—";
+}
+
+function formatRevenue(value: number): string {
+  return value.toLocaleString("es-ES", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
 interface ClicksByDayRow {
   click_date: string;
   total_clicks: number;
@@ -91,6 +117,21 @@ interface DestinationRow {
   percentage: number;
 }
 
+interface ConversionRow {
+  destination_url: string;
+  went_to_main: boolean;
+  total_clicks: number;
+  conversions: number;
+  revenue: number;
+}
+
+interface ForwardedParamRow {
+  param: string;
+  value: string;
+  total_clicks: number;
+  conversions: number;
+}
+
 interface CountryRow {
   country_code: string;
   total_clicks: number;
@@ -104,9 +145,13 @@ interface HourlyRow {
 
 interface ClickEventRow {
   id: string;
+  click_id: string | null;
   link_id: string;
   resolved_destination_url: string;
   went_to_main: boolean;
+  source: "link" | "qr";
+  is_bot: boolean;
+  redirect_type: RedirectType | null;
   country_code: string | null;
   user_agent: string | null;
   created_at: string;
@@ -117,10 +162,24 @@ export default function LinkAnalyticsPage() {
   const linkId = params.linkId as string;
 
   const [selectedRange, setSelectedRange] = useState(30);
+  const [excludeBots, setExcludeBots] = useState(false);
   const [isPending, startTransition] = useTransition();
 
   const [dailyData, setDailyData] = useState<ClicksByDayRow[]>([]);
   const [destinationData, setDestinationData] = useState<DestinationRow[]>([]);
+  const [conversionData, setConversionData] = useState<ConversionRow[]>([]);
+  const [forwardedParamData, setForwardedParamData] = useState<
+    ForwardedParamRow[]
+  >([]);
+  const [clickSources, setClickSources] = useState({
+    qrScans: 0,
+    linkClicks: 0,
+  });
+  const [deepLinkOutcomes, setDeepLinkOutcomes] = useState({
+    app: 0,
+    store: 0,
+    web: 0,
+  });
   const [countryData, setCountryData] = useState<CountryRow[]>([]);
   const [hourlyData, setHourlyData] = useState<HourlyRow[]>([]);
   const [events, setEvents] = useState<ClickEventRow[]>([]);
@@ -135,6 +194,16 @@ export default function LinkAnalyticsPage() {
     (sum, d) => sum + Number(d.unique_visitors),
     0,
   );
+  const totalConversions = conversionData.reduce(
+    (sum, d) => sum + Number(d.conversions),
+    0,
+  );
+  const totalRevenue = conversionData.reduce(
+    (sum, d) => sum + Number(d.revenue),
+    0,
+  );
+  const deepLinkTotal =
+    deepLinkOutcomes.app + deepLinkOutcomes.store + deepLinkOutcomes.web;
 
   const loadData = useCallback(
     (range: number, page: number = 1) => {
@@ -143,17 +212,42 @@ export default function LinkAnalyticsPage() {
 
       startTransition(async () => {
         try {
-          const [daily, destinations, countries, hourly, eventsData] =
-            await Promise.all([
-              getClicksByDay(linkId, startDate, endDate),
-              getClicksByDestination(linkId, startDate, endDate),
-              getClicksByCountry(linkId, startDate, endDate),
-              getClicksByHour(linkId, today),
-              getClickEvents(linkId, startDate, endDate, page, 50),
-            ]);
+          const [
+            daily,
+            destinations,
+            conversions,
+            forwardedParams,
+            sources,
+            deepLinks,
+            countries,
+            hourly,
+            eventsData,
+          ] = await Promise.all([
+            getClicksByDay(linkId, startDate, endDate, excludeBots),
+            getClicksByDestination(linkId, startDate, endDate, excludeBots),
+            getConversionsByDestination(
+              linkId,
+              startDate,
+              endDate,
+              excludeBots,
+            ),
+            getForwardedParamBreakdown(linkId, startDate, endDate, excludeBots),
+            getClicksBySource(linkId, startDate, endDate, excludeBots),
+            getDeepLinkOutcomes(linkId, startDate, endDate, excludeBots),
+            getClicksByCountry(linkId, startDate, endDate, excludeBots),
+            getClicksByHour(linkId, today, excludeBots),
+            getClickEvents(linkId, startDate, endDate, page, 50, excludeBots),
+          ]);
 
           setDailyData(daily as ClicksByDayRow[]);
           setDestinationData(destinations as DestinationRow[]);
+          setConversionData(conversions as ConversionRow[]);
+          setForwardedParamData(forwardedParams as ForwardedParamRow[]);
+          setClickSources({
+            qrScans: sources.qrScans,
+            linkClicks: sources.linkClicks,
+          });
+          setDeepLinkOutcomes(deepLinks);
           setCountryData(countries as CountryRow[]);
           setHourlyData(hourly as HourlyRow[]);
           setEvents(eventsData.events as ClickEventRow[]);
@@ -164,7 +258,7 @@ export default function LinkAnalyticsPage() {
         }
       });
     },
-    [linkId],
+    [linkId, excludeBots],
   );
 
   useEffect(() => {
@@ -173,7 +267,7 @@ export default function LinkAnalyticsPage() {
 
   const handleExportCSV = async () => {
     const { startDate, endDate } = getDateRange(selectedRange);
-    const csv = await exportClicksCSV(linkId, startDate, endDate);
+    const csv = await exportClicksCSV(linkId, startDate, endDate, excludeBots);
     const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -217,6 +311,19 @@ export default function LinkAnalyticsPage() {
 
         {/* Controls */}
         <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+          <button
+            onClick={() => setExcludeBots((prev) => !prev)}
+            aria-pressed={excludeBots}
+            title="Excluir clics de bots y rastreadores"
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-xl border text-xs font-medium transition-colors cursor-pointer whitespace-nowrap ${
+              excludeBots
+                ? "bg-brand-blue border-brand-blue text-white shadow-sm"
+                : "bg-white border-gray-200 text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            <Bot className="w-3.5 h-3.5" />
+            Excluir bots
+          </button>
           <div className="flex flex-wrap items-center gap-1 bg-white rounded-xl border border-gray-200 p-1">
             {DATE_RANGES.map((range) => (
               <button
@@ -243,7 +350,7 @@ export default function LinkAnalyticsPage() {
       </div>
 
       {/* KPI Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg p-5">
           <div className="flex items-center gap-3 mb-3">
             <div className="p-2 rounded-xl bg-blue-50">
@@ -256,9 +363,15 @@ export default function LinkAnalyticsPage() {
           {isPending ? (
             <div className="h-8 w-24 bg-gray-200 rounded animate-pulse" />
           ) : (
-            <p className="text-2xl font-bold text-brand-blue">
-              {totalClicks.toLocaleString("es-ES")}
-            </p>
+            <>
+              <p className="text-2xl font-bold text-brand-blue">
+                {totalClicks.toLocaleString("es-ES")}
+              </p>
+              <p className="text-xs text-gray-400 mt-1">
+                {clickSources.linkClicks.toLocaleString("es-ES")} clics ·{" "}
+                {clickSources.qrScans.toLocaleString("es-ES")} escaneos QR
+              </p>
+            </>
           )}
         </div>
         <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg p-5">
@@ -278,6 +391,41 @@ export default function LinkAnalyticsPage() {
             </p>
           )}
         </div>
+        <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg p-5">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="p-2 rounded-xl bg-lime-50">
+              <BadgeCheck className="w-5 h-5 text-lime-600" />
+            </div>
+            <span className="text-sm font-medium text-gray-500">
+              Conversiones
+            </span>
+          </div>
+          {isPending ? (
+            <div className="h-8 w-24 bg-gray-200 rounded animate-pulse" />
+          ) : (
+            <p className="text-2xl font-bold text-lime-600">
+              {totalConversions.toLocaleString("es-ES")}
+              <span className="ml-2 text-sm font-medium text-gray-400">
+                {formatRate(totalConversions, totalClicks)}
+              </span>
+            </p>
+          )}
+        </div>
+        <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg p-5">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="p-2 rounded-xl bg-blue-50">
+              <DollarSign className="w-5 h-5 text-brand-blue" />
+            </div>
+            <span className="text-sm font-medium text-gray-500">Ingresos</span>
+          </div>
+          {isPending ? (
+            <div className="h-8 w-24 bg-gray-200 rounded animate-pulse" />
+          ) : (
+            <p className="text-2xl font-bold text-brand-blue">
+              {formatRevenue(totalRevenue)}
+            </p>
+          )}
+        </div>
       </div>
 
       {/* Charts Grid */}
@@ -400,6 +548,160 @@ export default function LinkAnalyticsPage() {
         </div>
       )}
 
+      {/* Conversions by Destination */}
+      {conversionData.length > 0 && (
+        <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg p-4 sm:p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <BadgeCheck className="w-5 h-5 text-lime-600" />
+            <h3 className="text-base sm:text-lg font-semibold text-gray-800">
+              Conversiones por Destino
+            </h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-2 font-medium text-gray-500">
+                    Destino
+                  </th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-500 hidden sm:table-cell">
+                    Clics
+                  </th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-500">
+                    Conversiones
+                  </th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-500">
+                    CR
+                  </th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-500">
+                    Ingresos
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {conversionData.map((d, i) => (
+                  <tr
+                    key={i}
+                    className="border-b border-gray-100 hover:bg-gray-50/50"
+                  >
+                    <td className="py-2.5 px-2 text-gray-600 max-w-32 sm:max-w-62.5 truncate text-xs sm:text-sm">
+                      {d.destination_url}
+                    </td>
+                    <td className="py-2.5 px-2 text-right text-gray-600 hidden sm:table-cell">
+                      {Number(d.total_clicks).toLocaleString("es-ES")}
+                    </td>
+                    <td className="py-2.5 px-2 text-right font-medium text-gray-700">
+                      {Number(d.conversions).toLocaleString("es-ES")}
+                    </td>
+                    <td className="py-2.5 px-2 text-right font-medium text-gray-700">
+                      {formatRate(
+                        Number(d.conversions),
+                        Number(d.total_clicks),
+                      )}
+                    </td>
+                    <td className="py-2.5 px-2 text-right font-medium text-gray-700">
+                      {formatRevenue(Number(d.revenue))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Deep Link Outcomes */}
+      {deepLinkTotal > 0 && (
+        <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg p-4 sm:p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Smartphone className="w-5 h-5 text-brand-blue" />
+            <h3 className="text-base sm:text-lg font-semibold text-gray-800">
+              Deep Links
+            </h3>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            {(
+              [
+                ["app", "Abiertos en la app", "text-lime-600"],
+                ["store", "Enviados a la tienda", "text-brand-cyan"],
+                ["web", "Enviados a la web", "text-brand-blue"],
+              ] as const
+            ).map(([key, label, color]) => (
+              <div key={key}>
+                <p className={`text-2xl font-bold ${color}`}>
+                  {deepLinkOutcomes[key].toLocaleString("es-ES")}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {label} · {formatRate(deepLinkOutcomes[key], deepLinkTotal)}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Forwarded Query Parameters */}
+      {forwardedParamData.length > 0 && (
+        <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg p-4 sm:p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <ArrowRightLeft className="w-5 h-5 text-brand-cyan" />
+            <h3 className="text-base sm:text-lg font-semibold text-gray-800">
+              Parámetros Reenviados
+            </h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-2 font-medium text-gray-500">
+                    Parámetro
+                  </th>
+                  <th className="text-left py-3 px-2 font-medium text-gray-500">
+                    Valor
+                  </th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-500">
+                    Clics
+                  </th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-500 hidden sm:table-cell">
+                    Conversiones
+                  </th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-500 hidden sm:table-cell">
+                    CR
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {forwardedParamData.map((d, i) => (
+                  <tr
+                    key={i}
+                    className="border-b border-gray-100 hover:bg-gray-50/50"
+                  >
+                    <td className="py-2.5 px-2 text-gray-700 font-mono text-xs">
+                      {d.param}
+                    </td>
+                    <td className="py-2.5 px-2 text-gray-600 max-w-32 sm:max-w-62.5 truncate text-xs sm:text-sm">
+                      {d.value}
+                    </td>
+                    <td className="py-2.5 px-2 text-right font-medium text-gray-700">
+                      {Number(d.total_clicks).toLocaleString("es-ES")}
+                    </td>
+                    <td className="py-2.5 px-2 text-right text-gray-600 hidden sm:table-cell">
+                      {Number(d.conversions).toLocaleString("es-ES")}
+                    </td>
+                    <td className="py-2.5 px-2 text-right text-gray-600 hidden sm:table-cell">
+                      {formatRate(
+                        Number(d.conversions),
+                        Number(d.total_clicks),
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Events Table */}
       <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg p-4 sm:p-6">
         <div className="flex items-center justify-between mb-4">
@@ -418,6 +720,9 @@ export default function LinkAnalyticsPage() {
                 <th className="text-left py-3 px-2 font-medium text-gray-500">
                   Fecha/Hora
                 </th>
+                <th className="text-left py-3 px-2 font-medium text-gray-500 hidden md:table-cell">
+                  ID de Clic
+                </th>
                 <th className="text-left py-3 px-2 font-medium text-gray-500">
                   Destino
                 </th>
@@ -432,7 +737,7 @@ export default function LinkAnalyticsPage() {
             <tbody>
               {events.length === 0 ? (
                 <tr>
-                  <td colSpan={4} className="text-center py-12 text-gray-400">
+                  <td colSpan={5} className="text-center py-12 text-gray-400">
                     No hay eventos de clic para este enlace
                   </td>
                 </tr>
@@ -448,6 +753,9 @@ export default function LinkAnalyticsPage() {
                         timeStyle: "medium",
                       })}
                     </td>
+                    <td className="py-2.5 px-2 text-gray-500 font-mono text-xs hidden md:table-cell">
+                      {event.click_id || "—"}
+                    </td>
                     <td className="py-2.5 px-2 text-gray-600 max-w-32 sm:max-w-62.5 truncate text-xs sm:text-sm">
                       {event.resolved_destination_url}
                     </td>
@@ -464,6 +772,22 @@ export default function LinkAnalyticsPage() {
                       >
                         {event.went_to_main ? "Principal" : "Secundario"}
                       </span>
+                      {event.source === "qr" && (
+                        <span className="ml-1 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-lime-50 text-lime-700">
+                          QR
+                        </span>
+                      )}
+                      {event.is_bot && (
+                        <span className="ml-1 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                          Bot
+                        </span>
+                      )}
+                      {event.redirect_type &&
+                        event.redirect_type !== DEFAULT_REDIRECT_TYPE && (
+                          <span className="ml-1 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                            {REDIRECT_TYPE_LABELS[event.redirect_type]}
+                          </span>
+                        )}
                     </td>
                   </tr>
                 ))
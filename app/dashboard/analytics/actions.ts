@@ -5,19 +5,25 @@
  *
  * Server-side data fetching for analytics dashboards.
  * All queries use direct pg Pool (Cloud SQL).
+ *
+ * Every click-based query takes a trailing `excludeBots` flag that leaves
+ * out clicks classified as bots (`click_events.is_bot`).
  */
 
 import { getPool } from "@/lib/db";
+import { REDIRECT_TYPE_LABELS } from "@/lib/redirect-type";
+import type { RedirectType } from "@/lib/types";
 
 /** Clicks aggregated by day for a specific link */
 export async function getClicksByDay(
   linkId: string,
   startDate: string,
   endDate: string,
+  excludeBots: boolean = false,
 ) {
   const { rows } = await getPool().query(
-    `SELECT * FROM get_clicks_by_day($1, $2, $3)`,
-    [linkId, startDate, endDate],
+    `SELECT * FROM get_clicks_by_day($1, $2, $3, $4)`,
+    [linkId, startDate, endDate, excludeBots],
   );
   return rows;
 }
@@ -27,10 +33,69 @@ export async function getClicksByDestination(
   linkId: string,
   startDate: string,
   endDate: string,
+  excludeBots: boolean = false,
+) {
+  const { rows } = await getPool().query(
+    `SELECT * FROM get_clicks_by_destination($1, $2, $3, $4)`,
+    [linkId, startDate, endDate, excludeBots],
+  );
+  return rows;
+}
+
+/**
+ * Clicks, conversions and revenue aggregated by destination URL for a
+ * specific link. A click counts as converted once (click_events.converted_at);
+ * revenue sums every conversion recorded for it.
+ */
+export async function getConversionsByDestination(
+  linkId: string,
+  startDate: string,
+  endDate: string,
+  excludeBots: boolean = false,
+) {
+  const { rows } = await getPool().query(
+    `SELECT
+       c.resolved_destination_url AS destination_url,
+       bool_or(c.went_to_main)     AS went_to_main,
+       COUNT(*)::int               AS total_clicks,
+       COUNT(c.converted_at)::int  AS conversions,
+       COALESCE(SUM(v.revenue), 0)::float AS revenue
+     FROM click_events c
+     LEFT JOIN (
+       SELECT click_event_id, SUM(revenue) AS revenue
+       FROM conversions GROUP BY click_event_id
+     ) v ON v.click_event_id = c.id
+     WHERE c.link_id = $1 AND c.created_at >= $2 AND c.created_at <= $3
+       AND NOT (c.is_bot AND $4)
+     GROUP BY c.resolved_destination_url
+     ORDER BY total_clicks DESC`,
+    [linkId, startDate, endDate, excludeBots],
+  );
+  return rows;
+}
+
+/** Most frequent forwarded query parameter values for a specific link */
+export async function getForwardedParamBreakdown(
+  linkId: string,
+  startDate: string,
+  endDate: string,
+  excludeBots: boolean = false,
 ) {
   const { rows } = await getPool().query(
-    `SELECT * FROM get_clicks_by_destination($1, $2, $3)`,
-    [linkId, startDate, endDate],
+    `SELECT
+       kv.key             AS param,
+       kv.value           AS value,
+       COUNT(*)::int      AS total_clicks,
+       COUNT(c.converted_at)::int AS conversions
+     FROM click_events c
+     CROSS JOIN LATERAL jsonb_each_text(c.forwarded_params) kv
+     WHERE c.link_id = $1 AND c.created_at >= $2 AND c.created_at <= $3
+       AND c.forwarded_params IS NOT NULL
+       AND NOT (c.is_bot AND $4)
+     GROUP BY kv.key, kv.value
+     ORDER BY total_clicks DESC
+     LIMIT 50`,
+    [linkId, startDate, endDate, excludeBots],
   );
   return rows;
 }
@@ -40,37 +105,50 @@ export async function getClicksByCountry(
   linkId: string,
   startDate: string,
   endDate: string,
+  excludeBots: boolean = false,
 ) {
   const { rows } = await getPool().query(
-    `SELECT * FROM get_clicks_by_country($1, $2, $3)`,
-    [linkId, startDate, endDate],
+    `SELECT * FROM get_clicks_by_country($1, $2, $3, $4)`,
+    [linkId, startDate, endDate, excludeBots],
   );
   return rows;
 }
 
 /** Clicks aggregated by hour for a specific link on a given date */
-export async function getClicksByHour(linkId: string, date: string) {
+export async function getClicksByHour(
+  linkId: string,
+  date: string,
+  excludeBots: boolean = false,
+) {
   const { rows } = await getPool().query(
-    `SELECT * FROM get_clicks_by_hour($1, $2)`,
-    [linkId, date],
+    `SELECT * FROM get_clicks_by_hour($1, $2, $3)`,
+    [linkId, date, excludeBots],
   );
   return rows;
 }
 
 /** Total click count across all links in a date range */
-export async function getTotalClicks(startDate: string, endDate: string) {
+export async function getTotalClicks(
+  startDate: string,
+  endDate: string,
+  excludeBots: boolean = false,
+) {
   const { rows } = await getPool().query(
-    `SELECT COUNT(*) AS count FROM click_events WHERE created_at >= $1 AND created_at <= $2`,
-    [startDate, endDate],
+    `SELECT COUNT(*) AS count FROM click_events WHERE created_at >= $1 AND created_at <= $2 AND NOT (is_bot AND $3)`,
+    [startDate, endDate, excludeBots],
   );
   return parseInt(rows[0]?.count ?? "0", 10);
 }
 
 /** Total unique visitors (distinct IPs) across all links in a date range */
-export async function getUniqueVisitors(startDate: string, endDate: string) {
+export async function getUniqueVisitors(
+  startDate: string,
+  endDate: string,
+  excludeBots: boolean = false,
+) {
   const { rows } = await getPool().query(
-    `SELECT COUNT(DISTINCT ip_address) AS count FROM click_events WHERE created_at >= $1 AND created_at <= $2`,
-    [startDate, endDate],
+    `SELECT COUNT(DISTINCT ip_address) AS count FROM click_events WHERE created_at >= $1 AND created_at <= $2 AND NOT (is_bot AND $3)`,
+    [startDate, endDate, excludeBots],
   );
   return parseInt(rows[0]?.count ?? "0", 10);
 }
@@ -92,6 +170,7 @@ export async function getClickEvents(
   endDate: string,
   page: number = 1,
   pageSize: number = 50,
+  excludeBots: boolean = false,
 ) {
   const offset = (page - 1) * pageSize;
   const params: (string | number)[] = [startDate, endDate];
@@ -101,7 +180,9 @@ export async function getClickEvents(
     params.push(linkId);
     whereClause += ` AND link_id = $${params.length}`;
   }
+  if (excludeBots) whereClause += ` AND NOT is_bot`;
 
+  const filterParams = [...params];
   params.push(pageSize, offset);
   const limitIdx = params.length - 1;
 
@@ -112,7 +193,7 @@ export async function getClickEvents(
     ),
     getPool().query(
       `SELECT COUNT(*) AS count FROM click_events ${whereClause}`,
-      linkId ? [startDate, endDate, linkId] : [startDate, endDate],
+      filterParams,
     ),
   ]);
 
@@ -129,6 +210,7 @@ export async function exportClicksCSV(
   linkId: string | null,
   startDate: string,
   endDate: string,
+  excludeBots: boolean = false,
 ): Promise<string> {
   const params: string[] = [startDate, endDate];
   let whereClause = `WHERE created_at >= $1 AND created_at <= $2`;
@@ -137,9 +219,10 @@ export async function exportClicksCSV(
     params.push(linkId);
     whereClause += ` AND link_id = $${params.length}`;
   }
+  if (excludeBots) whereClause += ` AND NOT is_bot`;
 
   const { rows } = await getPool().query(
-    `SELECT created_at, link_id, resolved_destination_url, went_to_main, country_code, user_agent, referer
+    `SELECT created_at, click_id, link_id, resolved_destination_url, went_to_main, source, is_bot, deep_link_outcome, redirect_type, country_code, user_agent, referer, forwarded_params
      FROM click_events ${whereClause}
      ORDER BY created_at DESC LIMIT 10000`,
     params,
@@ -147,22 +230,36 @@ export async function exportClicksCSV(
 
   const headers = [
     "Fecha",
+    "ID de Clic",
     "Enlace",
     "Destino",
     "Principal",
+    "Fuente",
+    "Bot",
+    "Deep Link",
+    "Redirección",
     "País",
     "User Agent",
     "Referente",
+    "Parámetros Reenviados",
   ];
   const csvRows = rows.map((e) =>
     [
       e.created_at,
+      e.click_id || "",
       e.link_id,
       e.resolved_destination_url,
       e.went_to_main ? "Sí" : "No",
+      e.source === "qr" ? "QR" : "Enlace",
+      e.is_bot ? "Sí" : "No",
+      e.deep_link_outcome || "",
+      REDIRECT_TYPE_LABELS[e.redirect_type as RedirectType] ?? "",
       e.country_code || "Desconocido",
       `"${(e.user_agent || "").replace(/"/g, '""')}"`,
       e.referer || "",
+      e.forwarded_params
+        ? `"${new URLSearchParams(e.forwarded_params).toString().replace(/"/g, '""')}"`
+        : "",
     ].join(","),
   );
 
@@ -170,12 +267,16 @@ export async function exportClicksCSV(
 }
 
 /** Get all clicks by day across ALL links (for overview) */
-export async function getAllClicksByDay(startDate: string, endDate: string) {
+export async function getAllClicksByDay(
+  startDate: string,
+  endDate: string,
+  excludeBots: boolean = false,
+) {
   const { rows } = await getPool().query(
     `SELECT created_at, ip_address FROM click_events
-     WHERE created_at >= $1 AND created_at <= $2
+     WHERE created_at >= $1 AND created_at <= $2 AND NOT (is_bot AND $3)
      ORDER BY created_at ASC`,
-    [startDate, endDate],
+    [startDate, endDate, excludeBots],
   );
 
   // Aggregate by day
@@ -201,15 +302,85 @@ export async function getAllClicksByDay(startDate: string, endDate: string) {
   }));
 }
 
+/**
+ * QR code scans vs. regular clicks (`click_events.source`), for one link
+ * or — with `linkId` null — across all links.
+ */
+export async function getClicksBySource(
+  linkId: string | null,
+  startDate: string,
+  endDate: string,
+  excludeBots: boolean = false,
+) {
+  const params: string[] = [startDate, endDate];
+  let whereClause = `WHERE created_at >= $1 AND created_at <= $2`;
+
+  if (linkId) {
+    params.push(linkId);
+    whereClause += ` AND link_id = $${params.length}`;
+  }
+  if (excludeBots) whereClause += ` AND NOT is_bot`;
+
+  const { rows } = await getPool().query(
+    `SELECT
+       COUNT(*) AS total,
+       COUNT(*) FILTER (WHERE source = 'qr') AS qr_count
+     FROM click_events ${whereClause}`,
+    params,
+  );
+
+  const total = parseInt(rows[0]?.total ?? "0", 10);
+  const qrScans = parseInt(rows[0]?.qr_count ?? "0", 10);
+
+  return {
+    total,
+    qrScans,
+    linkClicks: total - qrScans,
+    qrPercentage: total > 0 ? Math.round((qrScans / total) * 100) : 0,
+  };
+}
+
+/**
+ * Deep-link outcomes for a link: opened in the app, sent to the store,
+ * or sent to the web destination (`click_events.deep_link_outcome`).
+ */
+export async function getDeepLinkOutcomes(
+  linkId: string,
+  startDate: string,
+  endDate: string,
+  excludeBots: boolean = false,
+) {
+  const { rows } = await getPool().query(
+    `SELECT
+       COUNT(*) FILTER (WHERE deep_link_outcome = 'app')   AS app,
+       COUNT(*) FILTER (WHERE deep_link_outcome = 'store') AS store,
+       COUNT(*) FILTER (WHERE deep_link_outcome = 'web')   AS web
+     FROM click_events
+     WHERE link_id = $1 AND created_at >= $2 AND created_at <= $3
+       AND NOT (is_bot AND $4)`,
+    [linkId, startDate, endDate, excludeBots],
+  );
+
+  return {
+    app: parseInt(rows[0]?.app ?? "0", 10),
+    store: parseInt(rows[0]?.store ?? "0", 10),
+    web: parseInt(rows[0]?.web ?? "0", 10),
+  };
+}
+
 /** Get distribution ratio (main vs secondary) for all links */
-export async function getDistributionRatio(startDate: string, endDate: string) {
+export async function getDistributionRatio(
+  startDate: string,
+  endDate: string,
+  excludeBots: boolean = false,
+) {
   const { rows } = await getPool().query(
     `SELECT
        COUNT(*) AS total,
        COUNT(*) FILTER (WHERE went_to_main = true) AS main_count
      FROM click_events
-     WHERE created_at >= $1 AND created_at <= $2`,
-    [startDate, endDate],
+     WHERE created_at >= $1 AND created_at <= $2 AND NOT (is_bot AND $3)`,
+    [startDate, endDate, excludeBots],
   );
 
   const total = parseInt(rows[0]?.total ?? "0", 10);
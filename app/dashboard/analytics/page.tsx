@@ -16,16 +16,23 @@ import {
   Download,
   Calendar,
   Filter,
+  Bot,
 } from "lucide-react";
 import {
   getTotalClicks,
   getUniqueVisitors,
   getActiveLinkCount,
   getDistributionRatio,
+  getClicksBySource,
   getAllClicksByDay,
   getClickEvents,
   exportClicksCSV,
 } from "./actions";
+import {
+  DEFAULT_REDIRECT_TYPE,
+  REDIRECT_TYPE_LABELS,
+} from "@/lib/redirect-type";
+import type { RedirectType } from "@/lib/types";
 
 // Lazy load charts for performance
 const ClicksLineChart = dynamic(
@@ -62,9 +69,13 @@ function getDateRange(days: number) {
 
 interface ClickEvent {
   id: string;
+  click_id: string | null;
   link_id: string;
   resolved_destination_url: string;
   went_to_main: boolean;
+  source: "link" | "qr";
+  is_bot: boolean;
+  redirect_type: RedirectType | null;
   country_code: string | null;
   user_agent: string | null;
   created_at: string;
@@ -72,6 +83,7 @@ interface ClickEvent {
 
 export default function AnalyticsOverviewPage() {
   const [selectedRange, setSelectedRange] = useState(30);
+  const [excludeBots, setExcludeBots] = useState(false);
   const [totalClicks, setTotalClicks] = useState(0);
   const [uniqueVisitors, setUniqueVisitors] = useState(0);
   const [activeLinks, setActiveLinks] = useState(0);
@@ -79,6 +91,10 @@ export default function AnalyticsOverviewPage() {
     mainPercentage: 0,
     secondaryPercentage: 0,
   });
+  const [clickSources, setClickSources] = useState({
+    qrScans: 0,
+    linkClicks: 0,
+  });
   const [clicksByDay, setClicksByDay] = useState<
     { click_date: string; total_clicks: number; unique_visitors: number }[]
   >([]);
@@ -87,37 +103,52 @@ export default function AnalyticsOverviewPage() {
   const [eventsPage, setEventsPage] = useState(1);
   const [isPending, startTransition] = useTransition();
 
-  const loadData = useCallback((range: number, page: number = 1) => {
-    const { startDate, endDate } = getDateRange(range);
+  const loadData = useCallback(
+    (range: number, page: number = 1) => {
+      const { startDate, endDate } = getDateRange(range);
 
-    startTransition(async () => {
-      try {
-        const [clicks, visitors, links, dist, dailyData, eventsData] =
-          await Promise.all([
-            getTotalClicks(startDate, endDate),
-            getUniqueVisitors(startDate, endDate),
+      startTransition(async () => {
+        try {
+          const [
+            clicks,
+            visitors,
+            links,
+            dist,
+            sources,
+            dailyData,
+            eventsData,
+          ] = await Promise.all([
+            getTotalClicks(startDate, endDate, excludeBots),
+            getUniqueVisitors(startDate, endDate, excludeBots),
             getActiveLinkCount(),
-            getDistributionRatio(startDate, endDate),
-            getAllClicksByDay(startDate, endDate),
-            getClickEvents(null, startDate, endDate, page, 50),
+            getDistributionRatio(startDate, endDate, excludeBots),
+            getClicksBySource(null, startDate, endDate, excludeBots),
+            getAllClicksByDay(startDate, endDate, excludeBots),
+            getClickEvents(null, startDate, endDate, page, 50, excludeBots),
           ]);
 
-        setTotalClicks(clicks);
-        setUniqueVisitors(visitors);
-        setActiveLinks(links);
-        setDistribution({
-          mainPercentage: dist.mainPercentage,
-          secondaryPercentage: dist.secondaryPercentage,
-        });
-        setClicksByDay(dailyData);
-        setEvents(eventsData.events as ClickEvent[]);
-        setEventsTotal(eventsData.total);
-        setEventsPage(page);
-      } catch (error) {
-        console.error("[RouteGenius] Error loading analytics:", error);
-      }
-    });
-  }, []);
+          setTotalClicks(clicks);
+          setUniqueVisitors(visitors);
+          setActiveLinks(links);
+          setDistribution({
+            mainPercentage: dist.mainPercentage,
+            secondaryPercentage: dist.secondaryPercentage,
+          });
+          setClickSources({
+            qrScans: sources.qrScans,
+            linkClicks: sources.linkClicks,
+          });
+          setClicksByDay(dailyData);
+          setEvents(eventsData.events as ClickEvent[]);
+          setEventsTotal(eventsData.total);
+          setEventsPage(page);
+        } catch (error) {
+          console.error("[RouteGenius] Error loading analytics:", error);
+        }
+      });
+    },
+    [excludeBots],
+  );
 
   useEffect(() => {
     loadData(selectedRange);
@@ -125,7 +156,7 @@ export default function AnalyticsOverviewPage() {
 
   const handleExportCSV = async () => {
     const { startDate, endDate } = getDateRange(selectedRange);
-    const csv = await exportClicksCSV(null, startDate, endDate);
+    const csv = await exportClicksCSV(null, startDate, endDate, excludeBots);
     const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -152,6 +183,19 @@ export default function AnalyticsOverviewPage() {
 
         {/* Controls */}
         <div className="flex items-center gap-3">
+          <button
+            onClick={() => setExcludeBots((prev) => !prev)}
+            aria-pressed={excludeBots}
+            title="Excluir clics de bots y rastreadores"
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-xl border text-xs font-medium transition-colors cursor-pointer whitespace-nowrap ${
+              excludeBots
+                ? "bg-brand-blue border-brand-blue text-white shadow-sm"
+                : "bg-white border-gray-200 text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            <Bot className="w-3.5 h-3.5" />
+            Excluir bots
+          </button>
           <div className="flex flex-wrap items-center gap-1 bg-white rounded-xl border border-gray-200 p-1">
             {DATE_RANGES.map((range) => (
               <button
@@ -176,6 +220,7 @@ export default function AnalyticsOverviewPage() {
           icon={MousePointerClick}
           label="Total de Clics"
           value={totalClicks.toLocaleString("es-ES")}
+          subtitle={`${clickSources.linkClicks.toLocaleString("es-ES")} clics · ${clickSources.qrScans.toLocaleString("es-ES")} escaneos QR`}
           color="blue"
           loading={isPending}
         />
@@ -249,6 +294,9 @@ export default function AnalyticsOverviewPage() {
                 <th className="text-left py-3 px-2 font-medium text-gray-500 hidden sm:table-cell">
                   Enlace
                 </th>
+                <th className="text-left py-3 px-2 font-medium text-gray-500 hidden lg:table-cell">
+                  ID de Clic
+                </th>
                 <th className="text-left py-3 px-2 font-medium text-gray-500">
                   Destino
                 </th>
@@ -263,7 +311,7 @@ export default function AnalyticsOverviewPage() {
             <tbody>
               {events.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="text-center py-12 text-gray-400">
+                  <td colSpan={6} className="text-center py-12 text-gray-400">
                     No hay eventos de clic en el período seleccionado
                   </td>
                 </tr>
@@ -282,6 +330,9 @@ export default function AnalyticsOverviewPage() {
                     <td className="py-2.5 px-2 text-gray-700 font-mono text-xs hidden sm:table-cell max-w-24 truncate">
                       {event.link_id.slice(0, 8)}…
                     </td>
+                    <td className="py-2.5 px-2 text-gray-500 font-mono text-xs hidden lg:table-cell">
+                      {event.click_id || "—"}
+                    </td>
                     <td className="py-2.5 px-2 text-gray-600 max-w-32 sm:max-w-50 truncate text-xs sm:text-sm">
                       {event.resolved_destination_url}
                     </td>
@@ -298,6 +349,22 @@ export default function AnalyticsOverviewPage() {
                       >
                         {event.went_to_main ? "Principal" : "Secundario"}
                       </span>
+                      {event.source === "qr" && (
+                        <span className="ml-1 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-lime-50 text-lime-700">
+                          QR
+                        </span>
+                      )}
+                      {event.is_bot && (
+                        <span className="ml-1 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                          Bot
+                        </span>
+                      )}
+                      {event.redirect_type &&
+                        event.redirect_type !== DEFAULT_REDIRECT_TYPE && (
+                          <span className="ml-1 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                            {REDIRECT_TYPE_LABELS[event.redirect_type]}
+                          </span>
+                        )}
                     </td>
                   </tr>
                 ))
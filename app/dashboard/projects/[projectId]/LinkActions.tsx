@@ -3,8 +3,16 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { createPortal } from "react-dom";
 import { useRouter } from "next/navigation";
-import { MoreHorizontal, Pencil, Archive, Trash2, Loader2 } from "lucide-react";
+import {
+  MoreHorizontal,
+  Pencil,
+  Archive,
+  Trash2,
+  Loader2,
+  QrCode,
+} from "lucide-react";
 import { archiveLinkAction, deleteLinkAction } from "@/app/actions";
+import QrCodeDialog from "@/components/QrCodeDialog";
 
 interface LinkActionsProps {
   linkId: string;
@@ -20,6 +28,7 @@ export default function LinkActions({
 }: LinkActionsProps) {
   const [open, setOpen] = useState(false);
   const [busy, setBusy] = useState<"archive" | "delete" | null>(null);
+  const [showQr, setShowQr] = useState(false);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
   const [menuPos, setMenuPos] = useState<{ top: number; left: number } | null>(
@@ -129,6 +138,16 @@ export default function LinkActions({
               <Pencil className="w-3.5 h-3.5" />
               Editar
             </a>
+            <button
+              onClick={() => {
+                setOpen(false);
+                setShowQr(true);
+              }}
+              className="w-full flex items-center gap-2.5 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50 transition-colors duration-150 cursor-pointer"
+            >
+              <QrCode className="w-3.5 h-3.5" />
+              Código QR
+            </button>
             <button
               onClick={handleArchive}
               className="w-full flex items-center gap-2.5 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50 transition-colors duration-150 cursor-pointer"
@@ -164,6 +183,11 @@ export default function LinkActions({
         )}
       </button>
       {dropdownMenu}
+      {showQr &&
+        createPortal(
+          <QrCodeDialog linkId={linkId} onClose={() => setShowQr(false)} />,
+          document.body,
+        )}
     </>
   );
 }
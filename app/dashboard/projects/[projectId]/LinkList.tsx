@@ -1,18 +1,53 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import Link from "next/link";
-import { Link2, Zap, BarChart3, Plus } from "lucide-react";
-import type { Link as LinkType } from "@/lib/types";
+import {
+  Link2,
+  Zap,
+  BarChart3,
+  Plus,
+  Hourglass,
+  Gauge,
+  HeartPulse,
+} from "lucide-react";
+import type { DestinationHealth, Link as LinkType } from "@/lib/types";
+import { formatCountdown, getRemainingClicks } from "@/lib/expiration";
 import LinkActions from "./LinkActions";
 
 interface LinkListProps {
   initialLinks: LinkType[];
   projectId: string;
+  /** Recorded clicks per link ID (only links with a click cap) */
+  clickCounts?: Record<string, number>;
+  /** Destination health check records per link ID */
+  destinationHealth?: Record<string, DestinationHealth[]>;
 }
 
-export default function LinkList({ initialLinks, projectId }: LinkListProps) {
+/** Tooltip line for one destination's last health check. */
+function describeHealth(h: DestinationHealth): string {
+  const name = h.destination_key === "main" ? "Principal" : h.url;
+  const result = h.error ?? `HTTP ${h.status_code}`;
+  const latency = h.latency_ms !== null ? ` · ${h.latency_ms} ms` : "";
+  return `${h.status === "unhealthy" ? "✗" : "✓"} ${name}: ${result}${latency}`;
+}
+
+export default function LinkList({
+  initialLinks,
+  projectId,
+  clickCounts = {},
+  destinationHealth = {},
+}: LinkListProps) {
   const [links, setLinks] = useState(initialLinks);
+  // Set on mount (avoids hydration mismatch) and ticks every minute
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    tick();
+    const interval = setInterval(tick, 60_000);
+    return () => clearInterval(interval);
+  }, []);
 
   const handleRemove = useCallback((linkId: string) => {
     setLinks((prev) => prev.filter((l) => l.id !== linkId));
@@ -83,6 +118,58 @@ export default function LinkList({ initialLinks, projectId }: LinkListProps) {
                       : "Expirado"}
                 </span>
 
+                {link.status === "enabled" &&
+                  link.expires_at &&
+                  now !== null && (
+                    <span
+                      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 text-amber-700 border border-amber-100"
+                      title={new Date(link.expires_at).toLocaleString("es-ES")}
+                    >
+                      <Hourglass className="w-3 h-3" />
+                      Expira en{" "}
+                      {formatCountdown(
+                        new Date(link.expires_at).getTime() - now,
+                      )}
+                    </span>
+                  )}
+
+                {link.status === "enabled" &&
+                  getRemainingClicks(link, clickCounts[link.id] ?? 0) !==
+                    null && (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-100">
+                      <Gauge className="w-3 h-3" />
+                      {getRemainingClicks(
+                        link,
+                        clickCounts[link.id] ?? 0,
+                      )?.toLocaleString("es-ES")}{" "}
+                      clics restantes
+                    </span>
+                  )}
+
+                {link.status === "enabled" &&
+                  (destinationHealth[link.id]?.length ?? 0) > 0 &&
+                  (() => {
+                    const health = destinationHealth[link.id];
+                    const down = health.filter(
+                      (h) => h.status === "unhealthy",
+                    ).length;
+                    return (
+                      <span
+                        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+                          down > 0
+                            ? "bg-red-50 text-red-600 border border-red-100"
+                            : "bg-green-50 text-green-700 border border-green-100"
+                        }`}
+                        title={health.map(describeHealth).join("\n")}
+                      >
+                        <HeartPulse className="w-3 h-3" />
+                        {down > 0
+                          ? `${down} destino${down !== 1 ? "s" : ""} caído${down !== 1 ? "s" : ""}`
+                          : "Destinos activos"}
+                      </span>
+                    );
+                  })()}
+
                 {link.rotation_enabled && (
                   <span className="inline-flex items-center gap-1 text-xs text-gray-400">
                     <Zap className="w-3 h-3" />
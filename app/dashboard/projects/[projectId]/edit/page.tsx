@@ -5,6 +5,10 @@ import { useRouter, useParams } from "next/navigation";
 import { ArrowLeft, FolderOpen, X, Plus } from "lucide-react";
 import Link from "next/link";
 import { saveProjectAction, getProjectAction } from "@/app/actions";
+import ParamPassthroughEditor from "@/components/ParamPassthroughEditor";
+import TrackingPixelsEditor from "@/components/TrackingPixelsEditor";
+import RateLimitEditor from "@/components/RateLimitEditor";
+import ProjectDomains from "@/components/ProjectDomains";
 import type { Project } from "@/lib/types";
 
 export default function EditProjectPage() {
@@ -206,6 +210,29 @@ export default function EditProjectPage() {
             )}
           </div>
 
+          <ParamPassthroughEditor
+            value={project.param_passthrough}
+            onChange={(policy) =>
+              setProject((p) => (p ? { ...p, param_passthrough: policy } : p))
+            }
+            inheritLabel="Predeterminado (solo UTM)"
+          />
+
+          <TrackingPixelsEditor
+            value={project.tracking_pixels}
+            onChange={(pixels) =>
+              setProject((p) => (p ? { ...p, tracking_pixels: pixels } : p))
+            }
+          />
+
+          <RateLimitEditor
+            value={project.rate_limit}
+            onChange={(policy) =>
+              setProject((p) => (p ? { ...p, rate_limit: policy } : p))
+            }
+            inheritLabel="Predeterminado (100 solicitudes cada 10 s por IP)"
+          />
+
           <div className="flex flex-col-reverse sm:flex-row items-stretch sm:items-center gap-3 pt-2">
             <button
               type="submit"
@@ -223,6 +250,8 @@ export default function EditProjectPage() {
           </div>
         </form>
       </div>
+
+      <ProjectDomains projectId={projectId} />
     </div>
   );
 }
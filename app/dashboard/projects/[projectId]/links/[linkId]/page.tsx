@@ -1,7 +1,14 @@
 import { ArrowLeft } from "lucide-react";
 import Link from "next/link";
 import { notFound, redirect } from "next/navigation";
-import { getProject, getLink } from "@/lib/mock-data";
+import {
+  getProject,
+  getLink,
+  countClicksByRule,
+  getDestinationStats,
+  getPreviousShortCodes,
+  getProjectDomains,
+} from "@/lib/mock-data";
 import { getServerSession } from "@/lib/auth-session";
 import LinkEditorForm from "@/components/LinkEditorForm";
 
@@ -22,6 +29,29 @@ export default async function EditLinkPage({
     notFound();
   }
 
+  // Cap progress, optimize stats, former short codes and custom domains are
+  // informational — don't fail the editor if loading them fails
+  const [ruleClickCounts, destinationStats, previousShortCodes, domains] =
+    await Promise.all([
+      countClicksByRule(link.id).catch((err) => {
+        console.error("[RouteGenius] Error counting rule clicks:", err);
+        return {};
+      }),
+      getDestinationStats(link.id).catch((err) => {
+        console.error("[RouteGenius] Error loading destination stats:", err);
+        return {};
+      }),
+      getPreviousShortCodes(link).catch((err) => {
+        console.error("[RouteGenius] Error loading short codes:", err);
+        return [];
+      }),
+      getProjectDomains(projectId).catch((err) => {
+        console.error("[RouteGenius] Error loading custom domains:", err);
+        return [];
+      }),
+    ]);
+  const customDomain = domains.find((d) => d.verified_at)?.hostname ?? null;
+
   return (
     <div className="max-w-3xl mx-auto">
       {/* Back */}
@@ -43,7 +73,14 @@ export default async function EditLinkPage({
         </p>
       </div>
 
-      <LinkEditorForm initialLink={link} projectId={projectId} />
+      <LinkEditorForm
+        initialLink={link}
+        projectId={projectId}
+        ruleClickCounts={ruleClickCounts}
+        destinationStats={destinationStats}
+        previousShortCodes={previousShortCodes}
+        customDomain={customDomain}
+      />
     </div>
   );
 }
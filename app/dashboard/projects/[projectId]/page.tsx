@@ -9,7 +9,13 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { notFound, redirect } from "next/navigation";
-import { getProject, getLinksByProject } from "@/lib/mock-data";
+import {
+  getProject,
+  getLinksByProject,
+  countClicksByLinkIds,
+  getDestinationHealthByLinkIds,
+} from "@/lib/mock-data";
+import { hasClickCap } from "@/lib/expiration";
 import { getServerSession } from "@/lib/auth-session";
 import LinkList from "./LinkList";
 
@@ -36,6 +42,12 @@ export default async function ProjectDetailPage({
 
   const links = await getLinksByProject(projectId, userId);
 
+  // Click totals are only needed for links with a click cap (badge)
+  const [clickCounts, destinationHealth] = await Promise.all([
+    countClicksByLinkIds(links.filter(hasClickCap).map((l) => l.id)),
+    getDestinationHealthByLinkIds(links.map((l) => l.id)).catch(() => ({})),
+  ]);
+
   return (
     <div className="max-w-4xl mx-auto">
       {/* Back */}
@@ -112,7 +124,12 @@ export default async function ProjectDetailPage({
       </div>
 
       {/* Links list */}
-      <LinkList initialLinks={links} projectId={projectId} />
+      <LinkList
+        initialLinks={links}
+        projectId={projectId}
+        clickCounts={clickCounts}
+        destinationHealth={destinationHealth}
+      />
     </div>
   );
 }
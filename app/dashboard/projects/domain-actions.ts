@@ -0,0 +1,197 @@
+"use server";
+
+/**
+ * RouteGenius — Custom Domain Server Actions
+ *
+ * Adds, verifies and removes the custom domains a project serves its
+ * short links from (see lib/custom-domains.ts).
+ */
+
+import { resolveTxt } from "dns/promises";
+import {
+  getProject,
+  getProjectDomains,
+  getProjectDomain,
+  addProjectDomain,
+  markProjectDomainVerified,
+  deleteProjectDomain,
+} from "@/lib/mock-data";
+import { getServerSession } from "@/lib/auth-session";
+import { reportError } from "@/lib/gcp/error-reporting";
+import {
+  createStaticTxtResolver,
+  generateVerificationToken,
+  isValidHostname,
+  normalizeHostname,
+  verifyDomainTxt,
+  type TxtResolver,
+} from "@/lib/custom-domains";
+import { revalidatePath } from "next/cache";
+import type { ProjectDomain } from "@/lib/types";
+
+type ActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+// ── Auth Helper ─────────────────────────────────────────────────
+
+async function requireUserId(): Promise<string> {
+  const session = await getServerSession();
+  if (!session?.user?.id) throw new Error("No autorizado.");
+  return session.user.id;
+}
+
+/**
+ * DNS resolver for verification. `DOMAIN_VERIFICATION_TXT_RECORDS` (JSON
+ * object of record name → values) replaces real DNS in development.
+ */
+function getTxtResolver(): TxtResolver {
+  const records = process.env.DOMAIN_VERIFICATION_TXT_RECORDS;
+  if (records) {
+    return createStaticTxtResolver(JSON.parse(records));
+  }
+  return resolveTxt;
+}
+
+// ── Custom Domain Actions ───────────────────────────────────────
+
+/** List a project's custom domains. */
+export async function getProjectDomainsAction(
+  projectId: string,
+): Promise<ActionResult<ProjectDomain[]>> {
+  try {
+    const userId = await requireUserId();
+    if (!(await getProject(projectId, userId))) {
+      return { success: false, error: "Proyecto no encontrado." };
+    }
+    return { success: true, data: await getProjectDomains(projectId) };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error loading custom domains:", error);
+    reportError(error, {
+      httpRequest: { method: "POST", url: "/actions/getProjectDomainsAction" },
+    });
+    return { success: false, error: "Error al cargar los dominios." };
+  }
+}
+
+/** Register a custom domain for a project. It starts unverified. */
+export async function addProjectDomainAction(
+  projectId: string,
+  hostname: string,
+): Promise<ActionResult<ProjectDomain>> {
+  try {
+    const userId = await requireUserId();
+    if (!(await getProject(projectId, userId))) {
+      return { success: false, error: "Proyecto no encontrado." };
+    }
+
+    const host = normalizeHostname(hostname);
+    if (!isValidHostname(host)) {
+      return {
+        success: false,
+        error: "Introduzca un dominio válido, p. ej. go.midominio.com.",
+      };
+    }
+    if (
+      !(await addProjectDomain(projectId, host, generateVerificationToken()))
+    ) {
+      return {
+        success: false,
+        error: "Este dominio ya está en uso por otro proyecto.",
+      };
+    }
+
+    const domain = await getProjectDomain(host);
+    if (!domain) {
+      return { success: false, error: "Error al añadir el dominio." };
+    }
+    console.log("[RouteGenius] Custom domain added:", {
+      project: projectId,
+      hostname: host,
+    });
+    revalidatePath(`/dashboard/projects/${projectId}/edit`);
+    return { success: true, data: domain };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error adding custom domain:", error);
+    reportError(error, {
+      httpRequest: { method: "POST", url: "/actions/addProjectDomainAction" },
+    });
+    return { success: false, error: "Error al añadir el dominio." };
+  }
+}
+
+/** Check the domain's verification TXT record and mark it verified. */
+export async function verifyProjectDomainAction(
+  projectId: string,
+  hostname: string,
+): Promise<ActionResult<ProjectDomain>> {
+  try {
+    const userId = await requireUserId();
+    if (!(await getProject(projectId, userId))) {
+      return { success: false, error: "Proyecto no encontrado." };
+    }
+    const domain = await getProjectDomain(normalizeHostname(hostname));
+    if (!domain || domain.project_id !== projectId) {
+      return { success: false, error: "Dominio no encontrado." };
+    }
+    if (domain.verified_at) {
+      return { success: true, data: domain };
+    }
+
+    const result = await verifyDomainTxt(
+      domain.hostname,
+      domain.verification_token,
+      getTxtResolver(),
+    );
+    if (!result.verified) {
+      return { success: false, error: result.error };
+    }
+
+    await markProjectDomainVerified(domain.hostname);
+    console.log("[RouteGenius] Custom domain verified:", domain.hostname);
+    revalidatePath(`/dashboard/projects/${projectId}/edit`);
+    return {
+      success: true,
+      data: { ...domain, verified_at: new Date().toISOString() },
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error verifying custom domain:", error);
+    reportError(error, {
+      httpRequest: {
+        method: "POST",
+        url: "/actions/verifyProjectDomainAction",
+      },
+    });
+    return { success: false, error: "Error al verificar el dominio." };
+  }
+}
+
+/** Remove a custom domain. Its short links stop resolving immediately. */
+export async function removeProjectDomainAction(
+  projectId: string,
+  hostname: string,
+): Promise<ActionResult<null>> {
+  try {
+    const userId = await requireUserId();
+    if (!(await getProject(projectId, userId))) {
+      return { success: false, error: "Proyecto no encontrado." };
+    }
+    await deleteProjectDomain(projectId, normalizeHostname(hostname));
+    console.log("[RouteGenius] Custom domain removed:", hostname);
+    revalidatePath(`/dashboard/projects/${projectId}/edit`);
+    return { success: true, data: null };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error removing custom domain:", error);
+    reportError(error, {
+      httpRequest: {
+        method: "POST",
+        url: "/actions/removeProjectDomainAction",
+      },
+    });
+    return { success: false, error: "Error al eliminar el dominio." };
+  }
+}
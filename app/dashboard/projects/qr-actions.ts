@@ -0,0 +1,112 @@
+"use server";
+
+/**
+ * RouteGenius — QR Code Server Actions
+ *
+ * Generates downloadable QR codes for a link (see lib/qr-code.ts). The
+ * code encodes the link's short URL — on the project's verified custom
+ * domain when it has one — with the `src=qr` scan marker.
+ */
+
+import { headers } from "next/headers";
+import { getLink, ensureShortCode, getProjectDomains } from "@/lib/mock-data";
+import { getServerSession } from "@/lib/auth-session";
+import { reportError } from "@/lib/gcp/error-reporting";
+import {
+  encodeQr,
+  normalizeQrOptions,
+  renderQrSvg,
+  withQrSource,
+  type QrOptions,
+} from "@/lib/qr-code";
+import { renderQrPng } from "@/lib/qr-png";
+import { buildShortUrl } from "@/lib/short-code";
+import { buildCustomDomainUrl } from "@/lib/custom-domains";
+
+type ActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/** A rendered QR code, ready to download. */
+export interface QrCodeDownload {
+  filename: string;
+  /** `data:image/svg+xml;…` or `data:image/png;…` */
+  data_url: string;
+  /** URL the QR code encodes */
+  url: string;
+}
+
+// ── Auth Helper ─────────────────────────────────────────────────
+
+async function requireUserId(): Promise<string> {
+  const session = await getServerSession();
+  if (!session?.user?.id) throw new Error("No autorizado.");
+  return session.user.id;
+}
+
+/** Origin of the current request, e.g. "https://route.topnetworks.co". */
+async function requestOrigin(): Promise<string> {
+  const h = await headers();
+  const host = h.get("x-forwarded-host") ?? h.get("host") ?? "localhost:3070";
+  const proto =
+    h.get("x-forwarded-proto") ??
+    (host.startsWith("localhost") ? "http" : "https");
+  return `${proto}://${host}`;
+}
+
+// ── QR Code Actions ─────────────────────────────────────────────
+
+/** Render a QR code for a link as SVG or PNG. */
+export async function generateQrCodeAction(
+  linkId: string,
+  input: Partial<QrOptions>,
+): Promise<ActionResult<QrCodeDownload>> {
+  try {
+    const userId = await requireUserId();
+    const link = await getLink(linkId, userId);
+    if (!link) {
+      return { success: false, error: "Enlace no encontrado." };
+    }
+
+    const normalized = normalizeQrOptions(input);
+    if (!normalized.ok) {
+      return { success: false, error: normalized.error };
+    }
+    const { options } = normalized;
+
+    const [code, domains] = await Promise.all([
+      ensureShortCode(link),
+      getProjectDomains(link.project_id),
+    ]);
+    const customDomain = domains.find((d) => d.verified_at)?.hostname;
+    const origin = await requestOrigin();
+    const baseUrl = code
+      ? customDomain
+        ? buildCustomDomainUrl(customDomain, code)
+        : buildShortUrl(origin, code)
+      : `${origin}/api/redirect/${link.id}`;
+    const url = withQrSource(baseUrl);
+
+    const matrix = encodeQr(url, options.error_correction);
+    const data_url =
+      options.format === "svg"
+        ? `data:image/svg+xml;base64,${Buffer.from(renderQrSvg(matrix, options)).toString("base64")}`
+        : `data:image/png;base64,${renderQrPng(matrix, options).toString("base64")}`;
+
+    return {
+      success: true,
+      data: {
+        filename: `qr-${code ?? link.id}.${options.format}`,
+        data_url,
+        url,
+      },
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error generating QR code:", error);
+    reportError(error, {
+      httpRequest: { method: "POST", url: "/actions/generateQrCodeAction" },
+    });
+    return { success: false, error: "Error al generar el código QR." };
+  }
+}
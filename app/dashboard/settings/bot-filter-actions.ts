@@ -0,0 +1,102 @@
+"use server";
+
+/**
+ * RouteGenius — Bot Filter Settings Server Actions
+ *
+ * Manages the per-workspace list of user-agent patterns that classify
+ * redirect requests as bots (see lib/bot-filter.ts).
+ */
+
+import {
+  DEFAULT_WORKSPACE,
+  getWorkspaceBotPatterns,
+  setWorkspaceBotPatterns,
+} from "@/lib/mock-data";
+import { getServerSession } from "@/lib/auth-session";
+import { reportError } from "@/lib/gcp/error-reporting";
+import { DEFAULT_BOT_PATTERNS, normalizeBotPatterns } from "@/lib/bot-filter";
+
+type ActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/** The workspace's active bot patterns. */
+export interface BotPatternSettings {
+  patterns: string[];
+  /** True while the workspace uses the built-in defaults */
+  isDefault: boolean;
+}
+
+// ── Auth Helper ─────────────────────────────────────────────────
+
+async function requireUserId(): Promise<string> {
+  const session = await getServerSession();
+  if (!session?.user?.id) throw new Error("No autorizado.");
+  return session.user.id;
+}
+
+// ── Bot Pattern Actions ─────────────────────────────────────────
+
+/** Get the workspace bot patterns (the defaults when none are saved). */
+export async function getBotPatternsAction(): Promise<
+  ActionResult<BotPatternSettings>
+> {
+  try {
+    await requireUserId();
+    const patterns = await getWorkspaceBotPatterns(DEFAULT_WORKSPACE);
+    return {
+      success: true,
+      data: {
+        patterns: patterns ?? DEFAULT_BOT_PATTERNS,
+        isDefault: patterns === null,
+      },
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error loading bot patterns:", error);
+    reportError(error, {
+      httpRequest: { method: "POST", url: "/actions/getBotPatternsAction" },
+    });
+    return {
+      success: false,
+      error: "Error al cargar los patrones de bots.",
+    };
+  }
+}
+
+/** Save the workspace bot patterns. Null restores the defaults. */
+export async function saveBotPatternsAction(
+  patterns: string[] | null,
+): Promise<ActionResult<BotPatternSettings>> {
+  try {
+    await requireUserId();
+
+    if (patterns === null) {
+      await setWorkspaceBotPatterns(DEFAULT_WORKSPACE, null);
+      return {
+        success: true,
+        data: { patterns: DEFAULT_BOT_PATTERNS, isDefault: true },
+      };
+    }
+
+    const normalized = normalizeBotPatterns(patterns);
+    if (!normalized.ok) {
+      return { success: false, error: normalized.error };
+    }
+    await setWorkspaceBotPatterns(DEFAULT_WORKSPACE, normalized.patterns);
+    return {
+      success: true,
+      data: { patterns: normalized.patterns, isDefault: false },
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error saving bot patterns:", error);
+    reportError(error, {
+      httpRequest: { method: "POST", url: "/actions/saveBotPatternsAction" },
+    });
+    return {
+      success: false,
+      error: "Error al guardar los patrones de bots. Intente de nuevo.",
+    };
+  }
+}
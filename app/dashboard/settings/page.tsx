@@ -24,6 +24,8 @@ import {
 import { useSession, authClient } from "@/lib/auth-client";
 import { updateUserProfileAction } from "@/app/actions";
 import BackupRestoreModule from "@/components/BackupRestoreModule";
+import PostbackSettings from "@/components/PostbackSettings";
+import BotFilterSettings from "@/components/BotFilterSettings";
 
 // Lazy-load the crop modal (only needed on interaction)
 const AvatarCropModal = dynamic(() => import("@/components/AvatarCropModal"), {
@@ -497,6 +499,12 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {/* Conversion Postback Section */}
+      <PostbackSettings />
+
+      {/* Bot Filter Section */}
+      <BotFilterSettings />
+
       {/* Backup & Restore Section */}
       <BackupRestoreModule />
 
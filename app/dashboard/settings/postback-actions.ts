@@ -0,0 +1,79 @@
+"use server";
+
+/**
+ * RouteGenius — Postback Settings Server Actions
+ *
+ * Manages the per-workspace secret that authenticates
+ * server-to-server conversion postbacks (`/api/postback`).
+ */
+
+import {
+  DEFAULT_WORKSPACE,
+  getWorkspacePostbackSecret,
+  setWorkspacePostbackSecret,
+} from "@/lib/mock-data";
+import { getServerSession } from "@/lib/auth-session";
+import { reportError } from "@/lib/gcp/error-reporting";
+import { generatePostbackSecret } from "@/lib/postback";
+
+type ActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+// ── Auth Helper ─────────────────────────────────────────────────
+
+async function requireUserId(): Promise<string> {
+  const session = await getServerSession();
+  if (!session?.user?.id) throw new Error("No autorizado.");
+  return session.user.id;
+}
+
+// ── Postback Secret Actions ─────────────────────────────────────
+
+/** Get the workspace postback secret, generating one on first use. */
+export async function getPostbackSecretAction(): Promise<ActionResult<string>> {
+  try {
+    await requireUserId();
+    let secret = await getWorkspacePostbackSecret(DEFAULT_WORKSPACE);
+    if (!secret) {
+      secret = generatePostbackSecret();
+      await setWorkspacePostbackSecret(DEFAULT_WORKSPACE, secret);
+    }
+    return { success: true, data: secret };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error loading postback secret:", error);
+    reportError(error, {
+      httpRequest: { method: "POST", url: "/actions/getPostbackSecretAction" },
+    });
+    return {
+      success: false,
+      error: "Error al cargar el secreto de postback.",
+    };
+  }
+}
+
+/** Replace the workspace postback secret. Old postback URLs stop working. */
+export async function rotatePostbackSecretAction(): Promise<
+  ActionResult<string>
+> {
+  try {
+    await requireUserId();
+    const secret = generatePostbackSecret();
+    await setWorkspacePostbackSecret(DEFAULT_WORKSPACE, secret);
+    return { success: true, data: secret };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error rotating postback secret:", error);
+    reportError(error, {
+      httpRequest: {
+        method: "POST",
+        url: "/actions/rotatePostbackSecretAction",
+      },
+    });
+    return {
+      success: false,
+      error: "Error al regenerar el secreto de postback. Intente de nuevo.",
+    };
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * RouteGenius — Short Link Route
+ *
+ * GET /r/[code] → same redirect as /api/redirect/[linkId], for the link
+ * that has (or previously had) this short code.
+ *
+ * On a project's custom domain (proxy.ts rewrites `/<code>` here) the
+ * code is resolved within that project, and only once the domain is
+ * verified. Resolved codes are cached with the redirect's links
+ * (lib/link-cache.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getLinkIdByShortCode,
+  getLinkIdByHostAndShortCode,
+} from "@/lib/mock-data";
+import {
+  checkRedirectRateLimit,
+  getClientIp,
+  handleRedirect,
+  rateLimitedResponse,
+} from "@/lib/redirect-handler";
+import { getCachedLinkIdByCode } from "@/lib/link-cache";
+import { isValidShortCode } from "@/lib/short-code";
+import { isAppHostname, normalizeHostname } from "@/lib/custom-domains";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const hostname = normalizeHostname(request.nextUrl.hostname);
+
+  // Throttle per IP before the code lookup, like the link lookup
+  const ipLimit = await checkRedirectRateLimit(getClientIp(request));
+  if (!ipLimit.allowed) return rateLimitedResponse(ipLimit);
+
+  let linkId: string | undefined;
+  if (isValidShortCode(code)) {
+    const customDomain = isAppHostname(hostname) ? null : hostname;
+    linkId = await getCachedLinkIdByCode(customDomain, code, () =>
+      customDomain
+        ? getLinkIdByHostAndShortCode(customDomain, code)
+        : getLinkIdByShortCode(code),
+    );
+  }
+
+  if (!linkId) {
+    return NextResponse.json(
+      { error: "Enlace no encontrado", code },
+      { status: 404 },
+    );
+  }
+
+  return handleRedirect(request, linkId, ipLimit);
+}
@@ -0,0 +1,83 @@
+/**
+ * RouteGenius — Link Unlock Page
+ *
+ * Public page in front of password-protected and interstitial links.
+ * The redirect route sends visitors here until they hold a valid unlock
+ * cookie; `?next=` is the redirect path to return to afterwards.
+ */
+
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import Image from "next/image";
+import { Zap } from "lucide-react";
+import { getLinkForRedirect } from "@/lib/mock-data";
+import {
+  getDestinationHostnames,
+  isGatedLink,
+  isSafeReturnPath,
+} from "@/lib/link-access";
+import LinkUnlockForm from "@/components/LinkUnlockForm";
+
+export const metadata: Metadata = {
+  title: "Enlace protegido — RouteGenius",
+  robots: { index: false, follow: false },
+};
+
+interface Props {
+  params: Promise<{ linkId: string }>;
+  searchParams: Promise<{ next?: string | string[] }>;
+}
+
+export default async function UnlockPage({ params, searchParams }: Props) {
+  const { linkId } = await params;
+  const { next } = await searchParams;
+
+  const link = await getLinkForRedirect(linkId);
+  if (!link || link.status !== "enabled") notFound();
+
+  const returnTo =
+    typeof next === "string" && isSafeReturnPath(next)
+      ? next
+      : `/api/redirect/${link.id}`;
+  if (!isGatedLink(link)) redirect(returnTo);
+
+  return (
+    <div className="min-h-screen page-bg flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg p-8 space-y-8">
+          {/* Branding */}
+          <div className="flex justify-center">
+            <Image
+              src="https://storage.googleapis.com/media-topfinanzas-com/images/topnetworks-positivo-sinfondo.webp"
+              alt="TopNetworks Logo"
+              width={140}
+              height={37}
+              className="h-9 w-auto"
+            />
+          </div>
+
+          <div className="text-center space-y-1">
+            <div className="flex items-center justify-center gap-2">
+              <Zap className="w-5 h-5 text-brand-cyan" />
+              <h1 className="text-xl font-bold text-brand-gradient tracking-tight">
+                RouteGenius
+              </h1>
+            </div>
+            <p className="text-xs text-gray-400">
+              {link.password_protected
+                ? "Este enlace está protegido con contraseña"
+                : "Está a punto de salir hacia otro sitio"}
+            </p>
+          </div>
+
+          <LinkUnlockForm
+            linkId={link.id}
+            returnTo={returnTo}
+            requiresPassword={!!link.password_protected}
+            hostnames={link.interstitial ? getDestinationHostnames(link) : []}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
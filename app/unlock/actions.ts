@@ -0,0 +1,86 @@
+"use server";
+
+/**
+ * RouteGenius — Link Unlock Server Actions
+ *
+ * Public (no session): checks a protected link's password, or the
+ * click-to-continue of an interstitial link, and sets the signed
+ * short-lived unlock cookie the redirect route looks for.
+ */
+
+import { cookies, headers } from "next/headers";
+import { getLinkForRedirect, getLinkPasswordHash } from "@/lib/mock-data";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { reportError } from "@/lib/gcp/error-reporting";
+import {
+  createUnlockToken,
+  isSafeReturnPath,
+  unlockCookieName,
+  verifyLinkPassword,
+  UNLOCK_TTL_SECONDS,
+} from "@/lib/link-access";
+
+type ActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * Unlock a link for this browser. Returns the path to continue to.
+ *
+ * @param password - Required when the link is password-protected
+ * @param returnTo - Redirect path the visitor came from
+ */
+export async function unlockLinkAction(
+  linkId: string,
+  password: string | null,
+  returnTo: string,
+): Promise<ActionResult<string>> {
+  try {
+    const link = await getLinkForRedirect(linkId);
+    if (!link || link.status !== "enabled") {
+      return { success: false, error: "Este enlace no está disponible." };
+    }
+
+    if (link.password_protected) {
+      // 10 attempts per minute per IP and link (no allowlist exemption)
+      const h = await headers();
+      const ip = h.get("x-forwarded-for")?.split(",")[0]?.trim() ?? "127.0.0.1";
+      const { allowed } = await checkRateLimit(`unlock:${link.id}:${ip}`, {
+        max_requests: 10,
+        window_seconds: 60,
+      });
+      if (!allowed) {
+        return {
+          success: false,
+          error: "Demasiados intentos. Intenta de nuevo en un minuto.",
+        };
+      }
+
+      const hash = await getLinkPasswordHash(link.id);
+      if (!password || !(await verifyLinkPassword(password, hash))) {
+        return { success: false, error: "Contraseña incorrecta." };
+      }
+    }
+
+    const cookieStore = await cookies();
+    cookieStore.set(unlockCookieName(link.id), createUnlockToken(link.id), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: UNLOCK_TTL_SECONDS,
+    });
+
+    return {
+      success: true,
+      data: isSafeReturnPath(returnTo) ? returnTo : `/api/redirect/${link.id}`,
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error("[RouteGenius] Error unlocking link:", error);
+    reportError(error, {
+      httpRequest: { method: "POST", url: "/actions/unlockLinkAction" },
+    });
+    return { success: false, error: "Error al abrir el enlace." };
+  }
+}
@@ -0,0 +1,136 @@
+"use client";
+
+/**
+ * RouteGenius — Bot Filter Settings
+ *
+ * Edits the user-agent patterns that classify redirect requests as bots.
+ * Bots skip the rotation (they go to each link's bot destination) and
+ * can be excluded from analytics.
+ *
+ * UI language: Spanish (Español).
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Bot,
+  Save,
+  RotateCcw,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+} from "lucide-react";
+import {
+  getBotPatternsAction,
+  saveBotPatternsAction,
+} from "@/app/dashboard/settings/bot-filter-actions";
+import { MAX_BOT_PATTERNS } from "@/lib/bot-filter";
+
+export default function BotFilterSettings() {
+  const [text, setText] = useState<string | null>(null);
+  const [isDefault, setIsDefault] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    getBotPatternsAction().then((result) => {
+      if (result.success) {
+        setText(result.data.patterns.join("\n"));
+        setIsDefault(result.data.isDefault);
+      } else {
+        setError(result.error);
+      }
+    });
+  }, []);
+
+  const save = useCallback(async (patterns: string[] | null) => {
+    setIsSaving(true);
+    setError("");
+    const result = await saveBotPatternsAction(patterns);
+    if (result.success) {
+      setText(result.data.patterns.join("\n"));
+      setIsDefault(result.data.isDefault);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+    } else {
+      setError(result.error);
+    }
+    setIsSaving(false);
+  }, []);
+
+  const handleReset = useCallback(() => {
+    if (!confirm("¿Restaurar los patrones de bots predeterminados?")) return;
+    save(null);
+  }, [save]);
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200/80 shadow-sm p-6 sm:p-8 mb-6">
+      <h3 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+        <Bot className="w-4.5 h-4.5 text-brand-cyan" />
+        Filtro de Bots
+      </h3>
+      <p className="text-sm text-gray-500 mb-5">
+        Las visitas cuyo user-agent coincide con alguno de estos patrones se
+        tratan como bots: no entran en la rotación, van al destino para bots de
+        cada enlace y pueden excluirse de las analíticas.
+      </p>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-2 px-4 py-3 rounded-lg bg-red-50 border border-red-100 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <label className="block text-xs font-medium text-gray-500 mb-1">
+        Patrones (uno por línea, texto contenido en el user-agent, sin
+        distinguir mayúsculas)
+        {isDefault && (
+          <span className="ml-2 text-gray-400">· Predeterminados</span>
+        )}
+      </label>
+      {text === null ? (
+        <div className="flex items-center justify-center h-40 rounded-lg bg-gray-50 border border-gray-100">
+          <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={8}
+          spellCheck={false}
+          className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-xs text-gray-700 font-mono focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+        />
+      )}
+      <p className="mt-1 text-xs text-gray-400 mb-5">
+        Máximo {MAX_BOT_PATTERNS} patrones. Las visitas sin user-agent siempre
+        cuentan como bots. Los cambios se aplican en menos de un minuto.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => save(text === null ? [] : text.split("\n"))}
+          disabled={text === null || isSaving}
+          className="inline-flex items-center justify-center gap-2 px-5 py-2.5 rounded-lg text-sm font-medium bg-brand-blue text-white hover:bg-blue-700 transition-colors cursor-pointer min-h-11 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : saved ? (
+            <CheckCircle2 className="w-4 h-4" />
+          ) : (
+            <Save className="w-4 h-4" />
+          )}
+          Guardar Patrones
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={isDefault || isSaving}
+          className="inline-flex items-center justify-center gap-2 px-5 py-2.5 rounded-lg text-sm font-medium border border-gray-200 text-gray-700 hover:bg-gray-50 hover:border-gray-300 transition-colors cursor-pointer min-h-11 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Restaurar Predeterminados
+        </button>
+      </div>
+    </div>
+  );
+}
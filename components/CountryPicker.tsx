@@ -0,0 +1,102 @@
+"use client";
+
+import { useMemo } from "react";
+import { X } from "lucide-react";
+import {
+  COUNTRY_CODES,
+  PRIORITY_COUNTRY_CODES,
+  getCountryName,
+} from "@/lib/countries";
+
+interface CountryPickerProps {
+  /** Field label shown above the chips */
+  label: string;
+  /** Selected ISO alpha-2 codes */
+  value: string[];
+  onChange: (codes: string[]) => void;
+  /** Chip colour: green for include lists, red for exclude lists */
+  tone?: "include" | "exclude";
+}
+
+/**
+ * Multi-select for ISO country codes.
+ *
+ * Selected countries render as removable chips; new ones are added from
+ * a native select with the brands' priority markets listed first.
+ */
+export default function CountryPicker({
+  label,
+  value,
+  onChange,
+  tone = "include",
+}: CountryPickerProps) {
+  const options = useMemo(() => {
+    const selected = new Set(value);
+    const toOption = (code: string) => ({
+      code,
+      name: getCountryName(code),
+    });
+    const priority = PRIORITY_COUNTRY_CODES.filter((c) => !selected.has(c)).map(
+      toOption,
+    );
+    const rest = COUNTRY_CODES.filter((c) => !selected.has(c))
+      .map(toOption)
+      .sort((a, b) => a.name.localeCompare(b.name, "es"));
+    return { priority, rest };
+  }, [value]);
+
+  const chipClass =
+    tone === "include"
+      ? "bg-green-50 text-green-700 border-green-100"
+      : "bg-red-50 text-red-600 border-red-100";
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 mb-1">
+        {label}
+      </label>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {value.map((code) => (
+          <span
+            key={code}
+            className={`inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full border text-xs font-medium ${chipClass}`}
+            title={getCountryName(code)}
+          >
+            {code}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((c) => c !== code))}
+              className="p-0.5 rounded-full hover:bg-white/80 transition-colors"
+              title={`Quitar ${getCountryName(code)}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onChange([...value, e.target.value]);
+          }}
+          className="px-2 py-1 rounded-lg border border-gray-200 bg-white text-xs text-gray-600 focus:outline-none focus:ring-2 focus:ring-brand-cyan/20 focus:border-brand-cyan"
+        >
+          <option value="">+ Agregar país…</option>
+          <optgroup label="Mercados principales">
+            {options.priority.map((o) => (
+              <option key={o.code} value={o.code}>
+                {o.name} ({o.code})
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Todos los países">
+            {options.rest.map((o) => (
+              <option key={o.code} value={o.code}>
+                {o.name} ({o.code})
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { Smartphone } from "lucide-react";
+import type { DeepLinkConfig } from "@/lib/types";
+
+interface DeepLinkEditorProps {
+  value: DeepLinkConfig | null | undefined;
+  onChange: (config: DeepLinkConfig | null) => void;
+}
+
+const EMPTY_CONFIG: DeepLinkConfig = {
+  ios_url: null,
+  android_url: null,
+  ios_store_url: null,
+  android_store_url: null,
+};
+
+const FIELDS: {
+  key: keyof DeepLinkConfig;
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "ios_url", label: "App iOS", placeholder: "miapp://oferta/123" },
+  {
+    key: "ios_store_url",
+    label: "App Store",
+    placeholder: "https://apps.apple.com/app/id123456789",
+  },
+  {
+    key: "android_url",
+    label: "App Android",
+    placeholder: "miapp://oferta/123",
+  },
+  {
+    key: "android_store_url",
+    label: "Play Store",
+    placeholder: "https://play.google.com/store/apps/details?id=com.miapp",
+  },
+];
+
+/**
+ * Mobile app deep link: app URLs (custom scheme or universal link) per
+ * platform and the store listings used when the app is missing.
+ */
+export default function DeepLinkEditor({
+  value,
+  onChange,
+}: DeepLinkEditorProps) {
+  const config = value ?? EMPTY_CONFIG;
+
+  const update = (key: keyof DeepLinkConfig, fieldValue: string) => {
+    const next = { ...config, [key]: fieldValue || null };
+    onChange(Object.values(next).some(Boolean) ? next : null);
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+        <Smartphone className="w-3.5 h-3.5 text-gray-400" />
+        Deep Link a la App
+      </label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {FIELDS.map(({ key, label, placeholder }) => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-gray-500 mb-1">
+              {label}
+            </label>
+            <input
+              type="text"
+              value={config[key] ?? ""}
+              onChange={(e) => update(key, e.target.value)}
+              placeholder={placeholder}
+              className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 font-mono placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+            />
+          </div>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-400">
+        En iOS y Android se intenta abrir la app; si no está instalada, el
+        visitante va a la tienda (o al destino web si no hay tienda). En
+        escritorio se usa siempre el destino web. Un enlace universal abre su
+        propia página web cuando falta la app.
+      </p>
+    </div>
+  );
+}
@@ -29,16 +29,74 @@ import {
   Loader2,
   CheckCircle2,
   Save,
+  Pin,
+  Clock,
+  Gauge,
+  Sparkles,
+  Hash,
+  QrCode,
+  Bot,
+  Lock,
+  CornerUpRight,
 } from "lucide-react";
-import type { Link, RotationRule, SimulationResult } from "@/lib/types";
-import { simulateClicks } from "@/lib/rotation";
+import type {
+  CapRedistributionMode,
+  DestinationStats,
+  Link,
+  RedirectType,
+  RotationRule,
+  RotationStrategy,
+  SimulationResult,
+  StickinessMode,
+} from "@/lib/types";
+import { hasRuleClickCaps, simulateClicks } from "@/lib/rotation";
+import { createSeededRandom, generateSeed } from "@/lib/random";
+import { DEFAULT_STICKINESS_TTL_SECONDS } from "@/lib/stickiness";
+import { DEFAULT_OPTIMIZE_FLOOR_PERCENTAGE } from "@/lib/bandit";
+import { DEFAULT_CLICK_ID_PARAM } from "@/lib/click-id";
+import { DEFAULT_REDIRECT_TYPE, isHtmlRedirect } from "@/lib/redirect-type";
 import SimulationResults from "./SimulationResults";
+import RuleTargetingPanel from "./RuleTargetingPanel";
+import RuleClickCap from "./RuleClickCap";
+import ParamPassthroughEditor from "./ParamPassthroughEditor";
+import TrackingPixelsEditor from "./TrackingPixelsEditor";
+import RateLimitEditor from "./RateLimitEditor";
+import MacroPreview from "./MacroPreview";
+import ShortCodeEditor from "./ShortCodeEditor";
+import LinkPasswordEditor from "./LinkPasswordEditor";
+import DeepLinkEditor from "./DeepLinkEditor";
+import OgPreviewEditor from "./OgPreviewEditor";
+import QrCodeDialog from "./QrCodeDialog";
+import { buildShortUrl } from "@/lib/short-code";
+import { buildCustomDomainUrl } from "@/lib/custom-domains";
 import { saveLinkAction } from "@/app/actions";
 
+/** Share of simulated clicks made by returning visitors */
+const SIMULATION_RETURNING_RATE = 0.3;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** Convert an ISO timestamp to the local `datetime-local` input format. */
+function toDateTimeLocal(iso: string | null | undefined): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
 interface LinkEditorFormProps {
   initialLink: Link;
   /** Parent project ID — used for scoping and navigation */
   projectId?: string;
+  /** Clicks recorded per rotation rule (rule ID → count), for cap progress */
+  ruleClickCounts?: Record<string, number>;
+  /** Clicks / conversions per destination, for the optimize strategy */
+  destinationStats?: Record<string, DestinationStats>;
+  /** Former short codes of the link (they keep redirecting) */
+  previousShortCodes?: string[];
+  /** Verified custom domain of the project — short links are shown on it */
+  customDomain?: string | null;
 }
 
 /**
@@ -84,13 +142,23 @@ function WeightInput({
   );
 }
 
-export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
+export default function LinkEditorForm({
+  initialLink,
+  ruleClickCounts = {},
+  destinationStats = {},
+  previousShortCodes = [],
+  customDomain = null,
+}: LinkEditorFormProps) {
   const [link, setLink] = useState<Link>(initialLink);
+  // Short codes are saved on their own (ShortCodeEditor), not by auto-save
+  const [shortCode, setShortCode] = useState(initialLink.short_code ?? null);
   const [showSimulation, setShowSimulation] = useState(false);
   const [simulationResults, setSimulationResults] = useState<
     SimulationResult[] | null
   >(null);
+  const [simulationSeed, setSimulationSeed] = useState<number>();
   const [copied, setCopied] = useState(false);
+  const [showQr, setShowQr] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [origin, setOrigin] = useState("");
   const [saveStatus, setSaveStatus] = useState<
@@ -154,6 +222,7 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
       setSaveError("");
       const result = await saveLinkAction(link);
       if (result.success) {
+        if (result.link.short_code) setShortCode(result.link.short_code);
         setSaveStatus("saved");
         setHasUnsavedChanges(false);
         setTimeout(() => setSaveStatus("idle"), 2500);
@@ -182,15 +251,36 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
     [totalSecondaryWeight],
   );
 
+  const stickiness = link.stickiness ?? "none";
+  const stickinessTtlDays = Math.max(
+    1,
+    Math.round(
+      (link.stickiness_ttl_seconds ?? DEFAULT_STICKINESS_TTL_SECONDS) /
+        SECONDS_PER_DAY,
+    ),
+  );
+
   const isOverWeight = totalSecondaryWeight > 100;
   const hasValidMainUrl = link.main_destination_url.trim() !== "";
 
   const trackingUrl = useMemo(
     () =>
-      origin ? `${origin}/api/redirect/${link.id}` : `/api/redirect/${link.id}`,
-    [link.id, origin],
+      shortCode
+        ? customDomain
+          ? buildCustomDomainUrl(customDomain, shortCode)
+          : buildShortUrl(origin, shortCode)
+        : `${origin}/api/redirect/${link.id}`,
+    [link.id, origin, shortCode, customDomain],
   );
 
+  const trackingHost = useMemo(() => {
+    try {
+      return new URL(trackingUrl).host;
+    } catch {
+      return "";
+    }
+  }, [trackingUrl]);
+
   // Handlers
   const updateField = useCallback(
     <K extends keyof Link>(field: K, value: Link[K]) => {
@@ -233,6 +323,18 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
     [],
   );
 
+  const patchRule = useCallback(
+    (ruleId: string, patch: Partial<RotationRule>) => {
+      setLink((prev) => ({
+        ...prev,
+        rotation_rules: prev.rotation_rules.map((r) =>
+          r.id === ruleId ? { ...r, ...patch } : r,
+        ),
+      }));
+    },
+    [],
+  );
+
   const distributeEvenly = useCallback(() => {
     const count = link.rotation_rules.length;
     if (count === 0) return;
@@ -251,8 +353,16 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
   }, [link.rotation_rules.length]);
 
   const runSimulation = useCallback(() => {
-    const results = simulateClicks(link, 1000);
+    // Seeded, so a run can be replayed with simulateClicks(…, { random })
+    const seed = generateSeed();
+    const results = simulateClicks(link, 1000, {
+      returningVisitorRate: SIMULATION_RETURNING_RATE,
+      ruleClickCounts,
+      destinationStats,
+      random: createSeededRandom(seed),
+    });
     setSimulationResults(results);
+    setSimulationSeed(seed);
     setShowSimulation(true);
 
     // Phase 1: console log click events
@@ -266,7 +376,7 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
         hits: r.actual_hits,
       })),
     });
-  }, [link]);
+  }, [link, ruleClickCounts, destinationStats]);
 
   const copyTrackingUrl = useCallback(() => {
     navigator.clipboard.writeText(trackingUrl);
@@ -305,7 +415,37 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
               <Copy className="w-4 h-4" />
             )}
           </motion.button>
+          <motion.button
+            onClick={() => setShowQr(true)}
+            className="shrink-0 p-2.5 rounded-xl border border-gray-200 bg-white hover:bg-gray-50 text-gray-500 hover:text-brand-blue transition-all"
+            title="Descargar código QR"
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            transition={{
+              type: "spring",
+              stiffness: 300,
+              damping: 20,
+              delay: 0,
+            }}
+          >
+            <QrCode className="w-4 h-4" />
+          </motion.button>
         </div>
+        {showQr && (
+          <QrCodeDialog linkId={link.id} onClose={() => setShowQr(false)} />
+        )}
+        {shortCode ? (
+          <ShortCodeEditor
+            linkId={link.id}
+            shortCode={shortCode}
+            previousCodes={previousShortCodes}
+            onChange={setShortCode}
+          />
+        ) : (
+          <p className="mt-2 text-xs text-gray-400">
+            Se asignará un enlace corto (<code>/r/…</code>) al guardar.
+          </p>
+        )}
       </div>
 
       {/* ── Link Metadata Card ── */}
@@ -395,8 +535,10 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
             <p className="mt-1 text-xs text-gray-400">
               Esta URL recibe todo el tráfico cuando la rotación está
               desactivada, o el {remainingForMain}% restante cuando está
-              activada.
+              activada. Admite macros como <code>{"{click_id}"}</code> o{" "}
+              <code>{"{utm_source|organic}"}</code>.
             </p>
+            <MacroPreview link={link} />
           </div>
         </div>
       </div>
@@ -503,80 +645,99 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
               {link.rotation_rules.map((rule, index) => (
                 <div
                   key={rule.id}
-                  className="group flex flex-col sm:flex-row sm:items-start gap-3 p-3 sm:p-4 rounded-xl border border-gray-150 bg-white hover:border-cyan-200 hover:shadow-sm transition-all"
+                  className="group p-3 sm:p-4 rounded-xl border border-gray-150 bg-white hover:border-cyan-200 hover:shadow-sm transition-all"
                 >
-                  {/* Top row: drag handle + index + delete (mobile) */}
-                  <div className="flex items-center gap-2 sm:contents">
-                    {/* Drag handle (visual only in Phase 1) */}
-                    <div className="text-gray-300 cursor-grab hidden sm:block sm:pt-2.5">
-                      <GripVertical className="w-4 h-4" />
-                    </div>
-
-                    {/* Rule index */}
-                    <div className="shrink-0 w-7 h-7 sm:mt-1.5 rounded-full bg-linear-to-r from-cyan-500 to-lime-400 flex items-center justify-center">
-                      <span className="text-xs font-bold text-white">
-                        {index + 1}
-                      </span>
-                    </div>
+                  <div className="flex flex-col sm:flex-row sm:items-start gap-3">
+                    {/* Top row: drag handle + index + delete (mobile) */}
+                    <div className="flex items-center gap-2 sm:contents">
+                      {/* Drag handle (visual only in Phase 1) */}
+                      <div className="text-gray-300 cursor-grab hidden sm:block sm:pt-2.5">
+                        <GripVertical className="w-4 h-4" />
+                      </div>
 
-                    <span className="text-xs font-medium text-gray-500 sm:hidden flex-1">
-                      Destino #{index + 1}
-                    </span>
+                      {/* Rule index */}
+                      <div className="shrink-0 w-7 h-7 sm:mt-1.5 rounded-full bg-linear-to-r from-cyan-500 to-lime-400 flex items-center justify-center">
+                        <span className="text-xs font-bold text-white">
+                          {index + 1}
+                        </span>
+                      </div>
 
-                    {/* Delete — visible on mobile, hover on desktop */}
-                    <motion.button
-                      onClick={() => removeRule(rule.id)}
-                      className="shrink-0 p-2 sm:mt-6 sm:p-1.5 rounded-lg text-gray-400 sm:text-gray-300 hover:text-red-500 hover:bg-red-50 sm:opacity-0 sm:group-hover:opacity-100 transition-all min-h-11 min-w-11 sm:min-h-0 sm:min-w-0 flex items-center justify-center sm:order-last"
-                      title="Eliminar destino"
-                      whileHover={{ scale: 1.2, rotate: -10 }}
-                      whileTap={{ scale: 0.85 }}
-                      transition={{
-                        type: "spring",
-                        stiffness: 300,
-                        damping: 20,
-                        delay: 0,
-                      }}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </motion.button>
-                  </div>
+                      <span className="text-xs font-medium text-gray-500 sm:hidden flex-1">
+                        Destino #{index + 1}
+                      </span>
 
-                  {/* URL + Weight row */}
-                  <div className="flex flex-col sm:flex-row sm:items-start gap-3 flex-1 min-w-0">
-                    {/* URL Input */}
-                    <div className="flex-1 min-w-0">
-                      <label className="text-xs font-medium text-gray-500 mb-1 hidden sm:block">
-                        Destino Secundario #{index + 1}
-                      </label>
-                      <input
-                        type="url"
-                        value={rule.destination_url}
-                        onChange={(e) =>
-                          updateRule(rule.id, "destination_url", e.target.value)
-                        }
-                        placeholder="https://ejemplo.com/variante"
-                        className="w-full px-3 py-2.5 sm:py-2 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-800 placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-cyan/20 focus:border-brand-cyan focus:bg-white transition-all"
-                      />
+                      {/* Delete — visible on mobile, hover on desktop */}
+                      <motion.button
+                        onClick={() => removeRule(rule.id)}
+                        className="shrink-0 p-2 sm:mt-6 sm:p-1.5 rounded-lg text-gray-400 sm:text-gray-300 hover:text-red-500 hover:bg-red-50 sm:opacity-0 sm:group-hover:opacity-100 transition-all min-h-11 min-w-11 sm:min-h-0 sm:min-w-0 flex items-center justify-center sm:order-last"
+                        title="Eliminar destino"
+                        whileHover={{ scale: 1.2, rotate: -10 }}
+                        whileTap={{ scale: 0.85 }}
+                        transition={{
+                          type: "spring",
+                          stiffness: 300,
+                          damping: 20,
+                          delay: 0,
+                        }}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </motion.button>
                     </div>
 
-                    {/* Weight Input */}
-                    <div className="shrink-0 w-full sm:w-24">
-                      <label className="block text-xs font-medium text-gray-500 mb-1">
-                        Peso
-                      </label>
-                      <div className="relative">
-                        <WeightInput
-                          value={rule.weight_percentage}
-                          onChange={(val) =>
-                            updateRule(rule.id, "weight_percentage", val)
+                    {/* URL + Weight row */}
+                    <div className="flex flex-col sm:flex-row sm:items-start gap-3 flex-1 min-w-0">
+                      {/* URL Input */}
+                      <div className="flex-1 min-w-0">
+                        <label className="text-xs font-medium text-gray-500 mb-1 hidden sm:block">
+                          Destino Secundario #{index + 1}
+                        </label>
+                        <input
+                          type="url"
+                          value={rule.destination_url}
+                          onChange={(e) =>
+                            updateRule(
+                              rule.id,
+                              "destination_url",
+                              e.target.value,
+                            )
                           }
+                          placeholder="https://ejemplo.com/variante"
+                          className="w-full px-3 py-2.5 sm:py-2 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-800 placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-cyan/20 focus:border-brand-cyan focus:bg-white transition-all"
                         />
-                        <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
-                          %
-                        </span>
+                      </div>
+
+                      {/* Weight Input */}
+                      <div className="shrink-0 w-full sm:w-24">
+                        <label className="block text-xs font-medium text-gray-500 mb-1">
+                          Peso
+                        </label>
+                        <div className="relative">
+                          <WeightInput
+                            value={rule.weight_percentage}
+                            onChange={(val) =>
+                              updateRule(rule.id, "weight_percentage", val)
+                            }
+                          />
+                          <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                            %
+                          </span>
+                        </div>
                       </div>
                     </div>
                   </div>
+
+                  {/* Per-destination click cap */}
+                  <RuleClickCap
+                    rule={rule}
+                    clicks={ruleClickCounts[rule.id] ?? 0}
+                    onChange={(click_cap) => patchRule(rule.id, { click_cap })}
+                  />
+
+                  {/* Per-rule targeting conditions */}
+                  <RuleTargetingPanel
+                    rule={rule}
+                    onChange={(patch) => patchRule(rule.id, patch)}
+                  />
                 </div>
               ))}
             </div>
@@ -617,6 +778,142 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
                 </motion.button>
               )}
             </div>
+
+            {/* Rotation strategy */}
+            <div className="pt-4 border-t border-gray-100">
+              <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+                <Sparkles className="w-3.5 h-3.5 text-gray-400" />
+                Estrategia de Rotación
+              </label>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <select
+                  value={link.rotation_strategy ?? "fixed"}
+                  onChange={(e) =>
+                    updateField(
+                      "rotation_strategy",
+                      e.target.value as RotationStrategy,
+                    )
+                  }
+                  className="w-full sm:flex-1 px-3 py-2.5 sm:py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                >
+                  <option value="fixed">
+                    Fija — usar los pesos configurados
+                  </option>
+                  <option value="optimize">
+                    Optimizar — priorizar los destinos que más convierten
+                  </option>
+                </select>
+                {link.rotation_strategy === "optimize" && (
+                  <div className="relative w-full sm:w-36">
+                    <input
+                      type="number"
+                      min={0}
+                      max={50}
+                      value={
+                        link.optimize_floor_percentage ??
+                        DEFAULT_OPTIMIZE_FLOOR_PERCENTAGE
+                      }
+                      onChange={(e) =>
+                        updateField(
+                          "optimize_floor_percentage",
+                          Math.min(
+                            50,
+                            Math.max(0, parseInt(e.target.value, 10) || 0),
+                          ),
+                        )
+                      }
+                      title="Tráfico mínimo por destino"
+                      className="w-full px-3 py-2.5 sm:py-2 pr-16 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                    />
+                    <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                      % mín.
+                    </span>
+                  </div>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-gray-400">
+                {link.rotation_strategy === "optimize"
+                  ? "El tráfico se desplaza hacia los destinos con mejor tasa de conversión; cada destino conserva al menos el mínimo indicado."
+                  : "Cada destino recibe exactamente el porcentaje configurado."}
+              </p>
+            </div>
+
+            {/* Sticky rotation */}
+            <div className="pt-4 border-t border-gray-100">
+              <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+                <Pin className="w-3.5 h-3.5 text-gray-400" />
+                Persistencia de Visitantes
+              </label>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <select
+                  value={stickiness}
+                  onChange={(e) =>
+                    updateField("stickiness", e.target.value as StickinessMode)
+                  }
+                  className="w-full sm:flex-1 px-3 py-2.5 sm:py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                >
+                  <option value="none">
+                    Ninguna — cada clic es independiente
+                  </option>
+                  <option value="cookie">Cookie del visitante</option>
+                  <option value="fingerprint">Huella (IP + navegador)</option>
+                </select>
+                {stickiness !== "none" && (
+                  <div className="relative w-full sm:w-36">
+                    <input
+                      type="number"
+                      min={1}
+                      max={365}
+                      value={stickinessTtlDays}
+                      onChange={(e) => {
+                        const days = Math.min(
+                          365,
+                          Math.max(1, parseInt(e.target.value, 10) || 1),
+                        );
+                        updateField(
+                          "stickiness_ttl_seconds",
+                          days * SECONDS_PER_DAY,
+                        );
+                      }}
+                      className="w-full px-3 py-2.5 sm:py-2 pr-12 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                    />
+                    <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                      días
+                    </span>
+                  </div>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-gray-400">
+                {stickiness === "none"
+                  ? "Un visitante que regresa puede llegar a un destino distinto."
+                  : "Los visitantes que regresan mantienen el mismo destino mientras no cambien los pesos."}
+              </p>
+            </div>
+
+            {/* Click cap redistribution */}
+            {hasRuleClickCaps(link) && (
+              <div className="pt-4 border-t border-gray-100">
+                <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+                  <Gauge className="w-3.5 h-3.5 text-gray-400" />
+                  Al alcanzar el límite de clics
+                </label>
+                <select
+                  value={link.cap_redistribution ?? "proportional"}
+                  onChange={(e) =>
+                    updateField(
+                      "cap_redistribution",
+                      e.target.value as CapRedistributionMode,
+                    )
+                  }
+                  className="w-full px-3 py-2.5 sm:py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                >
+                  <option value="proportional">
+                    Repartir proporcionalmente entre los demás destinos
+                  </option>
+                  <option value="main">Enviar al destino principal</option>
+                </select>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -663,6 +960,234 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
               </select>
             </div>
 
+            {/* Expiration */}
+            <div className="space-y-3">
+              <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700">
+                <Clock className="w-3.5 h-3.5 text-gray-400" />
+                Expiración
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1">
+                    Expira el
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={toDateTimeLocal(link.expires_at)}
+                    onChange={(e) =>
+                      updateField(
+                        "expires_at",
+                        e.target.value
+                          ? new Date(e.target.value).toISOString()
+                          : null,
+                      )
+                    }
+                    className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1">
+                    Límite de clics
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={link.max_clicks ?? ""}
+                    onChange={(e) => {
+                      const parsed = parseInt(e.target.value, 10);
+                      updateField(
+                        "max_clicks",
+                        Number.isNaN(parsed) || parsed <= 0 ? null : parsed,
+                      );
+                    }}
+                    placeholder="Sin límite"
+                    className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">
+                  URL tras la expiración
+                </label>
+                <input
+                  type="url"
+                  value={link.expired_redirect_url ?? ""}
+                  onChange={(e) =>
+                    updateField("expired_redirect_url", e.target.value || null)
+                  }
+                  placeholder="https://ejemplo.com/oferta-finalizada"
+                  className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                />
+                <p className="mt-1 text-xs text-gray-400">
+                  Al alcanzar la fecha o el límite, el enlace pasa a
+                  &quot;Expirado&quot;. Sin esta URL, los visitantes reciben un
+                  error 410.
+                </p>
+              </div>
+            </div>
+
+            {/* Redirect method */}
+            <div>
+              <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+                <CornerUpRight className="w-3.5 h-3.5 text-gray-400" />
+                Método de redirección
+              </label>
+              <select
+                value={link.redirect_type ?? DEFAULT_REDIRECT_TYPE}
+                onChange={(e) =>
+                  updateField("redirect_type", e.target.value as RedirectType)
+                }
+                className="w-full px-3 py-2.5 sm:py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+              >
+                <option value="307">307 — Temporal (recomendado)</option>
+                <option value="302">302 — Temporal (compatibilidad)</option>
+                <option value="301">301 — Permanente (en caché 1 día)</option>
+                <option value="meta_refresh">Meta refresh (página HTML)</option>
+                <option value="javascript">JavaScript (página HTML)</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-400">
+                {link.redirect_type === "301"
+                  ? "El navegador guarda la redirección: las visitas repetidas no pasan por RouteGenius, así que no rotan ni se registran."
+                  : link.redirect_type && isHtmlRedirect(link.redirect_type)
+                    ? "Los visitantes pasan por una página intermedia que redirige en el navegador; el destino solo recibe el dominio como referente."
+                    : "Redirección HTTP sin caché: cada clic se rota y se registra."}
+              </p>
+            </div>
+
+            {/* Click ID passthrough */}
+            <div>
+              <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+                <Hash className="w-3.5 h-3.5 text-gray-400" />
+                ID de Clic
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+                <input
+                  type="checkbox"
+                  checked={typeof link.click_id_param === "string"}
+                  onChange={(e) =>
+                    updateField(
+                      "click_id_param",
+                      e.target.checked ? DEFAULT_CLICK_ID_PARAM : null,
+                    )
+                  }
+                  className="rounded border-gray-300 text-brand-blue focus:ring-brand-blue/20"
+                />
+                Añadir el ID de clic al destino
+              </label>
+              {typeof link.click_id_param === "string" && (
+                <input
+                  type="text"
+                  value={link.click_id_param}
+                  onChange={(e) =>
+                    updateField("click_id_param", e.target.value)
+                  }
+                  placeholder={DEFAULT_CLICK_ID_PARAM}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 font-mono placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                />
+              )}
+              <p className="mt-1 text-xs text-gray-400">
+                Cada clic recibe un ID único. Actívelo para enviarlo al destino
+                (p. ej. <code>subid</code>) y conciliarlo con los reportes de
+                sus socios o con el postback de conversiones.
+              </p>
+            </div>
+
+            {/* Access: password / interstitial */}
+            <div>
+              <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+                <Lock className="w-3.5 h-3.5 text-gray-400" />
+                Acceso
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+                <input
+                  type="checkbox"
+                  checked={!!link.interstitial}
+                  onChange={(e) =>
+                    updateField("interstitial", e.target.checked)
+                  }
+                  className="rounded border-gray-300 text-brand-blue focus:ring-brand-blue/20"
+                />
+                Mostrar página intermedia (clic para continuar)
+              </label>
+              {shortCode ? (
+                <LinkPasswordEditor
+                  linkId={link.id}
+                  protected={!!link.password_protected}
+                  onChange={(isProtected) =>
+                    updateField("password_protected", isProtected)
+                  }
+                />
+              ) : (
+                <p className="text-xs text-gray-400">
+                  Guarde el enlace para establecer una contraseña.
+                </p>
+              )}
+              <p className="mt-1 text-xs text-gray-400">
+                Los visitantes pasan primero por una página que muestra el
+                dominio de destino y, si hay contraseña, la solicita. La
+                rotación y el registro del clic ocurren solo después.
+              </p>
+            </div>
+
+            {/* Link preview (Open Graph) */}
+            <OgPreviewEditor
+              linkId={link.id}
+              value={link}
+              fallbackTitle={link.title}
+              host={trackingHost}
+              canUpload={!!shortCode}
+              onChange={updateField}
+            />
+
+            {/* Mobile app deep link */}
+            <DeepLinkEditor
+              value={link.deep_link}
+              onChange={(config) => updateField("deep_link", config)}
+            />
+
+            {/* Bot destination */}
+            <div>
+              <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+                <Bot className="w-3.5 h-3.5 text-gray-400" />
+                Destino para bots
+              </label>
+              <input
+                type="url"
+                value={link.bot_destination_url ?? ""}
+                onChange={(e) =>
+                  updateField("bot_destination_url", e.target.value || null)
+                }
+                placeholder={link.main_destination_url || "URL principal"}
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+              />
+              <p className="mt-1 text-xs text-gray-400">
+                Bots y rastreadores no entran en la rotación: se envían aquí
+                (por defecto, a la URL principal) y sus clics se marcan como bot
+                en las analíticas.
+              </p>
+            </div>
+
+            {/* Query parameter passthrough */}
+            <ParamPassthroughEditor
+              value={link.param_passthrough}
+              onChange={(policy) => updateField("param_passthrough", policy)}
+              inheritLabel="Heredar del proyecto"
+            />
+
+            {/* Retargeting pixels */}
+            <TrackingPixelsEditor
+              value={link.tracking_pixels}
+              onChange={(pixels) => updateField("tracking_pixels", pixels)}
+              inheritLabel="Heredar del proyecto"
+            />
+
+            {/* Redirect rate limit */}
+            <RateLimitEditor
+              value={link.rate_limit}
+              onChange={(policy) => updateField("rate_limit", policy)}
+              inheritLabel="Heredar del proyecto"
+            />
+
             {/* Link ID (read only) */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1.5">
@@ -712,6 +1237,9 @@ export default function LinkEditorForm({ initialLink }: LinkEditorFormProps) {
           <SimulationResults
             results={simulationResults}
             iterations={1000}
+            sticky={stickiness !== "none"}
+            returningVisitorRate={SIMULATION_RETURNING_RATE}
+            seed={simulationSeed}
             onClose={() => setShowSimulation(false)}
           />
         )}
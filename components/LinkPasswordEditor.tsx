@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound, Check, X, Loader2, Trash2 } from "lucide-react";
+import { updateLinkPasswordAction } from "@/app/actions";
+
+interface LinkPasswordEditorProps {
+  linkId: string;
+  /** Whether the link currently has a password */
+  protected: boolean;
+  onChange: (isProtected: boolean) => void;
+}
+
+/**
+ * Sets, changes or removes a link's password. Saved immediately,
+ * separate from the link auto-save — the hash never reaches the browser.
+ */
+export default function LinkPasswordEditor({
+  linkId,
+  protected: isProtected,
+  onChange,
+}: LinkPasswordEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const save = async (password: string | null) => {
+    if (
+      password === null &&
+      !confirm("¿Quitar la contraseña? El enlace volverá a ser público.")
+    ) {
+      return;
+    }
+    setSaving(true);
+    setError("");
+    const result = await updateLinkPasswordAction(linkId, password);
+    setSaving(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    onChange(result.data);
+    setDraft("");
+    setEditing(false);
+  };
+
+  return (
+    <div>
+      {editing ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="password"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") save(draft);
+              if (e.key === "Escape") setEditing(false);
+            }}
+            placeholder="Nueva contraseña"
+            autoComplete="new-password"
+            autoFocus
+            className="flex-1 min-w-40 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+          />
+          <button
+            type="button"
+            onClick={() => save(draft)}
+            disabled={saving || !draft}
+            className="p-2 rounded-lg text-green-600 hover:bg-green-50 transition-colors cursor-pointer disabled:opacity-40"
+            title="Guardar contraseña"
+          >
+            {saving ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Check className="w-4 h-4" />
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setEditing(false);
+              setDraft("");
+              setError("");
+            }}
+            className="p-2 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-50 transition-colors cursor-pointer"
+            title="Cancelar"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <span
+            className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+              isProtected
+                ? "bg-lime-50 text-lime-700"
+                : "bg-gray-100 text-gray-500"
+            }`}
+          >
+            {isProtected ? "Protegido con contraseña" : "Sin contraseña"}
+          </span>
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className="inline-flex items-center gap-1.5 text-xs text-gray-500 hover:text-brand-blue transition-colors cursor-pointer"
+          >
+            <KeyRound className="w-3 h-3" />
+            {isProtected ? "Cambiar contraseña" : "Establecer contraseña"}
+          </button>
+          {isProtected && (
+            <button
+              type="button"
+              onClick={() => save(null)}
+              disabled={saving}
+              className="inline-flex items-center gap-1.5 text-xs text-gray-500 hover:text-red-500 transition-colors cursor-pointer disabled:opacity-40"
+            >
+              <Trash2 className="w-3 h-3" />
+              Quitar
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowRight, Globe, Loader2, Lock } from "lucide-react";
+import { unlockLinkAction } from "@/app/unlock/actions";
+
+interface LinkUnlockFormProps {
+  linkId: string;
+  /** Redirect path to continue to once unlocked */
+  returnTo: string;
+  requiresPassword: boolean;
+  /** Destination domains to show (interstitial links) */
+  hostnames: string[];
+}
+
+/**
+ * Password prompt / click-to-continue for a protected link. On success
+ * the unlock cookie is set and the browser follows the redirect.
+ */
+export default function LinkUnlockForm({
+  linkId,
+  returnTo,
+  requiresPassword,
+  hostnames,
+}: LinkUnlockFormProps) {
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+    const result = await unlockLinkAction(
+      linkId,
+      requiresPassword ? password : null,
+      returnTo,
+    );
+    if (result.success) {
+      window.location.assign(result.data);
+      return;
+    }
+    setError(result.error);
+    setLoading(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      {hostnames.length > 0 && (
+        <div className="rounded-xl bg-gray-50 border border-gray-100 p-4">
+          <p className="text-xs font-medium text-gray-500 mb-2">
+            {hostnames.length === 1 ? "Destino" : "Posibles destinos"}
+          </p>
+          <ul className="space-y-1">
+            {hostnames.map((hostname) => (
+              <li
+                key={hostname}
+                className="flex items-center gap-2 text-sm font-medium text-gray-800 break-all"
+              >
+                <Globe className="w-4 h-4 text-brand-blue shrink-0" />
+                {hostname}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {requiresPassword && (
+        <label className="block">
+          <span className="flex items-center gap-1.5 text-xs font-medium text-gray-500 mb-1">
+            <Lock className="w-3.5 h-3.5" />
+            Contraseña
+          </span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            autoFocus
+            required
+            className="w-full px-3 py-2.5 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+          />
+        </label>
+      )}
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={loading || (requiresPassword && !password)}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-brand-blue text-white font-semibold text-sm hover:bg-blue-700 transition-colors shadow-md hover:shadow-lg cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        {loading ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <ArrowRight className="w-4 h-4" />
+        )}
+        Continuar
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { Braces } from "lucide-react";
+import {
+  BUILTIN_MACROS,
+  buildMacroValues,
+  expandMacros,
+  hasMacros,
+  listMacros,
+} from "@/lib/macros";
+import type { Link } from "@/lib/types";
+
+interface MacroPreviewProps {
+  link: Pick<Link, "id" | "main_destination_url" | "rotation_rules">;
+}
+
+/** Click values of the sample request the preview expands against. */
+const SAMPLE_CLICK = {
+  click_id: "Xk3Lm9Qp2Rt7Vw4Yz8Ab",
+  country: "ES",
+  device: "mobile",
+  os: "ios",
+  browser: "safari",
+  timestamp: "1767225600",
+};
+
+const DEFAULT_SAMPLE_QUERY = "utm_source=facebook&utm_medium=cpc";
+
+/**
+ * Expanded destination URLs for a sample request. Only rendered when at
+ * least one destination uses macros.
+ */
+export default function MacroPreview({ link }: MacroPreviewProps) {
+  const [sampleQuery, setSampleQuery] = useState(DEFAULT_SAMPLE_QUERY);
+
+  const destinations = [
+    { label: "Principal", url: link.main_destination_url },
+    ...link.rotation_rules.map((rule, index) => ({
+      label: `#${index + 1}`,
+      url: rule.destination_url,
+    })),
+  ].filter((d) => hasMacros(d.url));
+
+  if (destinations.length === 0) return null;
+
+  const searchParams = new URLSearchParams(sampleQuery.replace(/^\?/, ""));
+  const values = buildMacroValues(
+    { ...SAMPLE_CLICK, link_id: link.id },
+    searchParams,
+  );
+  const unresolved = [
+    ...new Set(destinations.flatMap((d) => listMacros(d.url))),
+  ].filter((name) => !values[name]);
+
+  return (
+    <div className="mt-3 p-3 rounded-xl border border-cyan-100 bg-cyan-50/40">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-gray-600 mb-2">
+        <Braces className="w-3.5 h-3.5 text-brand-cyan" />
+        Vista previa de macros
+      </div>
+
+      <label className="block text-xs text-gray-500 mb-1">
+        Parámetros de la solicitud de ejemplo
+      </label>
+      <input
+        type="text"
+        value={sampleQuery}
+        onChange={(e) => setSampleQuery(e.target.value)}
+        placeholder={DEFAULT_SAMPLE_QUERY}
+        className="w-full mb-2 px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-xs text-gray-700 font-mono placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-cyan/20 focus:border-brand-cyan"
+      />
+
+      <div className="space-y-1.5">
+        {destinations.map((d) => (
+          <div key={d.label} className="flex items-start gap-2 text-xs">
+            <span className="shrink-0 w-16 text-gray-400">{d.label}</span>
+            <code className="flex-1 min-w-0 break-all text-gray-700">
+              {expandMacros(d.url, values)}
+            </code>
+          </div>
+        ))}
+      </div>
+
+      {unresolved.length > 0 && (
+        <p className="mt-2 text-xs text-amber-600">
+          Sin valor en el ejemplo:{" "}
+          {unresolved.map((name) => `{${name}}`).join(", ")}. Use{" "}
+          <code>{"{nombre|valor}"}</code> para definir un valor por defecto.
+        </p>
+      )}
+
+      <p className="mt-2 text-xs text-gray-400">
+        Disponibles:{" "}
+        {Object.entries(BUILTIN_MACROS).map(([name, description], i) => (
+          <span key={name} title={description}>
+            {i > 0 && ", "}
+            <code>{`{${name}}`}</code>
+          </span>
+        ))}{" "}
+        y cualquier parámetro de la URL de entrada (p. ej.{" "}
+        <code>{"{utm_source|organic}"}</code>). Los valores se codifican para
+        URL.
+      </p>
+    </div>
+  );
+}
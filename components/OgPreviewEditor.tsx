@@ -0,0 +1,178 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { Share2, ImagePlus, Loader2, Trash2 } from "lucide-react";
+import {
+  MAX_OG_DESCRIPTION_LENGTH,
+  MAX_OG_TITLE_LENGTH,
+  OG_IMAGE_MIME_TYPES,
+  type OgPreviewFields,
+} from "@/lib/og-preview";
+
+interface OgPreviewEditorProps {
+  linkId: string;
+  value: OgPreviewFields;
+  /** Shown in the card when no preview title is set */
+  fallbackTitle: string;
+  /** Host shown in the card (the shared short link's) */
+  host: string;
+  /** Images can only be uploaded once the link has been saved */
+  canUpload: boolean;
+  onChange: <K extends keyof OgPreviewFields>(
+    field: K,
+    value: OgPreviewFields[K],
+  ) => void;
+}
+
+/**
+ * Open Graph metadata for the preview card shown when the link is shared
+ * (WhatsApp, Facebook, LinkedIn…), with a live preview of that card.
+ */
+export default function OgPreviewEditor({
+  linkId,
+  value,
+  fallbackTitle,
+  host,
+  canUpload,
+  onChange,
+}: OgPreviewEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState("");
+
+  const title = value.og_title || fallbackTitle;
+
+  const handleFile = async (file: File) => {
+    setUploading(true);
+    setError("");
+    try {
+      const formData = new FormData();
+      formData.append("image", file);
+      const res = await fetch(`/api/links/${linkId}/og-image`, {
+        method: "POST",
+        body: formData,
+      });
+      const result = await res.json();
+      if (!result.success) {
+        setError(result.error || "No se pudo subir la imagen.");
+        return;
+      }
+      onChange("og_image_url", result.url);
+    } catch {
+      setError("No se pudo subir la imagen.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+        <Share2 className="w-3.5 h-3.5 text-gray-400" />
+        Vista previa al compartir
+      </label>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={value.og_title ?? ""}
+            onChange={(e) => onChange("og_title", e.target.value || null)}
+            maxLength={MAX_OG_TITLE_LENGTH}
+            placeholder={fallbackTitle || "Título"}
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+          />
+          <textarea
+            value={value.og_description ?? ""}
+            onChange={(e) => onChange("og_description", e.target.value || null)}
+            maxLength={MAX_OG_DESCRIPTION_LENGTH}
+            rows={3}
+            placeholder="Descripción"
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue resize-none"
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={OG_IMAGE_MIME_TYPES.join(",")}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = "";
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canUpload || uploading}
+              className="inline-flex items-center gap-1.5 text-xs text-gray-500 hover:text-brand-blue transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {uploading ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <ImagePlus className="w-3 h-3" />
+              )}
+              {value.og_image_url ? "Cambiar imagen" : "Subir imagen"}
+            </button>
+            {value.og_image_url && (
+              <button
+                type="button"
+                onClick={() => onChange("og_image_url", null)}
+                className="inline-flex items-center gap-1.5 text-xs text-gray-500 hover:text-red-500 transition-colors cursor-pointer"
+              >
+                <Trash2 className="w-3 h-3" />
+                Quitar imagen
+              </button>
+            )}
+          </div>
+          {!canUpload && (
+            <p className="text-xs text-gray-400">
+              Guarde el enlace para subir una imagen.
+            </p>
+          )}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        {/* Live preview card */}
+        <div className="rounded-xl border border-gray-200 bg-gray-50 overflow-hidden self-start">
+          {value.og_image_url ? (
+            <div className="relative aspect-[1.91/1] bg-gray-100">
+              <Image
+                src={value.og_image_url}
+                alt=""
+                fill
+                unoptimized
+                className="object-cover"
+              />
+            </div>
+          ) : (
+            <div className="flex aspect-[1.91/1] items-center justify-center bg-gray-100 text-gray-300">
+              <ImagePlus className="w-8 h-8" />
+            </div>
+          )}
+          <div className="px-3 py-2.5">
+            <p className="text-[11px] uppercase tracking-wide text-gray-400 truncate">
+              {host}
+            </p>
+            <p className="text-sm font-semibold text-gray-800 line-clamp-2">
+              {title || "Sin título"}
+            </p>
+            {value.og_description && (
+              <p className="mt-0.5 text-xs text-gray-500 line-clamp-2">
+                {value.og_description}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <p className="mt-1 text-xs text-gray-400">
+        Los rastreadores de vista previa (WhatsApp, Facebook, LinkedIn…) reciben
+        este título, descripción e imagen en lugar de los del destino. Sin
+        datos, siguen la redirección como cualquier bot.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { ArrowRightLeft } from "lucide-react";
+import type { ParamPassthroughMode, ParamPassthroughPolicy } from "@/lib/types";
+
+interface ParamPassthroughEditorProps {
+  value: ParamPassthroughPolicy | null | undefined;
+  onChange: (policy: ParamPassthroughPolicy | null) => void;
+  /** Label of the "no policy" option (inherit from project / default) */
+  inheritLabel: string;
+}
+
+const MODE_LABELS: Record<ParamPassthroughMode, string> = {
+  utm: "Solo parámetros UTM",
+  all: "Todos los parámetros",
+  allowlist: "UTM + lista permitida",
+  blocklist: "Todos excepto lista bloqueada",
+};
+
+/**
+ * Query parameter passthrough policy: mode, allow/block list and
+ * whether forwarded params override those already on the destination.
+ */
+export default function ParamPassthroughEditor({
+  value,
+  onChange,
+  inheritLabel,
+}: ParamPassthroughEditorProps) {
+  const policy = value ?? null;
+  const hasList = policy?.mode === "allowlist" || policy?.mode === "blocklist";
+
+  return (
+    <div>
+      <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+        <ArrowRightLeft className="w-3.5 h-3.5 text-gray-400" />
+        Paso de Parámetros
+      </label>
+      <select
+        value={policy?.mode ?? ""}
+        onChange={(e) => {
+          const mode = e.target.value as ParamPassthroughMode | "";
+          onChange(
+            mode
+              ? {
+                  mode,
+                  params: policy?.params ?? [],
+                  override_existing: policy?.override_existing ?? false,
+                }
+              : null,
+          );
+        }}
+        className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+      >
+        <option value="">{inheritLabel}</option>
+        {(Object.keys(MODE_LABELS) as ParamPassthroughMode[]).map((mode) => (
+          <option key={mode} value={mode}>
+            {MODE_LABELS[mode]}
+          </option>
+        ))}
+      </select>
+
+      {policy && hasList && (
+        <input
+          type="text"
+          value={policy.params.join(",")}
+          onChange={(e) =>
+            onChange({ ...policy, params: e.target.value.split(",") })
+          }
+          placeholder={
+            policy.mode === "allowlist"
+              ? "gclid, fbclid, ttclid, sub1, sub2"
+              : "debug, token"
+          }
+          className="mt-2 w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 font-mono placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+        />
+      )}
+
+      {policy && (
+        <label className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={policy.override_existing}
+            onChange={(e) =>
+              onChange({ ...policy, override_existing: e.target.checked })
+            }
+            className="rounded border-gray-300 text-brand-blue focus:ring-brand-blue/20"
+          />
+          Reemplazar parámetros que ya tiene el destino
+        </label>
+      )}
+
+      <p className="mt-1 text-xs text-gray-400">
+        Qué parámetros de la URL de entrada (p. ej. <code>gclid</code>,{" "}
+        <code>fbclid</code>, <code>sub1</code>) se reenvían al destino. Los
+        valores reenviados se guardan con cada clic. Por defecto, un parámetro
+        que ya existe en el destino no se reemplaza.
+      </p>
+    </div>
+  );
+}
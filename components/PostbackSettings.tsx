@@ -0,0 +1,184 @@
+"use client";
+
+/**
+ * RouteGenius — Conversion Postback Settings
+ *
+ * Shows the workspace postback secret and a ready-to-use postback URL
+ * template for advertisers and networks. The secret can be regenerated.
+ *
+ * UI language: Spanish (Español).
+ */
+
+import { useState, useEffect, useCallback, startTransition } from "react";
+import {
+  Webhook,
+  Copy,
+  Check,
+  Eye,
+  EyeOff,
+  RefreshCw,
+  Loader2,
+  AlertCircle,
+} from "lucide-react";
+import {
+  getPostbackSecretAction,
+  rotatePostbackSecretAction,
+} from "@/app/dashboard/settings/postback-actions";
+
+/** Postback URL template with network macros for click ID and payout. */
+function buildPostbackUrl(origin: string, secret: string): string {
+  return `${origin}/api/postback?click_id={click_id}&event=sale&payout={payout}&secret=${secret}`;
+}
+
+export default function PostbackSettings() {
+  const [secret, setSecret] = useState<string | null>(null);
+  const [origin, setOrigin] = useState("");
+  const [revealed, setRevealed] = useState(false);
+  const [copied, setCopied] = useState<"secret" | "url" | null>(null);
+  const [isRotating, setIsRotating] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    startTransition(() => {
+      setOrigin(window.location.origin);
+    });
+    getPostbackSecretAction().then((result) => {
+      if (result.success) setSecret(result.data);
+      else setError(result.error);
+    });
+  }, []);
+
+  const postbackUrl = buildPostbackUrl(
+    origin,
+    revealed && secret ? secret : "••••••••",
+  );
+
+  const copy = useCallback(
+    (kind: "secret" | "url") => {
+      if (!secret) return;
+      navigator.clipboard.writeText(
+        kind === "secret" ? secret : buildPostbackUrl(origin, secret),
+      );
+      setCopied(kind);
+      setTimeout(() => setCopied(null), 2000);
+    },
+    [secret, origin],
+  );
+
+  const handleRotate = useCallback(async () => {
+    if (
+      !confirm(
+        "¿Regenerar el secreto? Las URLs de postback configuradas con el secreto actual dejarán de funcionar.",
+      )
+    ) {
+      return;
+    }
+    setIsRotating(true);
+    setError("");
+    const result = await rotatePostbackSecretAction();
+    if (result.success) setSecret(result.data);
+    else setError(result.error);
+    setIsRotating(false);
+  }, []);
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200/80 shadow-sm p-6 sm:p-8 mb-6">
+      <h3 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+        <Webhook className="w-4.5 h-4.5 text-brand-cyan" />
+        Postback de Conversiones
+      </h3>
+      <p className="text-sm text-gray-500 mb-5">
+        Sus anunciantes pueden notificar conversiones servidor a servidor con el
+        identificador del clic. Proteja este secreto: cualquiera que lo tenga
+        puede registrar conversiones.
+      </p>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-2 px-4 py-3 rounded-lg bg-red-50 border border-red-100 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Secret */}
+      <label className="block text-xs font-medium text-gray-500 mb-1">
+        Secreto del espacio de trabajo
+      </label>
+      <div className="flex items-center gap-2 mb-4">
+        <code className="flex-1 min-w-0 truncate px-3 py-2 rounded-lg bg-gray-50 border border-gray-100 text-xs text-gray-700">
+          {secret === null ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />
+          ) : revealed ? (
+            secret
+          ) : (
+            "•".repeat(24)
+          )}
+        </code>
+        <button
+          onClick={() => setRevealed(!revealed)}
+          disabled={!secret}
+          className="p-2 rounded-lg text-gray-400 hover:text-brand-blue hover:bg-blue-50 transition-colors cursor-pointer disabled:opacity-40"
+          title={revealed ? "Ocultar" : "Mostrar"}
+        >
+          {revealed ? (
+            <EyeOff className="w-4 h-4" />
+          ) : (
+            <Eye className="w-4 h-4" />
+          )}
+        </button>
+        <button
+          onClick={() => copy("secret")}
+          disabled={!secret}
+          className="p-2 rounded-lg text-gray-400 hover:text-brand-blue hover:bg-blue-50 transition-colors cursor-pointer disabled:opacity-40"
+          title="Copiar secreto"
+        >
+          {copied === "secret" ? (
+            <Check className="w-4 h-4 text-green-500" />
+          ) : (
+            <Copy className="w-4 h-4" />
+          )}
+        </button>
+      </div>
+
+      {/* URL template */}
+      <label className="block text-xs font-medium text-gray-500 mb-1">
+        URL de postback (GET o POST)
+      </label>
+      <div className="flex items-start gap-2 mb-2">
+        <code className="flex-1 min-w-0 break-all px-3 py-2 rounded-lg bg-gray-50 border border-gray-100 text-xs text-gray-700">
+          {postbackUrl}
+        </code>
+        <button
+          onClick={() => copy("url")}
+          disabled={!secret}
+          className="p-2 rounded-lg text-gray-400 hover:text-brand-blue hover:bg-blue-50 transition-colors cursor-pointer disabled:opacity-40"
+          title="Copiar URL"
+        >
+          {copied === "url" ? (
+            <Check className="w-4 h-4 text-green-500" />
+          ) : (
+            <Copy className="w-4 h-4" />
+          )}
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mb-5">
+        Reemplace <code>{"{click_id}"}</code> y <code>{"{payout}"}</code> con
+        las macros de su red. El secreto también puede enviarse en la cabecera{" "}
+        <code>X-RouteGenius-Secret</code>.
+      </p>
+
+      <button
+        onClick={handleRotate}
+        disabled={!secret || isRotating}
+        className="inline-flex items-center justify-center gap-2 px-5 py-2.5 rounded-lg text-sm font-medium border border-gray-200 text-gray-700 hover:bg-gray-50 hover:border-gray-300 transition-colors cursor-pointer min-h-11 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isRotating ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <RefreshCw className="w-4 h-4" />
+        )}
+        Regenerar Secreto
+      </button>
+    </div>
+  );
+}
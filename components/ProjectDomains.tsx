@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Globe,
+  Plus,
+  Trash2,
+  RefreshCw,
+  BadgeCheck,
+  Clock,
+  Loader2,
+} from "lucide-react";
+import {
+  getProjectDomainsAction,
+  addProjectDomainAction,
+  verifyProjectDomainAction,
+  removeProjectDomainAction,
+} from "@/app/dashboard/projects/domain-actions";
+import {
+  verificationRecordName,
+  verificationRecordValue,
+} from "@/lib/custom-domains";
+import type { ProjectDomain } from "@/lib/types";
+
+interface ProjectDomainsProps {
+  projectId: string;
+}
+
+/**
+ * Custom domains of a project: add a hostname, publish the TXT record
+ * shown, then verify. Changes apply immediately (not part of the project
+ * form).
+ */
+export default function ProjectDomains({ projectId }: ProjectDomainsProps) {
+  const [domains, setDomains] = useState<ProjectDomain[]>([]);
+  const [hostname, setHostname] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getProjectDomainsAction(projectId).then((result) => {
+      if (result.success) setDomains(result.data);
+      else setError(result.error);
+    });
+  }, [projectId]);
+
+  const add = async () => {
+    if (!hostname.trim()) return;
+    setBusy("add");
+    setError("");
+    const result = await addProjectDomainAction(projectId, hostname);
+    setBusy(null);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setDomains((prev) => [...prev, result.data]);
+    setHostname("");
+  };
+
+  const verify = async (host: string) => {
+    setBusy(host);
+    setError("");
+    const result = await verifyProjectDomainAction(projectId, host);
+    setBusy(null);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setDomains((prev) =>
+      prev.map((d) => (d.hostname === host ? result.data : d)),
+    );
+  };
+
+  const remove = async (host: string) => {
+    if (
+      !confirm(
+        `¿Eliminar el dominio ${host}? Sus enlaces dejarán de funcionar.`,
+      )
+    ) {
+      return;
+    }
+    setBusy(host);
+    setError("");
+    const result = await removeProjectDomainAction(projectId, host);
+    setBusy(null);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setDomains((prev) => prev.filter((d) => d.hostname !== host));
+  };
+
+  return (
+    <div className="card-bg rounded-2xl border border-gray-200/80 shadow-sm overflow-hidden mt-6">
+      <div className="px-4 sm:px-6 py-4 border-b border-gray-100">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Globe className="w-5 h-5 text-brand-blue" />
+          Dominios Personalizados
+        </h2>
+        <p className="mt-1 text-xs text-gray-500">
+          Sirva los enlaces cortos de este proyecto desde su propio dominio (p.
+          ej. <code>go.midominio.com/codigo</code>). Apunte el dominio con un
+          registro CNAME a esta aplicación y verifíquelo con el registro TXT
+          indicado.
+        </p>
+      </div>
+
+      <div className="p-4 sm:p-6 space-y-4">
+        {error && (
+          <div className="px-4 py-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        {domains.map((domain) => (
+          <div
+            key={domain.hostname}
+            className="p-3 rounded-xl border border-gray-200 bg-white"
+          >
+            <div className="flex items-center gap-2">
+              <span className="flex-1 min-w-0 truncate text-sm font-mono text-gray-800">
+                {domain.hostname}
+              </span>
+              {domain.verified_at ? (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-50 text-xs text-green-700 border border-green-100">
+                  <BadgeCheck className="w-3 h-3" />
+                  Verificado
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-50 text-xs text-amber-700 border border-amber-100">
+                  <Clock className="w-3 h-3" />
+                  Pendiente
+                </span>
+              )}
+              {!domain.verified_at && (
+                <button
+                  type="button"
+                  onClick={() => verify(domain.hostname)}
+                  disabled={busy !== null}
+                  className="p-2 rounded-lg text-gray-400 hover:text-brand-blue hover:bg-blue-50 transition-colors cursor-pointer disabled:opacity-40"
+                  title="Verificar"
+                >
+                  {busy === domain.hostname ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="w-4 h-4" />
+                  )}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => remove(domain.hostname)}
+                disabled={busy !== null}
+                className="p-2 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors cursor-pointer disabled:opacity-40"
+                title="Eliminar dominio"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {!domain.verified_at && (
+              <div className="mt-2 space-y-1 text-xs text-gray-500">
+                <p>Añada este registro TXT en su proveedor de DNS:</p>
+                <p>
+                  Nombre:{" "}
+                  <code className="break-all text-gray-700">
+                    {verificationRecordName(domain.hostname)}
+                  </code>
+                </p>
+                <p>
+                  Valor:{" "}
+                  <code className="break-all text-gray-700">
+                    {verificationRecordValue(domain.verification_token)}
+                  </code>
+                </p>
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={hostname}
+            onChange={(e) => setHostname(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") add();
+            }}
+            placeholder="go.midominio.com"
+            className="flex-1 px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+          />
+          <button
+            type="button"
+            onClick={add}
+            disabled={busy !== null || !hostname.trim()}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+          >
+            {busy === "add" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4" />
+            )}
+            Añadir
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
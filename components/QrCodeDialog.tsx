@@ -0,0 +1,280 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { X, Download, Loader2, ImagePlus, QrCode } from "lucide-react";
+import {
+  generateQrCodeAction,
+  type QrCodeDownload,
+} from "@/app/dashboard/projects/qr-actions";
+import {
+  DEFAULT_QR_OPTIONS,
+  QR_MAX_LOGO_LENGTH,
+  QR_MAX_MARGIN,
+  QR_MAX_SIZE,
+  QR_MIN_SIZE,
+  type QrErrorCorrection,
+  type QrOptions,
+} from "@/lib/qr-code";
+
+interface QrCodeDialogProps {
+  linkId: string;
+  onClose: () => void;
+}
+
+const ERROR_CORRECTION_LABELS: Record<QrErrorCorrection, string> = {
+  L: "L — 7%",
+  M: "M — 15%",
+  Q: "Q — 25%",
+  H: "H — 30%",
+};
+
+/**
+ * QR code designer for a link: options, live preview and download. Scans
+ * of the downloaded code are counted separately in analytics (`src=qr`).
+ */
+export default function QrCodeDialog({ linkId, onClose }: QrCodeDialogProps) {
+  const [options, setOptions] = useState<QrOptions>(DEFAULT_QR_OPTIONS);
+  const [qr, setQr] = useState<QrCodeDownload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  // Re-render the preview shortly after the options settle
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      const result = await generateQrCodeAction(linkId, options);
+      if (cancelled) return;
+      setLoading(false);
+      if (result.success) {
+        setQr(result.data);
+        setError("");
+      } else {
+        setError(result.error);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [linkId, options]);
+
+  const update = <K extends keyof QrOptions>(key: K, value: QrOptions[K]) =>
+    setOptions((prev) => ({ ...prev, [key]: value }));
+
+  const handleLogo = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      if (dataUrl.length > QR_MAX_LOGO_LENGTH) {
+        setError("El logo es demasiado grande (máx. 190 KB).");
+        return;
+      }
+      update("logo", dataUrl);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const inputClass =
+    "w-full px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-100">
+          <h3 className="text-base font-semibold text-gray-800 flex items-center gap-2">
+            <QrCode className="w-5 h-5 text-brand-blue" />
+            Código QR
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors cursor-pointer"
+            aria-label="Cerrar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-5 p-5">
+          {/* Preview */}
+          <div className="flex flex-col items-center gap-2">
+            <div className="relative w-full aspect-square rounded-xl border border-gray-200 bg-gray-50 flex items-center justify-center overflow-hidden">
+              {qr && (
+                <Image
+                  src={qr.data_url}
+                  alt="Vista previa del código QR"
+                  width={320}
+                  height={320}
+                  unoptimized
+                  className="w-full h-full object-contain"
+                />
+              )}
+              {loading && (
+                <Loader2 className="absolute w-6 h-6 text-gray-400 animate-spin" />
+              )}
+            </div>
+            {qr && (
+              <p className="w-full text-xs text-gray-400 font-mono break-all">
+                {qr.url}
+              </p>
+            )}
+          </div>
+
+          {/* Options */}
+          <div className="space-y-3 text-sm">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-500 mb-1">
+                  Formato
+                </span>
+                <select
+                  value={options.format}
+                  onChange={(e) =>
+                    update("format", e.target.value as QrOptions["format"])
+                  }
+                  className={inputClass}
+                >
+                  <option value="png">PNG</option>
+                  <option value="svg">SVG</option>
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-500 mb-1">
+                  Corrección de errores
+                </span>
+                <select
+                  value={options.error_correction}
+                  onChange={(e) =>
+                    update(
+                      "error_correction",
+                      e.target.value as QrErrorCorrection,
+                    )
+                  }
+                  disabled={!!options.logo}
+                  className={inputClass}
+                >
+                  {Object.entries(ERROR_CORRECTION_LABELS).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-500 mb-1">
+                  Tamaño (px)
+                </span>
+                <input
+                  type="number"
+                  min={QR_MIN_SIZE}
+                  max={QR_MAX_SIZE}
+                  step={64}
+                  value={options.size}
+                  onChange={(e) => update("size", Number(e.target.value))}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-500 mb-1">
+                  Margen (módulos)
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={QR_MAX_MARGIN}
+                  value={options.margin}
+                  onChange={(e) => update("margin", Number(e.target.value))}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-500 mb-1">
+                  Color
+                </span>
+                <input
+                  type="color"
+                  value={options.foreground}
+                  onChange={(e) => update("foreground", e.target.value)}
+                  className="w-full h-9 rounded-lg border border-gray-200 bg-white cursor-pointer"
+                />
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-500 mb-1">
+                  Fondo
+                </span>
+                <input
+                  type="color"
+                  value={options.background}
+                  onChange={(e) => update("background", e.target.value)}
+                  className="w-full h-9 rounded-lg border border-gray-200 bg-white cursor-pointer"
+                />
+              </label>
+            </div>
+
+            <div>
+              <span className="block text-xs font-medium text-gray-500 mb-1">
+                Logo central
+              </span>
+              {options.logo ? (
+                <div className="flex items-center gap-2">
+                  <Image
+                    src={options.logo}
+                    alt="Logo"
+                    width={36}
+                    height={36}
+                    unoptimized
+                    className="w-9 h-9 rounded border border-gray-200 object-contain"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => update("logo", null)}
+                    className="text-xs text-gray-500 hover:text-red-500 transition-colors cursor-pointer"
+                  >
+                    Quitar logo
+                  </button>
+                </div>
+              ) : (
+                <label className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-dashed border-gray-300 text-xs text-gray-500 hover:text-brand-blue hover:border-brand-blue transition-colors cursor-pointer">
+                  <ImagePlus className="w-3.5 h-3.5" />
+                  Subir imagen
+                  <input
+                    type="file"
+                    accept={
+                      options.format === "png"
+                        ? "image/png"
+                        : "image/png,image/jpeg,image/gif,image/webp,image/svg+xml"
+                    }
+                    onChange={(e) => handleLogo(e.target.files?.[0])}
+                    className="hidden"
+                  />
+                </label>
+              )}
+              <p className="mt-1 text-xs text-gray-400">
+                Con logo se usa corrección H. Para PNG, el logo debe ser PNG.
+              </p>
+            </div>
+
+            {error && <p className="text-xs text-red-500">{error}</p>}
+
+            <a
+              href={qr?.data_url}
+              download={qr?.filename}
+              aria-disabled={!qr || loading || !!error}
+              className={`inline-flex w-full items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-brand-blue text-white text-sm font-semibold hover:bg-blue-700 transition-colors ${
+                !qr || loading || error ? "pointer-events-none opacity-50" : ""
+              }`}
+            >
+              <Download className="w-4 h-4" />
+              Descargar {options.format.toUpperCase()}
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { Gauge } from "lucide-react";
+import {
+  DEFAULT_RATE_LIMIT_POLICY,
+  MAX_RATE_LIMIT_REQUESTS,
+  MAX_RATE_LIMIT_WINDOW_SECONDS,
+} from "@/lib/rate-limit-policy";
+import type { RateLimitPolicy } from "@/lib/types";
+
+interface RateLimitEditorProps {
+  value: RateLimitPolicy | null | undefined;
+  onChange: (policy: RateLimitPolicy | null) => void;
+  /** Label of the "no own limit" option */
+  inheritLabel: string;
+}
+
+/** Per-IP limit on the redirect, overriding the project's or the global one. */
+export default function RateLimitEditor({
+  value,
+  onChange,
+  inheritLabel,
+}: RateLimitEditorProps) {
+  const policy = value ?? null;
+
+  return (
+    <div>
+      <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+        <Gauge className="w-3.5 h-3.5 text-gray-400" />
+        Límite de solicitudes
+      </label>
+
+      <select
+        value={policy ? "own" : ""}
+        onChange={(e) =>
+          onChange(e.target.value ? { ...DEFAULT_RATE_LIMIT_POLICY } : null)
+        }
+        className="w-full mb-2 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+      >
+        <option value="">{inheritLabel}</option>
+        <option value="own">Límite propio</option>
+      </select>
+
+      {policy && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <input
+            type="number"
+            min={1}
+            max={MAX_RATE_LIMIT_REQUESTS}
+            value={policy.max_requests || ""}
+            onChange={(e) =>
+              onChange({ ...policy, max_requests: Number(e.target.value) })
+            }
+            className="w-24 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+          />
+          solicitudes cada
+          <input
+            type="number"
+            min={1}
+            max={MAX_RATE_LIMIT_WINDOW_SECONDS}
+            value={policy.window_seconds || ""}
+            onChange={(e) =>
+              onChange({ ...policy, window_seconds: Number(e.target.value) })
+            }
+            className="w-20 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+          />
+          segundos por IP
+        </div>
+      )}
+
+      <p className="mt-1 text-xs text-gray-400">
+        Las solicitudes por encima del límite reciben un error 429. Se aplica
+        además del límite global de 100 solicitudes cada 10 segundos por IP:
+        sirve para restringir enlaces que reciben abuso, no para ampliarlo.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { Gauge } from "lucide-react";
+import type { RotationRule } from "@/lib/types";
+
+interface RuleClickCapProps {
+  rule: RotationRule;
+  /** Clicks already recorded for this rule */
+  clicks: number;
+  onChange: (clickCap: number | null) => void;
+}
+
+/**
+ * Per-destination click cap input with progress toward the cap.
+ * An empty input means the destination has no cap.
+ */
+export default function RuleClickCap({
+  rule,
+  clicks,
+  onChange,
+}: RuleClickCapProps) {
+  const cap = rule.click_cap ?? null;
+  const progress = cap ? Math.min(100, (clicks / cap) * 100) : 0;
+  const reached = cap !== null && clicks >= cap;
+
+  return (
+    <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
+      <label className="flex items-center gap-1.5 text-xs font-medium text-gray-500 shrink-0">
+        <Gauge className="w-3.5 h-3.5" />
+        Límite de clics
+      </label>
+      <input
+        type="number"
+        min={1}
+        value={cap ?? ""}
+        onChange={(e) => {
+          const parsed = parseInt(e.target.value, 10);
+          onChange(Number.isNaN(parsed) || parsed <= 0 ? null : parsed);
+        }}
+        placeholder="Sin límite"
+        className="w-full sm:w-32 px-3 py-1.5 rounded-lg border border-gray-200 bg-gray-50 text-xs text-gray-700 placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-cyan/20 focus:border-brand-cyan focus:bg-white transition-all"
+      />
+      {cap !== null && (
+        <div className="flex items-center gap-2 flex-1 min-w-0">
+          <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all duration-300 ${
+                reached
+                  ? "bg-red-400"
+                  : "bg-linear-to-r from-brand-blue to-brand-cyan"
+              }`}
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+          <span
+            className={`shrink-0 text-xs tabular-nums ${
+              reached ? "text-red-500 font-medium" : "text-gray-400"
+            }`}
+          >
+            {clicks.toLocaleString("es")} / {cap.toLocaleString("es")}
+            {reached && " · alcanzado"}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
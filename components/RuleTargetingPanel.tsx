@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { ChevronDown, Crosshair } from "lucide-react";
+import type {
+  BrowserFamily,
+  DeviceClass,
+  OperatingSystem,
+  RotationRule,
+} from "@/lib/types";
+import { createBusinessHoursSchedule } from "@/lib/schedule";
+import CountryPicker from "./CountryPicker";
+import ScheduleGrid from "./ScheduleGrid";
+
+const DEVICE_OPTIONS: { value: DeviceClass; label: string }[] = [
+  { value: "mobile", label: "Móvil" },
+  { value: "tablet", label: "Tableta" },
+  { value: "desktop", label: "Escritorio" },
+];
+
+const OS_OPTIONS: { value: OperatingSystem; label: string }[] = [
+  { value: "ios", label: "iOS" },
+  { value: "android", label: "Android" },
+  { value: "windows", label: "Windows" },
+  { value: "macos", label: "macOS" },
+];
+
+const BROWSER_OPTIONS: { value: BrowserFamily; label: string }[] = [
+  { value: "chrome", label: "Chrome" },
+  { value: "safari", label: "Safari" },
+  { value: "firefox", label: "Firefox" },
+  { value: "edge", label: "Edge" },
+  { value: "samsung", label: "Samsung Internet" },
+  { value: "opera", label: "Opera" },
+];
+
+interface RuleTargetingPanelProps {
+  rule: RotationRule;
+  onChange: (patch: Partial<RotationRule>) => void;
+}
+
+/** One-line summary of a rule's targeting, shown while collapsed. */
+function summarize(rule: RotationRule): string {
+  const parts: string[] = [];
+  const include = rule.include_countries ?? [];
+  const exclude = rule.exclude_countries ?? [];
+
+  if (include.length > 0) parts.push(`Solo ${include.join(", ")}`);
+  if (exclude.length > 0) parts.push(`Excepto ${exclude.join(", ")}`);
+
+  const labelsFor = <T extends string>(
+    selected: T[] | undefined,
+    options: { value: T; label: string }[],
+  ) => options.filter((o) => selected?.includes(o.value)).map((o) => o.label);
+
+  const devices = labelsFor(rule.devices, DEVICE_OPTIONS);
+  const systems = labelsFor(rule.operating_systems, OS_OPTIONS);
+  const browsers = labelsFor(rule.browsers, BROWSER_OPTIONS);
+  if (devices.length > 0) parts.push(devices.join("/"));
+  if (systems.length > 0) parts.push(systems.join("/"));
+  if (browsers.length > 0) parts.push(browsers.join("/"));
+  if (rule.schedule) parts.push(`Horario (${rule.schedule.timezone})`);
+
+  return parts.length > 0 ? parts.join(" · ") : "Todo el tráfico";
+}
+
+/**
+ * Row of toggle chips for an allow-list. No chip selected = no restriction.
+ */
+function ToggleChips<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T[];
+  onChange: (next: T[]) => void;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 mb-1">
+        {label}
+      </label>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map((o) => {
+          const active = value.includes(o.value);
+          return (
+            <button
+              key={o.value}
+              type="button"
+              onClick={() =>
+                onChange(
+                  active
+                    ? value.filter((v) => v !== o.value)
+                    : [...value, o.value],
+                )
+              }
+              className={`px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${
+                active
+                  ? "bg-cyan-50 text-brand-cyan border-cyan-200"
+                  : "bg-white text-gray-500 border-gray-200 hover:border-cyan-200"
+              }`}
+            >
+              {o.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Collapsible per-rule targeting editor.
+ *
+ * Visitors who don't match a rule's conditions skip it; the rule's share
+ * is redistributed across the destinations they are eligible for.
+ */
+export default function RuleTargetingPanel({
+  rule,
+  onChange,
+}: RuleTargetingPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-dashed border-gray-100">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 text-left text-xs text-gray-500 hover:text-brand-cyan transition-colors"
+      >
+        <Crosshair className="w-3.5 h-3.5 shrink-0" />
+        <span className="font-medium">Segmentación</span>
+        <span className="flex-1 truncate text-gray-400">{summarize(rule)}</span>
+        <motion.span
+          animate={{ rotate: open ? 180 : 0 }}
+          transition={{ duration: 0.25, ease: "easeInOut" }}
+        >
+          <ChevronDown className="w-3.5 h-3.5" />
+        </motion.span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <CountryPicker
+            label="Solo para estos países"
+            value={rule.include_countries ?? []}
+            onChange={(codes) => onChange({ include_countries: codes })}
+            tone="include"
+          />
+          <CountryPicker
+            label="Excluir estos países"
+            value={rule.exclude_countries ?? []}
+            onChange={(codes) => onChange({ exclude_countries: codes })}
+            tone="exclude"
+          />
+          <ToggleChips
+            label="Dispositivo"
+            options={DEVICE_OPTIONS}
+            value={rule.devices ?? []}
+            onChange={(devices) => onChange({ devices })}
+          />
+          <ToggleChips
+            label="Sistema operativo"
+            options={OS_OPTIONS}
+            value={rule.operating_systems ?? []}
+            onChange={(operating_systems) => onChange({ operating_systems })}
+          />
+          <ToggleChips
+            label="Navegador"
+            options={BROWSER_OPTIONS}
+            value={rule.browsers ?? []}
+            onChange={(browsers) => onChange({ browsers })}
+          />
+
+          {/* Dayparting */}
+          <div className="pt-3 border-t border-dashed border-gray-100">
+            <label className="flex items-center gap-2 text-xs font-medium text-gray-500 mb-2">
+              <input
+                type="checkbox"
+                checked={!!rule.schedule}
+                onChange={(e) =>
+                  onChange({
+                    schedule: e.target.checked
+                      ? createBusinessHoursSchedule(
+                          Intl.DateTimeFormat().resolvedOptions().timeZone,
+                        )
+                      : undefined,
+                  })
+                }
+                className="rounded border-gray-300 text-brand-cyan focus:ring-brand-cyan/20"
+              />
+              Activo solo en horario programado
+            </label>
+            {rule.schedule && (
+              <>
+                <ScheduleGrid
+                  schedule={rule.schedule}
+                  onChange={(schedule) => onChange({ schedule })}
+                />
+                <p className="mt-1 text-xs text-gray-400">
+                  Fuera del horario, el porcentaje de este destino vuelve al
+                  destino principal.
+                </p>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-400">
+            Sin selección, la condición no restringe. Si el visitante no cumple
+            todas las condiciones, su porcentaje se reparte proporcionalmente
+            entre los destinos elegibles; el destino principal siempre recibe el
+            tráfico restante.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import type { RuleSchedule } from "@/lib/types";
+import { WEEKDAY_LABELS } from "@/lib/schedule";
+
+interface ScheduleGridProps {
+  schedule: RuleSchedule;
+  onChange: (schedule: RuleSchedule) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+/** Display weekdays Monday-first; values stay 0 = Sunday. */
+const DISPLAY_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+/** Common advertiser timezones offered in the picker. */
+const TIMEZONE_OPTIONS = [
+  "America/Mexico_City",
+  "America/Bogota",
+  "America/Lima",
+  "America/Argentina/Buenos_Aires",
+  "America/Santiago",
+  "America/Guatemala",
+  "America/Santo_Domingo",
+  "America/New_York",
+  "America/Los_Angeles",
+  "Europe/London",
+  "Europe/Madrid",
+  "UTC",
+];
+
+/**
+ * Weekly 7 × 24 hour grid for a rule schedule.
+ *
+ * Click a cell to toggle one hour, a day label to toggle the whole day,
+ * or an hour label to toggle that hour on every day.
+ */
+export default function ScheduleGrid({
+  schedule,
+  onChange,
+}: ScheduleGridProps) {
+  const isActive = (day: number, hour: number) =>
+    schedule.weekly_hours[day]?.includes(hour) ?? false;
+
+  const setHours = (update: (day: number, hours: number[]) => number[]) => {
+    onChange({
+      ...schedule,
+      weekly_hours: schedule.weekly_hours.map((hours, day) =>
+        update(day, hours).sort((a, b) => a - b),
+      ),
+    });
+  };
+
+  const toggleCell = (day: number, hour: number) =>
+    setHours((d, hours) =>
+      d !== day
+        ? hours
+        : hours.includes(hour)
+          ? hours.filter((h) => h !== hour)
+          : [...hours, hour],
+    );
+
+  const toggleDay = (day: number) => {
+    const allOn = schedule.weekly_hours[day]?.length === 24;
+    setHours((d, hours) => (d !== day ? hours : allOn ? [] : [...HOURS]));
+  };
+
+  const toggleHour = (hour: number) => {
+    const allOn = schedule.weekly_hours.every((hours) => hours.includes(hour));
+    setHours((_, hours) =>
+      allOn
+        ? hours.filter((h) => h !== hour)
+        : hours.includes(hour)
+          ? hours
+          : [...hours, hour],
+    );
+  };
+
+  const timezoneOptions = TIMEZONE_OPTIONS.includes(schedule.timezone)
+    ? TIMEZONE_OPTIONS
+    : [schedule.timezone, ...TIMEZONE_OPTIONS];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <label className="text-xs font-medium text-gray-500">
+          Zona horaria
+        </label>
+        <select
+          value={schedule.timezone}
+          onChange={(e) => onChange({ ...schedule, timezone: e.target.value })}
+          className="px-2 py-1 rounded-lg border border-gray-200 bg-white text-xs text-gray-600 focus:outline-none focus:ring-2 focus:ring-brand-cyan/20 focus:border-brand-cyan"
+        >
+          {timezoneOptions.map((tz) => (
+            <option key={tz} value={tz}>
+              {tz}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-0.5 text-[10px] text-gray-400">
+          <thead>
+            <tr>
+              <th />
+              {HOURS.map((hour) => (
+                <th key={hour} className="font-normal">
+                  <button
+                    type="button"
+                    onClick={() => toggleHour(hour)}
+                    className="w-4 hover:text-brand-cyan"
+                    title={`${hour}:00–${hour}:59 todos los días`}
+                  >
+                    {hour}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {DISPLAY_DAYS.map((day) => (
+              <tr key={day}>
+                <th className="pr-1 font-medium text-right">
+                  <button
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className="hover:text-brand-cyan"
+                  >
+                    {WEEKDAY_LABELS[day]}
+                  </button>
+                </th>
+                {HOURS.map((hour) => (
+                  <td key={hour}>
+                    <button
+                      type="button"
+                      onClick={() => toggleCell(day, hour)}
+                      className={`block w-4 h-4 rounded-sm transition-colors ${
+                        isActive(day, hour)
+                          ? "bg-brand-cyan hover:bg-cyan-600"
+                          : "bg-gray-100 hover:bg-cyan-100"
+                      }`}
+                      title={`${WEEKDAY_LABELS[day]} ${hour}:00–${hour}:59`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
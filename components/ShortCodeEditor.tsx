@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { Pencil, Shuffle, Check, X, Loader2, History } from "lucide-react";
+import { updateShortCodeAction } from "@/app/actions";
+
+interface ShortCodeEditorProps {
+  linkId: string;
+  shortCode: string;
+  /** Codes the link used before (they keep redirecting) */
+  previousCodes: string[];
+  onChange: (code: string) => void;
+}
+
+/**
+ * Inline editor for a link's short code: choose a vanity code or draw a
+ * new random one. Saved immediately, separate from the link auto-save.
+ */
+export default function ShortCodeEditor({
+  linkId,
+  shortCode,
+  previousCodes,
+  onChange,
+}: ShortCodeEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(shortCode);
+  const [history, setHistory] = useState(previousCodes);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const save = async (code: string | null) => {
+    setSaving(true);
+    setError("");
+    const result = await updateShortCodeAction(linkId, code);
+    setSaving(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    if (result.data !== shortCode) {
+      setHistory((prev) => [
+        shortCode,
+        ...prev.filter((c) => c !== shortCode && c !== result.data),
+      ]);
+    }
+    onChange(result.data);
+    setDraft(result.data);
+    setEditing(false);
+  };
+
+  return (
+    <div className="mt-3">
+      {editing ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-400 font-mono">/r/</span>
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") save(draft);
+              if (e.key === "Escape") setEditing(false);
+            }}
+            placeholder="mi-promo"
+            autoFocus
+            className="flex-1 min-w-40 px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 font-mono placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+          />
+          <button
+            type="button"
+            onClick={() => save(draft)}
+            disabled={saving || !draft.trim()}
+            className="p-2 rounded-lg text-green-600 hover:bg-green-50 transition-colors cursor-pointer disabled:opacity-40"
+            title="Guardar código"
+          >
+            {saving ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Check className="w-4 h-4" />
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={() => save(null)}
+            disabled={saving}
+            className="p-2 rounded-lg text-gray-400 hover:text-brand-blue hover:bg-blue-50 transition-colors cursor-pointer disabled:opacity-40"
+            title="Generar código aleatorio"
+          >
+            <Shuffle className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setEditing(false);
+              setDraft(shortCode);
+              setError("");
+            }}
+            className="p-2 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-50 transition-colors cursor-pointer"
+            title="Cancelar"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setEditing(true)}
+          className="inline-flex items-center gap-1.5 text-xs text-gray-500 hover:text-brand-blue transition-colors cursor-pointer"
+        >
+          <Pencil className="w-3 h-3" />
+          Personalizar código corto
+        </button>
+      )}
+
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+
+      {history.length > 0 && (
+        <p className="mt-2 flex items-start gap-1.5 text-xs text-gray-400">
+          <History className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>
+            Códigos anteriores (siguen redirigiendo):{" "}
+            {history.map((code, i) => (
+              <span key={code}>
+                {i > 0 && ", "}
+                <code>{code}</code>
+              </span>
+            ))}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
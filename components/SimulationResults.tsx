@@ -9,17 +9,27 @@ import {
   AlertTriangle,
 } from "lucide-react";
 import { motion } from "framer-motion";
+import { DEVIATION_P_VALUE } from "@/lib/statistics";
 import type { SimulationResult } from "@/lib/types";
 
 interface SimulationResultsProps {
   results: SimulationResult[];
   iterations: number;
+  /** Whether the link pins returning visitors to one destination */
+  sticky?: boolean;
+  /** Share of simulated clicks made by returning visitors (0–1) */
+  returningVisitorRate?: number;
+  /** Seed the run was drawn from, shown so it can be replayed */
+  seed?: number;
   onClose: () => void;
 }
 
 export default function SimulationResults({
   results,
   iterations,
+  sticky = false,
+  returningVisitorRate = 0,
+  seed,
   onClose,
 }: SimulationResultsProps) {
   const maxHits = useMemo(
@@ -27,11 +37,14 @@ export default function SimulationResults({
     [results],
   );
 
-  const isConverging = useMemo(() => {
-    return results.every(
-      (r) => Math.abs(r.actual_percentage - r.configured_weight) < 5,
-    );
-  }, [results]);
+  // "optimize" links are compared against their current allocation
+  const isOptimized = results.some((r) => r.optimized_weight !== undefined);
+  const targetOf = (r: SimulationResult) =>
+    r.optimized_weight ?? r.configured_weight;
+
+  // Chi-square test of the draws against the weights (same on every row)
+  const pValue = results[0]?.p_value ?? 1;
+  const isConverging = pValue >= DEVIATION_P_VALUE;
 
   return (
     <div className="card-bg rounded-2xl border border-gray-200/80 shadow-lg overflow-hidden">
@@ -48,6 +61,10 @@ export default function SimulationResults({
               </h3>
               <p className="text-sm text-gray-500">
                 {iterations.toLocaleString()} clics simulados
+                {returningVisitorRate > 0 &&
+                  ` · ${Math.round(returningVisitorRate * 100)}% de visitantes recurrentes`}
+                {isOptimized && " · estrategia optimizada"}
+                {seed !== undefined && ` · semilla ${seed}`}
               </p>
             </div>
           </div>
@@ -65,7 +82,10 @@ export default function SimulationResults({
             ) : (
               <AlertTriangle className="w-3.5 h-3.5" />
             )}
-            {isConverging ? "Convergiendo" : "Variación detectada"}
+            {isConverging ? "Convergiendo" : "Desviación significativa"}
+            <span className="font-normal opacity-75">
+              p = {pValue < 0.001 ? "<0.001" : pValue.toFixed(3)}
+            </span>
           </div>
         </div>
       </div>
@@ -74,8 +94,7 @@ export default function SimulationResults({
       <div className="px-6 py-4">
         <div className="space-y-3">
           {results.map((result, idx) => {
-            const deviation =
-              result.actual_percentage - result.configured_weight;
+            const deviation = result.actual_percentage - targetOf(result);
             const deviationAbs = Math.abs(deviation);
 
             return (
@@ -107,18 +126,41 @@ export default function SimulationResults({
                   <div className="flex items-center gap-6 shrink-0">
                     {/* Configured weight */}
                     <div className="text-right w-16">
-                      <div className="text-xs text-gray-400">Objetivo</div>
-                      <div className="text-sm font-semibold text-gray-600">
+                      <div className="text-xs text-gray-400">
+                        {isOptimized ? "Configurado" : "Objetivo"}
+                      </div>
+                      <div
+                        className={`text-sm font-semibold ${
+                          isOptimized ? "text-gray-400" : "text-gray-600"
+                        }`}
+                      >
                         {result.configured_weight}%
                       </div>
                     </div>
 
+                    {/* Current optimized allocation */}
+                    {isOptimized && (
+                      <div className="text-right w-16">
+                        <div className="text-xs text-gray-400">Asignación</div>
+                        <div className="text-sm font-semibold text-brand-cyan">
+                          {(result.optimized_weight ?? 0).toFixed(1)}%
+                        </div>
+                      </div>
+                    )}
+
                     {/* Actual percentage */}
                     <div className="text-right w-16">
                       <div className="text-xs text-gray-400">Real</div>
                       <div className="text-sm font-bold text-gray-800">
                         {result.actual_percentage.toFixed(1)}%
                       </div>
+                      <div
+                        className="text-[10px] text-gray-400 whitespace-nowrap"
+                        title="Intervalo de confianza del 95%"
+                      >
+                        {result.confidence_interval[0].toFixed(1)}–
+                        {result.confidence_interval[1].toFixed(1)}
+                      </div>
                     </div>
 
                     {/* Hits */}
@@ -155,7 +197,7 @@ export default function SimulationResults({
                     <div
                       className="absolute top-0 h-full w-0.5 bg-gray-400 z-10 opacity-60"
                       style={{
-                        left: `${result.configured_weight}%`,
+                        left: `${targetOf(result)}%`,
                       }}
                     />
                     {/* Actual bar */}
@@ -180,8 +222,10 @@ export default function SimulationResults({
       {/* Footer */}
       <div className="px-6 py-4 border-t border-gray-100 bg-gray-50/50 flex items-center justify-between">
         <p className="text-xs text-gray-400">
-          Cada clic es una selección probabilística independiente (no
-          persistente). Los resultados pueden variar entre simulaciones.
+          {sticky
+            ? "Cada visitante nuevo recibe una selección probabilística; los recurrentes conservan su destino. Los resultados pueden variar entre simulaciones."
+            : "Cada clic es una selección probabilística independiente (no persistente). Los resultados pueden variar entre simulaciones."}{" "}
+          {`La prueba chi-cuadrado marca una desviación significativa cuando p < ${DEVIATION_P_VALUE}.`}
         </p>
         <motion.button
           onClick={onClose}
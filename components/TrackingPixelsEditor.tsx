@@ -0,0 +1,125 @@
+"use client";
+
+import { Crosshair } from "lucide-react";
+import type { TrackingPixels } from "@/lib/types";
+
+interface TrackingPixelsEditorProps {
+  value: TrackingPixels | null | undefined;
+  onChange: (pixels: TrackingPixels | null) => void;
+  /**
+   * Label of the "no own pixels" option on links (inherit the project's).
+   * Without it the fields are always shown and an empty config is `null`.
+   */
+  inheritLabel?: string;
+}
+
+const EMPTY_PIXELS: TrackingPixels = {
+  ga4_measurement_id: null,
+  meta_pixel_id: null,
+  tiktok_pixel_id: null,
+  custom_head_html: null,
+  custom_body_html: null,
+};
+
+const ID_FIELDS: {
+  key: "ga4_measurement_id" | "meta_pixel_id" | "tiktok_pixel_id";
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "ga4_measurement_id", label: "GA4", placeholder: "G-XXXXXXXXXX" },
+  { key: "meta_pixel_id", label: "Meta Pixel", placeholder: "123456789012345" },
+  {
+    key: "tiktok_pixel_id",
+    label: "TikTok",
+    placeholder: "CXXXXXXXXXXXXXXXXXXX",
+  },
+];
+
+const HTML_FIELDS: {
+  key: "custom_head_html" | "custom_body_html";
+  label: string;
+}[] = [
+  { key: "custom_head_html", label: "HTML personalizado (head)" },
+  { key: "custom_body_html", label: "HTML personalizado (body)" },
+];
+
+/**
+ * Retargeting pixels fired on a short page before the redirect: GA4,
+ * Meta, TikTok and custom head/body HTML.
+ */
+export default function TrackingPixelsEditor({
+  value,
+  onChange,
+  inheritLabel,
+}: TrackingPixelsEditorProps) {
+  const pixels = value ?? (inheritLabel ? null : EMPTY_PIXELS);
+
+  const update = (key: keyof TrackingPixels, fieldValue: string) => {
+    const next = { ...(pixels ?? EMPTY_PIXELS), [key]: fieldValue || null };
+    onChange(inheritLabel || Object.values(next).some(Boolean) ? next : null);
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1.5">
+        <Crosshair className="w-3.5 h-3.5 text-gray-400" />
+        Píxeles de Retargeting
+      </label>
+
+      {inheritLabel && (
+        <select
+          value={pixels ? "own" : ""}
+          onChange={(e) => onChange(e.target.value ? EMPTY_PIXELS : null)}
+          className="w-full mb-2 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+        >
+          <option value="">{inheritLabel}</option>
+          <option value="own">Píxeles propios de este enlace</option>
+        </select>
+      )}
+
+      {pixels && (
+        <div className="space-y-2">
+          <div className="grid gap-2 sm:grid-cols-3">
+            {ID_FIELDS.map(({ key, label, placeholder }) => (
+              <div key={key}>
+                <label className="block text-xs font-medium text-gray-500 mb-1">
+                  {label}
+                </label>
+                <input
+                  type="text"
+                  value={pixels[key] ?? ""}
+                  onChange={(e) => update(key, e.target.value)}
+                  placeholder={placeholder}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 font-mono placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue"
+                />
+              </div>
+            ))}
+          </div>
+          {HTML_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-xs font-medium text-gray-500 mb-1">
+                {label}
+              </label>
+              <textarea
+                value={pixels[key] ?? ""}
+                onChange={(e) => update(key, e.target.value)}
+                rows={3}
+                placeholder='<img src="…" width="1" height="1" alt="">'
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-xs text-gray-700 font-mono placeholder:text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue/20 focus:border-brand-blue resize-y"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-1 text-xs text-gray-400">
+        Con píxeles configurados, los visitantes (no los bots) pasan por una
+        página breve que los dispara con los datos UTM del clic y continúa al
+        destino en cuanto responden, como máximo en 2 segundos. El HTML
+        personalizado no ejecuta scripts: use etiquetas de imagen o iframe.
+        {inheritLabel &&
+          " Los píxeles propios vacíos desactivan los del proyecto."}
+      </p>
+    </div>
+  );
+}
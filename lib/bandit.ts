@@ -0,0 +1,148 @@
+/**
+ * RouteGenius — Auto-Optimizing Rotation (Thompson Sampling)
+ *
+ * Turns per-destination click / conversion counts into a traffic
+ * allocation for links with `rotation_strategy = "optimize"`.
+ *
+ * Each destination's conversion rate is modelled as Beta(conversions + 1,
+ * clicks - conversions + 1). The allocation is the probability that each
+ * destination is the best one (estimated by sampling), mixed with a floor
+ * so every variant keeps receiving a minimal share of traffic.
+ *
+ * Sampling uses a PRNG seeded from the counts, so the allocation only
+ * changes when new clicks or conversions arrive — sticky visitors keep
+ * their destination between two identical requests. Allocations are
+ * remembered per stats object, so callers that reuse one (the redirect's
+ * cached stats) sample once instead of on every request.
+ */
+
+import type { DestinationStats } from "./types";
+import { createSeededRandom, hashString } from "./random";
+
+/** Default minimum share (%) every destination keeps under "optimize". */
+export const DEFAULT_OPTIMIZE_FLOOR_PERCENTAGE = 5;
+
+/** Stats key used for the main destination (rules use their rule ID). */
+export const MAIN_DESTINATION_KEY = "main";
+
+/** Posterior draws used to estimate the allocation. */
+const ALLOCATION_SAMPLES = 2000;
+
+/** Allocations computed per stats object, keyed by floor and destinations. */
+const allocationCache = new WeakMap<
+  Record<string, DestinationStats>,
+  Map<string, Record<string, number>>
+>();
+
+/** Standard normal draw (Box–Muller). */
+function sampleNormal(random: () => number): number {
+  const u = 1 - random(); // (0, 1] — avoids log(0)
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Gamma(shape, 1) draw (Marsaglia–Tsang, shape ≥ 1). */
+function sampleGamma(shape: number, random: () => number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+/** Beta(alpha, beta) draw (alpha, beta ≥ 1). */
+function sampleBeta(alpha: number, beta: number, random: () => number) {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+/**
+ * Compute the optimized allocation for a set of destinations.
+ *
+ * @param keys - Destination keys (rule IDs, or `MAIN_DESTINATION_KEY`)
+ * @param stats - Clicks and conversions per key (missing keys count as 0/0)
+ * @param floorPercentage - Minimum share per destination, 0–100
+ * @returns Allocation per key in percent, summing to 100
+ *
+ * @example
+ * ```ts
+ * computeOptimizedAllocation(["main", "b"], {
+ *   main: { clicks: 1000, conversions: 20 },
+ *   b: { clicks: 1000, conversions: 40 },
+ * }, 5);
+ * // → { main: 5, b: 95 } (approximately)
+ * ```
+ */
+export function computeOptimizedAllocation(
+  keys: string[],
+  stats: Record<string, DestinationStats>,
+  floorPercentage: number = DEFAULT_OPTIMIZE_FLOOR_PERCENTAGE,
+): Record<string, number> {
+  if (keys.length === 0) return {};
+  if (keys.length === 1) return { [keys[0]]: 100 };
+
+  // Floor can't exceed an even split
+  const floor = Math.min(Math.max(0, floorPercentage), 100 / keys.length);
+
+  const cacheKey = `${floor}|${keys.join("|")}`;
+  let cached = allocationCache.get(stats);
+  const previous = cached?.get(cacheKey);
+  if (previous) return { ...previous };
+
+  const posteriors = keys.map((key) => {
+    const clicks = Math.max(0, stats[key]?.clicks ?? 0);
+    const conversions = Math.min(
+      clicks,
+      Math.max(0, stats[key]?.conversions ?? 0),
+    );
+    return { alpha: conversions + 1, beta: clicks - conversions + 1 };
+  });
+
+  const random = createSeededRandom(
+    hashString(
+      keys
+        .map((k, i) => `${k}:${posteriors[i].alpha}:${posteriors[i].beta}`)
+        .join("|"),
+    ),
+  );
+
+  // Probability each destination has the highest conversion rate
+  const wins = new Array<number>(keys.length).fill(0);
+  for (let s = 0; s < ALLOCATION_SAMPLES; s++) {
+    let best = 0;
+    let bestValue = -1;
+    posteriors.forEach(({ alpha, beta }, i) => {
+      const value = sampleBeta(alpha, beta, random);
+      if (value > bestValue) {
+        bestValue = value;
+        best = i;
+      }
+    });
+    wins[best]++;
+  }
+
+  const explorable = 100 - floor * keys.length;
+  const allocation: Record<string, number> = Object.fromEntries(
+    keys.map((key, i) => [
+      key,
+      floor + (explorable * wins[i]) / ALLOCATION_SAMPLES,
+    ]),
+  );
+
+  if (!cached) {
+    cached = new Map();
+    allocationCache.set(stats, cached);
+  }
+  cached.set(cacheKey, allocation);
+  return { ...allocation };
+}
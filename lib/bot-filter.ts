@@ -1,34 +1,133 @@
 /**
  * RouteGenius — Bot User-Agent Filter
  *
- * Detects known bot/crawler user-agents for analytics filtering.
+ * Detects known bot/crawler user-agents. The redirect route classifies
+ * every request: bots skip the weighted draw (they go to the link's bot
+ * destination) and their clicks are stored with `click_events.is_bot`.
+ *
+ * Patterns are case-insensitive substrings of the user-agent — plain
+ * text, not regular expressions, since they run against attacker-chosen
+ * input on every click. Each workspace can replace the defaults from
+ * Settings (`workspace_settings.bot_patterns`).
  */
 
-const BOT_PATTERNS = [
-  /bot/i,
-  /crawl/i,
-  /spider/i,
-  /slurp/i,
-  /mediapartners/i,
-  /facebookexternalhit/i,
-  /linkedinbot/i,
-  /twitterbot/i,
-  /whatsapp/i,
-  /telegrambot/i,
-  /google-structured-data/i,
-  /bingbot/i,
-  /yandex/i,
-  /baiduspider/i,
-  /duckduckbot/i,
-  /semrush/i,
-  /ahrefs/i,
-  /mj12bot/i,
-  /dotbot/i,
-  /pingdom/i,
-  /uptimerobot/i,
-  /headlesschrome/i,
+/** Default bot patterns (lowercase user-agent substrings). */
+export const DEFAULT_BOT_PATTERNS = [
+  "bot",
+  "crawl",
+  "spider",
+  "slurp",
+  "mediapartners",
+  "facebookexternalhit",
+  "linkedinbot",
+  "twitterbot",
+  "whatsapp",
+  "telegrambot",
+  "google-structured-data",
+  "bingbot",
+  "yandex",
+  "baiduspider",
+  "duckduckbot",
+  "semrush",
+  "ahrefs",
+  "mj12bot",
+  "dotbot",
+  "pingdom",
+  "uptimerobot",
+  "headlesschrome",
 ];
 
-export function isBot(userAgent: string): boolean {
-  return BOT_PATTERNS.some((pattern) => pattern.test(userAgent));
+/** Maximum number of patterns per workspace. */
+export const MAX_BOT_PATTERNS = 200;
+
+/** Maximum length of a single pattern. */
+const MAX_BOT_PATTERN_LENGTH = 200;
+
+/** How long a workspace's bot patterns are reused (ms). */
+const BOT_PATTERNS_TTL_MS = 60_000;
+
+const patternCache = new Map<
+  string,
+  { patterns: string[]; expiresAt: number }
+>();
+
+/**
+ * A workspace's bot patterns, cached briefly so the redirect does not
+ * query workspace_settings on every click. Falls back to the defaults
+ * when the settings cannot be read.
+ *
+ * @param loader - Database lookup used on a miss (`getWorkspaceBotPatterns`)
+ */
+export async function getCachedBotPatterns(
+  workspaceId: string,
+  loader: (workspaceId: string) => Promise<string[] | null>,
+): Promise<string[]> {
+  const cached = patternCache.get(workspaceId);
+  if (cached && cached.expiresAt > Date.now()) return cached.patterns;
+
+  let patterns = DEFAULT_BOT_PATTERNS;
+  try {
+    patterns = (await loader(workspaceId)) ?? patterns;
+  } catch (err) {
+    console.error("[RouteGenius] Bot patterns lookup failed:", err);
+  }
+  patterns = patterns.map((p) => p.toLowerCase());
+  patternCache.set(workspaceId, {
+    patterns,
+    expiresAt: Date.now() + BOT_PATTERNS_TTL_MS,
+  });
+  return patterns;
+}
+
+/**
+ * Drop a workspace's cached patterns after they were saved. Only reaches
+ * this instance; others pick the change up within `BOT_PATTERNS_TTL_MS`.
+ */
+export function invalidateCachedBotPatterns(workspaceId: string): void {
+  patternCache.delete(workspaceId);
+}
+
+/**
+ * Whether a user-agent belongs to a bot. An empty user-agent counts as
+ * a bot — browsers always send one.
+ *
+ * @param patterns - Lowercase substrings (default: `DEFAULT_BOT_PATTERNS`)
+ */
+export function isBot(
+  userAgent: string,
+  patterns: string[] = DEFAULT_BOT_PATTERNS,
+): boolean {
+  if (!userAgent.trim() || userAgent === "unknown") return true;
+  const ua = userAgent.toLowerCase();
+  return patterns.some((pattern) => ua.includes(pattern));
+}
+
+/**
+ * Validate a user-edited pattern list: trims, lowercases, and drops
+ * blanks and duplicates.
+ */
+export function normalizeBotPatterns(
+  input: string[],
+): { ok: true; patterns: string[] } | { ok: false; error: string } {
+  const patterns = [
+    ...new Set(
+      input.map((p) => p.trim().toLowerCase()).filter((p) => p.length > 0),
+    ),
+  ];
+
+  if (patterns.length > MAX_BOT_PATTERNS) {
+    return {
+      ok: false,
+      error: `Se permiten como máximo ${MAX_BOT_PATTERNS} patrones.`,
+    };
+  }
+  for (const pattern of patterns) {
+    if (pattern.length > MAX_BOT_PATTERN_LENGTH) {
+      return {
+        ok: false,
+        error: `El patrón "${pattern.slice(0, 30)}…" es demasiado largo.`,
+      };
+    }
+  }
+  return { ok: true, patterns };
 }
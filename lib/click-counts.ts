@@ -0,0 +1,144 @@
+/**
+ * RouteGenius — Redirect Click Counts
+ *
+ * Short-lived per-link copies of the click_events aggregates the redirect
+ * route reads, so links with click caps or the "optimize" strategy do not
+ * run a COUNT / GROUP BY over click_events on every click. Clicks recorded
+ * by this instance are added to the cached cap counts right away; clicks
+ * recorded by other instances, and conversions, show up once the entry
+ * expires.
+ *
+ * The rule IDs failing health checks are cached the same way, for longer
+ * (`HEALTH_TTL_MS`): health only changes when the cron runs, and the cron
+ * drops the entries of the links whose health changed.
+ *
+ * Server-only. Entries are per process.
+ */
+
+import {
+  countClicksByRule,
+  countClicksForLink,
+  getDestinationStats,
+  getUnhealthyRuleIds,
+} from "./mock-data";
+import type { DestinationStats } from "./types";
+
+/** How long a link's counts are reused before being read again (ms). */
+const CLICK_COUNTS_TTL_MS = 10_000;
+
+/** How long a link's unhealthy rule IDs are reused (ms). */
+const HEALTH_TTL_MS = 60_000;
+
+/** Links tracked before the least recently stored one is dropped. */
+const MAX_ENTRIES = 1000;
+
+interface CachedValue<T> {
+  value: T;
+  expiresAt: number;
+}
+
+const linkTotals = new Map<string, CachedValue<number>>();
+const ruleCounts = new Map<string, CachedValue<Record<string, number>>>();
+const destinationStats = new Map<
+  string,
+  CachedValue<Record<string, DestinationStats>>
+>();
+const unhealthyRules = new Map<string, CachedValue<string[]>>();
+
+/** Store `value` for `key`, dropping the oldest entry beyond `MAX_ENTRIES`. */
+function storeValue<T>(
+  cache: Map<string, CachedValue<T>>,
+  key: string,
+  value: T,
+  ttlMs: number = CLICK_COUNTS_TTL_MS,
+): void {
+  cache.delete(key);
+  cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+  if (cache.size > MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+}
+
+/** The value cached for `key`, or undefined when missing or expired. */
+function readValue<T>(
+  cache: Map<string, CachedValue<T>>,
+  key: string,
+): T | undefined {
+  const cached = cache.get(key);
+  return cached && cached.expiresAt > Date.now() ? cached.value : undefined;
+}
+
+/** Human clicks recorded for a link (click caps), cached briefly. */
+export async function getLinkClickCount(linkId: string): Promise<number> {
+  const cached = readValue(linkTotals, linkId);
+  if (cached !== undefined) return cached;
+
+  const count = await countClicksForLink(linkId);
+  storeValue(linkTotals, linkId, count);
+  return count;
+}
+
+/**
+ * Clicks recorded per rotation rule of a link (per-rule click caps),
+ * cached briefly. Callers get their own copy.
+ */
+export async function getRuleClickCounts(
+  linkId: string,
+): Promise<Record<string, number>> {
+  const cached = readValue(ruleCounts, linkId);
+  if (cached !== undefined) return { ...cached };
+
+  const counts = await countClicksByRule(linkId);
+  storeValue(ruleCounts, linkId, counts);
+  return { ...counts };
+}
+
+/**
+ * Clicks and conversions per destination of an "optimize" link, cached
+ * briefly. The same object is returned until the entry expires, so
+ * `computeOptimizedAllocation()` can reuse its allocation for it — treat
+ * it as read-only.
+ */
+export async function getCachedDestinationStats(
+  linkId: string,
+): Promise<Record<string, DestinationStats>> {
+  const cached = readValue(destinationStats, linkId);
+  if (cached !== undefined) return cached;
+
+  const stats = await getDestinationStats(linkId);
+  storeValue(destinationStats, linkId, stats);
+  return stats;
+}
+
+/** Rule IDs of a link currently failing health checks, cached. */
+export async function getCachedUnhealthyRuleIds(
+  linkId: string,
+): Promise<string[]> {
+  const cached = readValue(unhealthyRules, linkId);
+  if (cached !== undefined) return cached;
+
+  const ruleIds = await getUnhealthyRuleIds(linkId);
+  storeValue(unhealthyRules, linkId, ruleIds, HEALTH_TTL_MS);
+  return ruleIds;
+}
+
+/**
+ * Drop the cached health of links whose destinations changed status.
+ * Only reaches this instance; others catch up within `HEALTH_TTL_MS`.
+ */
+export function invalidateUnhealthyRuleIds(linkIds: string[]): void {
+  for (const linkId of linkIds) unhealthyRules.delete(linkId);
+}
+
+/**
+ * Add a human click queued by this instance to the cached counts, so
+ * caps take effect without waiting for the entry to expire.
+ */
+export function recordClick(linkId: string, ruleId: string | null): void {
+  const total = linkTotals.get(linkId);
+  if (total) total.value++;
+
+  const rules = ruleCounts.get(linkId);
+  if (rules && ruleId) rules.value[ruleId] = (rules.value[ruleId] ?? 0) + 1;
+}
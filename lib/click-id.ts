@@ -0,0 +1,66 @@
+/**
+ * RouteGenius — Click IDs
+ *
+ * Every redirect gets a unique click ID (like gclid / subid), stored in
+ * `click_events.click_id` and optionally appended to the destination URL
+ * so partners can report it back (e.g. via `/api/postback`).
+ */
+
+import { generateRandomSlug } from "./slug";
+
+/** Parameter name suggested when a link enables click ID passthrough. */
+export const DEFAULT_CLICK_ID_PARAM = "rg_cid";
+
+/** Click ID length: 20 base62 characters (~119 bits of entropy). */
+const CLICK_ID_LENGTH = 20;
+
+/** Query parameter names a click ID may be appended under. */
+const CLICK_ID_PARAM_PATTERN = /^[A-Za-z][A-Za-z0-9_.-]{0,39}$/;
+
+/** Shape of IDs produced by `generateClickId()`. */
+const CLICK_ID_PATTERN = /^[A-Za-z0-9]{20}$/;
+
+/** Generate a new unique click ID. */
+export function generateClickId(): string {
+  return generateRandomSlug(CLICK_ID_LENGTH);
+}
+
+/** Whether a string looks like a click ID from `generateClickId()`. */
+export function isClickId(value: string): boolean {
+  return CLICK_ID_PATTERN.test(value);
+}
+
+/** Whether a query parameter name is acceptable for click ID passthrough. */
+export function isValidClickIdParam(name: string): boolean {
+  return CLICK_ID_PARAM_PATTERN.test(name);
+}
+
+/**
+ * Append a click ID to a destination URL, the same way
+ * `appendUtmParams` appends UTMs: existing query parameters are kept and
+ * a parameter already present on the destination is NOT overridden.
+ *
+ * @example
+ * ```ts
+ * appendClickId("https://example.com/page?a=1", "subid", "Xy12…");
+ * // → "https://example.com/page?a=1&subid=Xy12…"
+ * ```
+ */
+export function appendClickId(
+  destinationUrl: string,
+  paramName: string,
+  clickId: string,
+): string {
+  try {
+    const url = new URL(destinationUrl);
+    if (!url.searchParams.has(paramName)) {
+      url.searchParams.set(paramName, clickId);
+    }
+    return url.toString();
+  } catch {
+    // If destination URL is malformed, fall back to string concatenation
+    const queryString = new URLSearchParams({ [paramName]: clickId });
+    const separator = destinationUrl.includes("?") ? "&" : "?";
+    return `${destinationUrl}${separator}${queryString.toString()}`;
+  }
+}
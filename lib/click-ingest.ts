@@ -0,0 +1,399 @@
+/**
+ * RouteGenius — Click Ingestion
+ *
+ * Buffers the redirect route's click events in memory and writes them to
+ * `click_events` in multi-row INSERTs, so a burst of traffic holds one
+ * pool connection instead of one per click.
+ *
+ * - A batch is flushed when `CLICK_BATCH_SIZE` events are queued or
+ *   `CLICK_FLUSH_INTERVAL_MS` after the first one, one batch at a time.
+ * - Failed batches are retried with exponential backoff; after
+ *   `CLICK_MAX_RETRIES` attempts they are appended (fsync'd) to a local
+ *   JSONL spill file, replayed after the next successful insert.
+ * - Events beyond `CLICK_QUEUE_MAX` go straight to the spill file; events
+ *   that can't be spilled either are dropped and counted.
+ * - Rows carry their click time (`created_at`), and inserts skip click IDs
+ *   that are already stored, so retries and replays are idempotent.
+ * - A row the database rejects for its data is dropped on its own instead
+ *   of failing its whole batch.
+ *
+ * Server-only. Counters are per process; the spill file survives restarts
+ * of the process but not of the instance (Vercel: `/tmp`).
+ */
+
+import { appendFile, open, readFile, rename, unlink } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { getPool } from "./db";
+
+/** One `click_events` row, keyed by column. */
+export interface ClickEventRow {
+  link_id: string;
+  resolved_destination_url: string;
+  went_to_main: boolean;
+  user_agent: string;
+  ip_address: string;
+  referer: string | null;
+  country_code: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_term: string | null;
+  utm_content: string | null;
+  rule_id: string | null;
+  click_id: string;
+  /** JSON string of the forwarded params */
+  forwarded_params: string | null;
+  source: string;
+  is_bot: boolean;
+  deep_link_outcome: string | null;
+  redirect_type: string | null;
+  /** When the click happened (ISO 8601), not when the row is inserted */
+  created_at: string;
+}
+
+export interface ClickIngestStats {
+  /** Events waiting in memory */
+  queued: number;
+  /** Events in the batch being written */
+  inFlight: number;
+  inserted: number;
+  /** Failed batch attempts that were retried */
+  retries: number;
+  /** Events written to the spill file */
+  spilled: number;
+  /** Spilled events inserted later */
+  replayed: number;
+  /** Events lost (queue full and spill file unwritable) */
+  dropped: number;
+  /** Events dropped because the database rejected their data */
+  rejected: number;
+  lastError: string | null;
+  config: {
+    batchSize: number;
+    flushIntervalMs: number;
+    queueMax: number;
+    maxRetries: number;
+    spillPath: string;
+  };
+}
+
+const COLUMNS: (keyof ClickEventRow)[] = [
+  "link_id",
+  "resolved_destination_url",
+  "went_to_main",
+  "user_agent",
+  "ip_address",
+  "referer",
+  "country_code",
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_term",
+  "utm_content",
+  "rule_id",
+  "click_id",
+  "forwarded_params",
+  "source",
+  "is_bot",
+  "deep_link_outcome",
+  "redirect_type",
+  "created_at",
+];
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value > 0
+    ? value
+    : fallback;
+}
+
+const BATCH_SIZE = readNumberEnv("CLICK_BATCH_SIZE", 100);
+const FLUSH_INTERVAL_MS = readNumberEnv("CLICK_FLUSH_INTERVAL_MS", 1000);
+const QUEUE_MAX = readNumberEnv("CLICK_QUEUE_MAX", 10_000);
+const MAX_RETRIES = readNumberEnv("CLICK_MAX_RETRIES", 5);
+const SPILL_PATH =
+  process.env.CLICK_SPILL_PATH ||
+  path.join(tmpdir(), "routegenius-click-spill.jsonl");
+
+/** First retry delay; doubles per attempt, capped at `RETRY_MAX_MS`. */
+const RETRY_BASE_MS = 200;
+const RETRY_MAX_MS = 10_000;
+
+/** PostgreSQL caps a statement at 65535 bind parameters. */
+const MAX_ROWS_PER_INSERT = Math.floor(65_535 / COLUMNS.length);
+
+interface QueuedClick {
+  row: ClickEventRow;
+  /** Settles the promise returned by `enqueueClick` */
+  settle: () => void;
+}
+
+const queue: QueuedClick[] = [];
+let inFlight = 0;
+let flushing = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+/** Whether the spill file may hold events to replay. */
+let spillPending = true;
+
+const counters = {
+  inserted: 0,
+  retries: 0,
+  spilled: 0,
+  replayed: 0,
+  dropped: 0,
+  rejected: 0,
+};
+let lastError: string | null = null;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether an insert failed because of the row itself — SQLSTATE class 22
+ * (data exception) or 23 (integrity constraint violation) — rather than
+ * because the database was unreachable.
+ */
+function isRowError(err: unknown): boolean {
+  const code = (err as { code?: unknown } | null)?.code;
+  return typeof code === "string" && /^2[23]/.test(code);
+}
+
+async function insertRows(rows: ClickEventRow[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += MAX_ROWS_PER_INSERT) {
+    const chunk = rows.slice(i, i + MAX_ROWS_PER_INSERT);
+    const values: unknown[] = [];
+    const tuples = chunk.map((row) => {
+      const placeholders = COLUMNS.map((column) => {
+        values.push(row[column]);
+        return `$${values.length}`;
+      });
+      return `(${placeholders.join(", ")})`;
+    });
+    await getPool().query(
+      `INSERT INTO click_events (${COLUMNS.join(", ")})
+       VALUES ${tuples.join(", ")}
+       ON CONFLICT (click_id) WHERE click_id IS NOT NULL DO NOTHING`,
+      values,
+    );
+  }
+}
+
+/**
+ * Insert a batch. When a row is rejected for its data, the rows are
+ * inserted one at a time and the rejected ones dropped, so one bad row
+ * can't hold back the others. Other errors are thrown — rows inserted
+ * before them are skipped on the next attempt (ON CONFLICT on click_id).
+ *
+ * @returns How many rows were not rejected
+ */
+async function insertBatch(rows: ClickEventRow[]): Promise<number> {
+  try {
+    await insertRows(rows);
+    return rows.length;
+  } catch (err) {
+    if (!isRowError(err)) throw err;
+  }
+
+  let accepted = 0;
+  for (const row of rows) {
+    try {
+      await insertRows([row]);
+      accepted++;
+    } catch (err) {
+      if (!isRowError(err)) throw err;
+      lastError = err instanceof Error ? err.message : String(err);
+      counters.rejected++;
+      console.error(
+        `[RouteGenius] Click ${row.click_id} rejected, dropping it:`,
+        err,
+      );
+    }
+  }
+  return accepted;
+}
+
+/** Append rows to the spill file and fsync it. */
+async function spillRows(rows: ClickEventRow[]): Promise<boolean> {
+  try {
+    const handle = await open(SPILL_PATH, "a");
+    try {
+      await handle.writeFile(
+        rows.map((row) => JSON.stringify(row) + "\n").join(""),
+      );
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    counters.spilled += rows.length;
+    spillPending = true;
+    return true;
+  } catch (err) {
+    console.error("[RouteGenius] Click spill failed:", err);
+    counters.dropped += rows.length;
+    return false;
+  }
+}
+
+/** Insert with retries; spill the rows when every attempt failed. */
+async function writeBatch(rows: ClickEventRow[]): Promise<boolean> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      counters.inserted += await insertBatch(rows);
+      return true;
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+      if (attempt >= MAX_RETRIES) {
+        console.error(
+          `[RouteGenius] Click insert failed ${attempt + 1} times, spilling ${rows.length} events:`,
+          err,
+        );
+        await spillRows(rows);
+        return false;
+      }
+      counters.retries++;
+      const delay = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+}
+
+async function readSpillFile(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/**
+ * Insert the events of the spill file. The file is renamed first, so
+ * events spilled meanwhile land in a new one; when the database fails
+ * again, the rows not yet inserted are appended back to it. A replay file
+ * left by an interrupted replay is taken first (rows it already inserted
+ * are skipped by click ID).
+ */
+async function replaySpill(): Promise<void> {
+  const replayPath = `${SPILL_PATH}.replay`;
+  spillPending = false;
+
+  let content = await readSpillFile(replayPath);
+  if (content !== null) {
+    spillPending = true;
+  } else {
+    try {
+      await rename(SPILL_PATH, replayPath);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw err;
+    }
+    content = (await readSpillFile(replayPath)) ?? "";
+  }
+
+  const rows: ClickEventRow[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      rows.push(JSON.parse(line) as ClickEventRow);
+    } catch {
+      counters.dropped++;
+    }
+  }
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    try {
+      counters.replayed += await insertBatch(batch);
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+      await appendFile(
+        SPILL_PATH,
+        rows
+          .slice(i)
+          .map((row) => JSON.stringify(row) + "\n")
+          .join(""),
+      );
+      spillPending = true;
+      break;
+    }
+  }
+  await unlink(replayPath);
+}
+
+async function flush(): Promise<void> {
+  if (flushing) return;
+  flushing = true;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  try {
+    while (queue.length > 0) {
+      const batch = queue.splice(0, BATCH_SIZE);
+      inFlight = batch.length;
+      const ok = await writeBatch(batch.map((item) => item.row));
+      inFlight = 0;
+
+      // Replay before settling, so after() keeps the function alive for it
+      if (ok && spillPending) {
+        await replaySpill().catch((err) => {
+          spillPending = true;
+          console.error("[RouteGenius] Click spill replay failed:", err);
+        });
+      }
+      for (const item of batch) item.settle();
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+function scheduleFlush(): void {
+  if (flushing) return;
+  if (queue.length >= BATCH_SIZE) {
+    void flush();
+  } else if (!timer) {
+    timer = setTimeout(() => void flush(), FLUSH_INTERVAL_MS);
+  }
+}
+
+/**
+ * Queue a click for insertion. The promise settles once the click is
+ * stored, spilled or dropped — never rejects — so the route can keep the
+ * function alive for it with `after()` without delaying the redirect.
+ */
+export function enqueueClick(row: ClickEventRow): Promise<void> {
+  if (queue.length >= QUEUE_MAX) {
+    return spillRows([row]).then(() => undefined);
+  }
+  return new Promise((resolve) => {
+    queue.push({ row, settle: resolve });
+    scheduleFlush();
+  });
+}
+
+/** Write everything queued now (e.g. before shutdown). */
+export async function flushClicks(): Promise<void> {
+  while (flushing) await sleep(50);
+  await flush();
+}
+
+/** Current counters and configuration of this process's ingestion. */
+export function getClickIngestStats(): ClickIngestStats {
+  return {
+    queued: queue.length,
+    inFlight,
+    ...counters,
+    lastError,
+    config: {
+      batchSize: BATCH_SIZE,
+      flushIntervalMs: FLUSH_INTERVAL_MS,
+      queueMax: QUEUE_MAX,
+      maxRetries: MAX_RETRIES,
+      spillPath: SPILL_PATH,
+    },
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * RouteGenius — Country Codes
+ *
+ * ISO 3166-1 alpha-2 codes used by country-targeted rotation rules.
+ * Display names come from `Intl.DisplayNames` so no translation table
+ * has to be maintained here.
+ */
+
+/** Every officially assigned ISO 3166-1 alpha-2 code, alphabetical. */
+export const COUNTRY_CODES: readonly string[] = `
+AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE
+BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ CA CC CD
+CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM
+DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF
+GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU
+ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN
+KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME
+MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA
+NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM
+PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI
+SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK
+TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI
+VN VU WF WS YE YT ZA ZM ZW
+`
+  .trim()
+  .split(/\s+/);
+
+/** Markets served by the TopNetworks brands — shown first in pickers. */
+export const PRIORITY_COUNTRY_CODES = [
+  "MX",
+  "CO",
+  "AR",
+  "CL",
+  "PE",
+  "EC",
+  "GT",
+  "DO",
+  "US",
+  "GB",
+  "ES",
+] as const;
+
+const COUNTRY_CODE_SET = new Set<string>(COUNTRY_CODES);
+
+/**
+ * Normalise a user-supplied country code (trim + uppercase).
+ * Returns null when the result is not an assigned ISO alpha-2 code.
+ */
+export function normalizeCountryCode(code: string): string | null {
+  const normalized = code.trim().toUpperCase();
+  return COUNTRY_CODE_SET.has(normalized) ? normalized : null;
+}
+
+/**
+ * Localised country name (Spanish by default), falling back to the code
+ * on runtimes without `Intl.DisplayNames` region data.
+ */
+export function getCountryName(code: string, locale: string = "es"): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: "region" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * RouteGenius — Cron Authentication
+ *
+ * Bearer check shared by the cron and metrics routes, which are called
+ * with `Authorization: Bearer <CRON_SECRET>` (what Vercel Cron sends when
+ * the CRON_SECRET env var is set).
+ *
+ * Server-only.
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+
+/**
+ * Whether the request carries the CRON_SECRET bearer token. Always false
+ * when CRON_SECRET is unset. Both sides are hashed before the
+ * constant-time comparison, so their lengths may differ.
+ */
+export function isCronAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get("authorization");
+  if (!secret || !header) return false;
+  const a = createHash("sha256").update(header).digest();
+  const b = createHash("sha256").update(`Bearer ${secret}`).digest();
+  return timingSafeEqual(a, b);
+}
@@ -0,0 +1,160 @@
+/**
+ * RouteGenius — Custom Domains
+ *
+ * Projects can serve their short links from their own hostnames
+ * (e.g. `go.topfinanzas.com/<code>`). Ownership is proven with a DNS TXT
+ * record at `_routegenius.<hostname>` holding the domain's token.
+ *
+ * DNS lookups go through an injectable `TxtResolver`, so verification
+ * can run against a static table locally. No Node-only imports here —
+ * proxy.ts uses `isAppHostname()` too.
+ */
+
+import { generateRandomSlug } from "./slug";
+
+/** Label prepended to the hostname for the verification TXT record. */
+export const VERIFICATION_RECORD_LABEL = "_routegenius";
+
+/** Prefix of the verification TXT record value. */
+export const VERIFICATION_VALUE_PREFIX = "routegenius-verify=";
+
+/** Hostnames the dashboard itself is served from (see lib/auth.ts). */
+const APP_HOSTNAMES = [
+  "localhost",
+  "127.0.0.1",
+  "route-genius.vercel.app",
+  "route.topnetworks.co",
+];
+
+/** Vercel preview deployments are app hosts as well. */
+const APP_HOSTNAME_SUFFIXES = [".vercel.app"];
+
+/** RFC 1123 hostname with at least one dot, labels of 1–63 chars. */
+const HOSTNAME_PATTERN =
+  /^(?=.{4,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Resolves the TXT records of a DNS name — the shape of Node's
+ * `dns.promises.resolveTxt` (each record is a list of chunks).
+ */
+export type TxtResolver = (name: string) => Promise<string[][]>;
+
+export type DomainVerificationResult =
+  | { verified: true }
+  | { verified: false; error: string };
+
+/**
+ * Normalise user input or a Host header to a bare lowercase hostname:
+ * scheme, path, port and a trailing dot are dropped.
+ *
+ * @example
+ * ```ts
+ * normalizeHostname("https://Go.TopFinanzas.com:443/promo"); // → "go.topfinanzas.com"
+ * ```
+ */
+export function normalizeHostname(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, "")
+    .replace(/\.$/, "");
+}
+
+/** Whether a (normalised) hostname is acceptable as a custom domain. */
+export function isValidHostname(hostname: string): boolean {
+  return HOSTNAME_PATTERN.test(hostname) && !isAppHostname(hostname);
+}
+
+/**
+ * Whether a hostname serves the RouteGenius app itself rather than a
+ * project's custom domain.
+ */
+export function isAppHostname(hostname: string): boolean {
+  const host = normalizeHostname(hostname);
+  const configured = [
+    process.env.NEXT_PUBLIC_APP_URL,
+    process.env.BETTER_AUTH_URL,
+  ]
+    .filter((url): url is string => !!url)
+    .map(normalizeHostname);
+
+  return (
+    APP_HOSTNAMES.includes(host) ||
+    configured.includes(host) ||
+    APP_HOSTNAME_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  );
+}
+
+/** Short URL of a code on a custom domain, e.g. "https://go.topfinanzas.com/promo". */
+export function buildCustomDomainUrl(hostname: string, code: string): string {
+  return `https://${hostname}/${encodeURIComponent(code)}`;
+}
+
+/** Generate a new domain verification token. */
+export function generateVerificationToken(): string {
+  return generateRandomSlug(32);
+}
+
+/** DNS name of the verification TXT record for a hostname. */
+export function verificationRecordName(hostname: string): string {
+  return `${VERIFICATION_RECORD_LABEL}.${hostname}`;
+}
+
+/** Expected value of the verification TXT record. */
+export function verificationRecordValue(token: string): string {
+  return `${VERIFICATION_VALUE_PREFIX}${token}`;
+}
+
+/**
+ * Check that the verification TXT record of `hostname` carries `token`.
+ * Lookup failures (NXDOMAIN, timeouts) count as "not verified".
+ */
+export async function verifyDomainTxt(
+  hostname: string,
+  token: string,
+  resolveTxt: TxtResolver,
+): Promise<DomainVerificationResult> {
+  const name = verificationRecordName(hostname);
+  let records: string[][];
+  try {
+    records = await resolveTxt(name);
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    return {
+      verified: false,
+      error:
+        code === "ENOTFOUND" || code === "ENODATA"
+          ? `No se encontró el registro TXT ${name}.`
+          : `No se pudo consultar el DNS de ${name}.`,
+    };
+  }
+
+  const expected = verificationRecordValue(token);
+  if (records.some((chunks) => chunks.join("").trim() === expected)) {
+    return { verified: true };
+  }
+  return {
+    verified: false,
+    error: `El registro TXT ${name} no contiene el valor esperado.`,
+  };
+}
+
+/**
+ * Resolver backed by a fixed table — for local development and tests.
+ * Unknown names fail like a missing DNS record.
+ */
+export function createStaticTxtResolver(
+  records: Record<string, string[]>,
+): TxtResolver {
+  return async (name) => {
+    const values = records[name];
+    if (!values) {
+      throw Object.assign(new Error(`queryTxt ENOTFOUND ${name}`), {
+        code: "ENOTFOUND",
+      });
+    }
+    return values.map((value) => [value]);
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * RouteGenius — App Deep Links
+ *
+ * A link can open an installed mobile app (custom scheme such as
+ * `finapp://offer/1`, or a universal / app link) before falling back to
+ * the App Store / Play Store. Mobile visitors get a small landing page
+ * that attempts the app open; desktop visitors are redirected to the web
+ * destination as usual.
+ *
+ * The outcome is stored in `click_events.deep_link_outcome`: the click is
+ * recorded with its fallback ("store", or "web" without a store URL) and
+ * upgraded to "app" when the landing page reports that the app took over.
+ */
+
+import { escapeHtml, scriptJson } from "./html";
+import type { DeepLinkConfig, DeepLinkOutcome, OperatingSystem } from "./types";
+
+/** How long the landing page waits for the app before falling back (ms). */
+export const DEEP_LINK_FALLBACK_MS = 1500;
+
+/** Endpoint the landing page reports app opens to. */
+export const DEEP_LINK_OUTCOME_PATH = "/api/deep-link";
+
+/** Schemes that must never be used as an app URL. */
+const BLOCKED_APP_SCHEMES = ["javascript:", "data:", "file:", "vbscript:"];
+
+export type DeepLinkConfigResult =
+  | { ok: true; config: DeepLinkConfig | null }
+  | { ok: false; error: string };
+
+/** What the redirect should do for one visitor. */
+export interface DeepLinkPlan {
+  /** App URL to attempt */
+  appUrl: string;
+  /** Store listing to fall back to (null = the web destination) */
+  storeUrl: string | null;
+}
+
+function isValidAppUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return !BLOCKED_APP_SCHEMES.includes(protocol);
+  } catch {
+    return false;
+  }
+}
+
+function isValidWebUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate and normalise a deep-link config from the editor. Values are
+ * trimmed; a config with no fields set becomes `null` (no deep link).
+ */
+export function normalizeDeepLinkConfig(
+  input: Partial<DeepLinkConfig> | null | undefined,
+): DeepLinkConfigResult {
+  if (!input) return { ok: true, config: null };
+
+  const config: DeepLinkConfig = {
+    ios_url: input.ios_url?.trim() || null,
+    android_url: input.android_url?.trim() || null,
+    ios_store_url: input.ios_store_url?.trim() || null,
+    android_store_url: input.android_store_url?.trim() || null,
+  };
+  if (Object.values(config).every((value) => value === null)) {
+    return { ok: true, config: null };
+  }
+
+  if (!config.ios_url && !config.android_url) {
+    return {
+      ok: false,
+      error: "Agregue la URL de la app para iOS o Android.",
+    };
+  }
+  for (const url of [config.ios_url, config.android_url]) {
+    if (url && !isValidAppUrl(url)) {
+      return { ok: false, error: `La URL de la app "${url}" no es válida.` };
+    }
+  }
+  for (const url of [config.ios_store_url, config.android_store_url]) {
+    if (url && !isValidWebUrl(url)) {
+      return {
+        ok: false,
+        error: `La URL de la tienda "${url}" no es válida.`,
+      };
+    }
+  }
+  return { ok: true, config };
+}
+
+/** Read a deep-link config from its JSONB column (invalid → null). */
+export function parseDeepLinkConfig(value: unknown): DeepLinkConfig | null {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!raw || typeof raw !== "object") return null;
+  const result = normalizeDeepLinkConfig(raw as Partial<DeepLinkConfig>);
+  return result.ok ? result.config : null;
+}
+
+/**
+ * The app open to attempt for a visitor's OS, or null when the visitor
+ * should simply be redirected to the web destination (desktop, or no app
+ * URL for this platform).
+ */
+export function resolveDeepLink(
+  config: DeepLinkConfig | null | undefined,
+  os: OperatingSystem | "other",
+): DeepLinkPlan | null {
+  if (!config) return null;
+  if (os === "ios" && config.ios_url) {
+    return { appUrl: config.ios_url, storeUrl: config.ios_store_url };
+  }
+  if (os === "android" && config.android_url) {
+    return { appUrl: config.android_url, storeUrl: config.android_store_url };
+  }
+  return null;
+}
+
+/** Outcome a click is recorded with before the landing page reports back. */
+export function initialDeepLinkOutcome(
+  plan: DeepLinkPlan | null,
+): DeepLinkOutcome {
+  if (!plan) return "web";
+  return plan.storeUrl ? "store" : "web";
+}
+
+/**
+ * Landing page that opens the app and falls back after
+ * `DEEP_LINK_FALLBACK_MS`. If the page is hidden first (the app took
+ * over), it reports the click ID so the outcome becomes "app".
+ *
+ * @param fallbackUrl - Store listing, or the web destination
+ */
+export function renderDeepLinkPage(options: {
+  appUrl: string;
+  fallbackUrl: string;
+  clickId: string;
+}): string {
+  const { appUrl, fallbackUrl, clickId } = options;
+  const data = scriptJson({
+    appUrl,
+    fallbackUrl,
+    clickId,
+    endpoint: DEEP_LINK_OUTCOME_PATH,
+    delay: DEEP_LINK_FALLBACK_MS,
+  });
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex, nofollow">
+<title>Abriendo la app…</title>
+<style>
+body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;font-family:system-ui,-apple-system,sans-serif;background:#f8fafc;color:#1f2937}
+main{text-align:center;padding:24px}
+a{display:inline-block;margin:8px;padding:12px 20px;border-radius:12px;text-decoration:none;font-weight:600;font-size:14px}
+.primary{background:#2563eb;color:#fff}
+.secondary{border:1px solid #e5e7eb;color:#374151}
+</style>
+</head>
+<body>
+<main>
+<p>Abriendo la app…</p>
+<a class="primary" href="${escapeHtml(appUrl)}">Abrir la app</a>
+<a class="secondary" id="fallback" href="${escapeHtml(fallbackUrl)}">Continuar</a>
+</main>
+<script>
+(function () {
+  var d = ${data};
+  var done = false;
+  function reportApp() {
+    if (done) return;
+    done = true;
+    try {
+      navigator.sendBeacon(d.endpoint, new Blob([JSON.stringify({ click_id: d.clickId })], { type: "application/json" }));
+    } catch (e) {}
+  }
+  document.addEventListener("visibilitychange", function () {
+    if (document.hidden) reportApp();
+  });
+  window.addEventListener("pagehide", reportApp);
+  document.getElementById("fallback").addEventListener("click", function () {
+    done = true;
+  });
+  setTimeout(function () {
+    if (done || document.hidden) return;
+    done = true;
+    window.location.replace(d.fallbackUrl);
+  }, d.delay);
+  window.location.href = d.appUrl;
+})();
+</script>
+</body>
+</html>`;
+}
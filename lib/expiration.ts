@@ -0,0 +1,74 @@
+/**
+ * RouteGenius — Link Expiration
+ *
+ * Pure helpers for date- and click-based link expiry. The redirect route
+ * uses `getExpirationReason()` to decide when to flip a link to
+ * `status = "expired"`; the dashboard uses the formatters for badges.
+ */
+
+import type { Link } from "./types";
+
+export type ExpirationReason = "date" | "clicks";
+
+/** Whether a link has a click cap that requires counting its clicks. */
+export function hasClickCap(link: Link): boolean {
+  return typeof link.max_clicks === "number" && link.max_clicks > 0;
+}
+
+/**
+ * Determine whether an enabled link should now be expired.
+ *
+ * @param link - The link being evaluated
+ * @param clickCount - Clicks already recorded for the link (ignored without a cap)
+ * @param now - Clock override (defaults to the current time)
+ * @returns The reason the link is expired, or null if it is still live
+ */
+export function getExpirationReason(
+  link: Link,
+  clickCount: number,
+  now: Date = new Date(),
+): ExpirationReason | null {
+  if (link.expires_at) {
+    const expiresAt = new Date(link.expires_at).getTime();
+    if (!Number.isNaN(expiresAt) && now.getTime() >= expiresAt) {
+      return "date";
+    }
+  }
+
+  if (hasClickCap(link) && clickCount >= (link.max_clicks as number)) {
+    return "clicks";
+  }
+
+  return null;
+}
+
+/** Clicks left before the cap is reached (null when the link has no cap). */
+export function getRemainingClicks(
+  link: Link,
+  clickCount: number,
+): number | null {
+  if (!hasClickCap(link)) return null;
+  return Math.max(0, (link.max_clicks as number) - clickCount);
+}
+
+/**
+ * Compact Spanish countdown for a remaining duration.
+ *
+ * @example
+ * ```ts
+ * formatCountdown(3 * 86_400_000 + 4 * 3_600_000); // → "3 d 4 h"
+ * formatCountdown(25 * 60_000);                    // → "25 min"
+ * ```
+ */
+export function formatCountdown(ms: number): string {
+  if (ms <= 0) return "0 min";
+
+  const minutes = Math.floor(ms / 60_000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+
+  if (days > 0) return hours > 0 ? `${days} d ${hours} h` : `${days} d`;
+  if (hours > 0) return mins > 0 ? `${hours} h ${mins} min` : `${hours} h`;
+  return `${Math.max(1, mins)} min`;
+}
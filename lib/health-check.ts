@@ -0,0 +1,231 @@
+/**
+ * RouteGenius — Destination Health Checks
+ *
+ * Probes every destination of the active links and tracks a small state
+ * machine per destination: after `UNHEALTHY_AFTER_FAILURES` consecutive
+ * failed probes it turns "unhealthy" (and unhealthy secondaries drop out
+ * of rotation, see lib/rotation.ts), after `HEALTHY_AFTER_SUCCESSES`
+ * consecutive successful probes it recovers.
+ *
+ * Network access goes through an injectable `FetchLike`, so the checker
+ * can be exercised against a local HTTP stub or a fake. Persistence is
+ * left to the caller (`app/api/cron/health-check`).
+ */
+
+import type { DestinationHealth, Link } from "./types";
+import { MAIN_DESTINATION_KEY } from "./bandit";
+import { expandMacros } from "./macros";
+
+/** Minimal `fetch` signature the checker depends on. */
+export type FetchLike = (
+  input: string,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/** Per-probe timeout. */
+export const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+
+/** Consecutive failures before a destination is marked unhealthy. */
+export const UNHEALTHY_AFTER_FAILURES = 3;
+
+/** Consecutive successes before an unhealthy destination recovers. */
+export const HEALTHY_AFTER_SUCCESSES = 2;
+
+/** Probes running at once. */
+const DEFAULT_CONCURRENCY = 8;
+
+const HEALTH_CHECK_USER_AGENT = "RouteGenius-HealthCheck/1.0";
+
+/** One destination of one link to probe. */
+export interface HealthCheckTarget {
+  link_id: string;
+  /** Rotation rule ID, or "main" for the main destination */
+  destination_key: string;
+  url: string;
+}
+
+/** Outcome of a single probe. */
+export interface ProbeResult {
+  ok: boolean;
+  status_code: number | null;
+  latency_ms: number;
+  error: string | null;
+}
+
+export interface HealthCheckOptions {
+  /** HTTP client (default: global fetch) */
+  fetch?: FetchLike;
+  timeoutMs?: number;
+  concurrency?: number;
+  /** Clock for `last_checked_at` (default: current time) */
+  now?: () => Date;
+}
+
+/**
+ * Destinations of a link worth probing: the main URL and every secondary
+ * with a URL and weight. Macros are expanded with empty values / defaults.
+ */
+export function listHealthCheckTargets(link: Link): HealthCheckTarget[] {
+  const targets: HealthCheckTarget[] = [];
+  if (link.main_destination_url.trim()) {
+    targets.push({
+      link_id: link.id,
+      destination_key: MAIN_DESTINATION_KEY,
+      url: expandMacros(link.main_destination_url.trim(), {}),
+    });
+  }
+  if (link.rotation_enabled) {
+    for (const rule of link.rotation_rules) {
+      if (!rule.destination_url.trim() || rule.weight_percentage <= 0) continue;
+      targets.push({
+        link_id: link.id,
+        destination_key: rule.id,
+        url: expandMacros(rule.destination_url.trim(), {}),
+      });
+    }
+  }
+  return targets;
+}
+
+/**
+ * Probe a URL: HEAD first, falling back to GET for servers that reject
+ * HEAD. Redirects are followed; any final status below 400 is healthy.
+ */
+export async function probeDestination(
+  url: string,
+  options: Pick<HealthCheckOptions, "fetch" | "timeoutMs"> = {},
+): Promise<ProbeResult> {
+  const doFetch = options.fetch ?? fetch;
+  const timeoutMs = options.timeoutMs ?? HEALTH_CHECK_TIMEOUT_MS;
+  const started = Date.now();
+
+  const request = async (method: "HEAD" | "GET") => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await doFetch(url, {
+        method,
+        redirect: "follow",
+        signal: controller.signal,
+        headers: { "user-agent": HEALTH_CHECK_USER_AGENT },
+        cache: "no-store",
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  try {
+    let response = await request("HEAD");
+    if (response.status === 405 || response.status === 501) {
+      response = await request("GET");
+    }
+    // Don't download bodies we never read
+    await response.body?.cancel().catch(() => {});
+    const ok = response.status >= 200 && response.status < 400;
+    return {
+      ok,
+      status_code: response.status,
+      latency_ms: Date.now() - started,
+      error: ok ? null : `HTTP ${response.status}`,
+    };
+  } catch (err) {
+    const aborted = err instanceof Error && err.name === "AbortError";
+    return {
+      ok: false,
+      status_code: null,
+      latency_ms: Date.now() - started,
+      error: aborted
+        ? `Timeout (${timeoutMs} ms)`
+        : err instanceof Error
+          ? err.message
+          : String(err),
+    };
+  }
+}
+
+/**
+ * Fold a probe result into a destination's health record. History is
+ * discarded when the destination URL changed since the last check.
+ */
+export function nextHealthState(
+  target: HealthCheckTarget,
+  previous: DestinationHealth | undefined,
+  probe: ProbeResult,
+  checkedAt: Date,
+): DestinationHealth {
+  const prev = previous?.url === target.url ? previous : undefined;
+  const failures = probe.ok ? 0 : (prev?.consecutive_failures ?? 0) + 1;
+  const successes = probe.ok ? (prev?.consecutive_successes ?? 0) + 1 : 0;
+
+  let status = prev?.status ?? "healthy";
+  if (failures >= UNHEALTHY_AFTER_FAILURES) status = "unhealthy";
+  if (status === "unhealthy" && successes >= HEALTHY_AFTER_SUCCESSES) {
+    status = "healthy";
+  }
+
+  return {
+    ...target,
+    status,
+    status_code: probe.status_code,
+    latency_ms: probe.latency_ms,
+    error: probe.error,
+    consecutive_failures: failures,
+    consecutive_successes: successes,
+    last_checked_at: checkedAt.toISOString(),
+  };
+}
+
+/** Key of a destination health record: `<link_id>:<destination_key>`. */
+export function healthKey(
+  target: Pick<HealthCheckTarget, "link_id" | "destination_key">,
+): string {
+  return `${target.link_id}:${target.destination_key}`;
+}
+
+/**
+ * Probe all destinations of the given links and return their updated
+ * health records. A URL shared by several links is probed once per run.
+ *
+ * @param previous - Current records keyed by `healthKey()`
+ */
+export async function runHealthChecks(
+  links: Link[],
+  previous: Record<string, DestinationHealth>,
+  options: HealthCheckOptions = {},
+): Promise<DestinationHealth[]> {
+  const targets = links.flatMap(listHealthCheckTargets);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const now = options.now ?? (() => new Date());
+
+  const probes = new Map<string, Promise<ProbeResult>>();
+  const probeOnce = (url: string) => {
+    let probe = probes.get(url);
+    if (!probe) {
+      probe = probeDestination(url, options);
+      probes.set(url, probe);
+    }
+    return probe;
+  };
+
+  const results: DestinationHealth[] = new Array(targets.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < targets.length) {
+      const index = next++;
+      const target = targets[index];
+      const probe = await probeOnce(target.url);
+      results[index] = nextHealthState(
+        target,
+        previous[healthKey(target)],
+        probe,
+        now(),
+      );
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, targets.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,23 @@
+/**
+ * RouteGenius — HTML Helpers
+ *
+ * Escaping for the small HTML pages the redirect serves instead of a 307
+ * (deep-link landing page, link previews, client-side redirects).
+ */
+
+/** Escape text for an HTML element or double-quoted attribute. */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** JSON that is safe inside an inline `<script>`. */
+export function scriptJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
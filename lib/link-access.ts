@@ -0,0 +1,166 @@
+/**
+ * RouteGenius — Protected Links
+ *
+ * Links can require a password and/or show a click-to-continue
+ * interstitial. Gated links are answered by the public `/unlock/[linkId]`
+ * page; once the visitor passes, a signed short-lived cookie lets the
+ * redirect run (rotation and click logging happen only then).
+ *
+ * Passwords are stored as salted scrypt hashes (`links.password_hash`).
+ *
+ * Server-only — uses Node's crypto.
+ */
+
+import {
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  type BinaryLike,
+} from "crypto";
+import type { Link } from "./types";
+
+/** How long an unlock stays valid (10 minutes). */
+export const UNLOCK_TTL_SECONDS = 10 * 60;
+
+export const MIN_LINK_PASSWORD_LENGTH = 4;
+export const MAX_LINK_PASSWORD_LENGTH = 128;
+
+/** scrypt output length in bytes. */
+const HASH_LENGTH = 32;
+
+/**
+ * Redirect paths the unlock page may send visitors back to:
+ * `/api/redirect/<id>`, `/r/<code>` and `/<code>` (custom domains).
+ */
+const RETURN_PATH_PATTERN = /^\/(r\/|api\/redirect\/)?[A-Za-z0-9_-]+(\?.*)?$/;
+
+function scryptAsync(password: BinaryLike, salt: BinaryLike): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, HASH_LENGTH, (err, key) =>
+      err ? reject(err) : resolve(key),
+    );
+  });
+}
+
+/** Hash a link password as `scrypt$<salt>$<hash>` (base64url). */
+export async function hashLinkPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+/** Check a password against a stored hash (constant-time). */
+export async function verifyLinkPassword(
+  password: string,
+  stored: string | null | undefined,
+): Promise<boolean> {
+  const [scheme, salt, hash] = stored?.split("$") ?? [];
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64url"));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Whether a link must be unlocked before it redirects. */
+export function isGatedLink(
+  link: Pick<Link, "password_protected" | "interstitial">,
+): boolean {
+  return !!link.password_protected || !!link.interstitial;
+}
+
+// ── Unlock Cookie ───────────────────────────────────────────────
+
+let fallbackSecret: string | null = null;
+
+/**
+ * Signing key for unlock cookies. Required in production, where cookies
+ * signed by one instance must verify on the others. In development a
+ * random per-process key stands in — unlocks then don't survive restarts.
+ */
+function getUnlockSecret(): string {
+  const secret = process.env.LINK_UNLOCK_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("LINK_UNLOCK_SECRET is not set");
+  }
+  if (!fallbackSecret) {
+    console.warn(
+      "[RouteGenius] LINK_UNLOCK_SECRET is not set — using a per-process key",
+    );
+    fallbackSecret = randomBytes(32).toString("hex");
+  }
+  return fallbackSecret;
+}
+
+function signUnlock(linkId: string, expiresAt: number): string {
+  return createHmac("sha256", getUnlockSecret())
+    .update(`${linkId}.${expiresAt}`)
+    .digest("base64url");
+}
+
+/** Name of the cookie that unlocks a link. */
+export function unlockCookieName(linkId: string): string {
+  return `rg_unlock_${linkId}`;
+}
+
+/**
+ * Create an unlock token for a link: `<expires epoch seconds>.<signature>`.
+ *
+ * @param now - Clock override in epoch milliseconds (defaults to Date.now())
+ */
+export function createUnlockToken(
+  linkId: string,
+  now: number = Date.now(),
+): string {
+  const expiresAt = Math.floor(now / 1000) + UNLOCK_TTL_SECONDS;
+  return `${expiresAt}.${signUnlock(linkId, expiresAt)}`;
+}
+
+/** Whether an unlock token is genuine, for this link, and not expired. */
+export function verifyUnlockToken(
+  linkId: string,
+  token: string | null | undefined,
+  now: number = Date.now(),
+): boolean {
+  const [expires, signature] = token?.split(".") ?? [];
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt)) return false;
+  if (expiresAt <= Math.floor(now / 1000)) return false;
+
+  const expected = Buffer.from(signUnlock(linkId, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ── Unlock Page ─────────────────────────────────────────────────
+
+/** Whether a path is a redirect route the unlock page may return to. */
+export function isSafeReturnPath(path: string): boolean {
+  return RETURN_PATH_PATTERN.test(path);
+}
+
+/** Path of the unlock page for a link, returning to `returnTo` afterwards. */
+export function buildUnlockPath(linkId: string, returnTo: string): string {
+  return `/unlock/${linkId}?next=${encodeURIComponent(returnTo)}`;
+}
+
+/**
+ * Hostnames a link may send visitors to: the main destination plus, with
+ * rotation on, its secondaries. Shown on the interstitial.
+ */
+export function getDestinationHostnames(link: Link): string[] {
+  const urls = [link.main_destination_url];
+  if (link.rotation_enabled) {
+    urls.push(...link.rotation_rules.map((rule) => rule.destination_url));
+  }
+  const hostnames = new Set<string>();
+  for (const url of urls) {
+    try {
+      hostnames.add(new URL(url).hostname);
+    } catch {
+      // Skip malformed or template-only URLs
+    }
+  }
+  return [...hostnames];
+}
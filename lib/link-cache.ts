@@ -0,0 +1,261 @@
+/**
+ * RouteGenius — Redirect Link Cache
+ *
+ * In-process TTL + LRU cache of the links resolved by the redirect route,
+ * so campaign bursts don't query Cloud SQL for the same link on every click.
+ *
+ * - Bounded by entry count and by approximate size (JSON length), whichever
+ *   is hit first; least recently used links are evicted.
+ * - `saveLink`, `archiveLink`, `deleteLink` and the other link/project
+ *   writers in lib/mock-data.ts invalidate entries on this instance. Other
+ *   instances pick changes up when their entry expires (`LINK_CACHE_TTL_SECONDS`).
+ * - Optional stale-while-revalidate: within `LINK_CACHE_STALE_SECONDS` after
+ *   expiry the stale link is served and refreshed in the background.
+ * - Concurrent misses for one link share a single query.
+ * - Short codes (`/r/:code`, custom domains) are cached with the same TTL,
+ *   mapped to their link ID. They are dropped with their link, and custom
+ *   domain codes when the domain is removed.
+ *
+ * Missing links and unknown codes are not cached. Counters are per process.
+ */
+
+import type { Link } from "./types";
+
+export interface LinkCacheStats {
+  hits: number;
+  /** Expired entries served while being refreshed */
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+  /** Entries currently cached */
+  size: number;
+  /** Approximate size of the cached links in bytes */
+  bytes: number;
+  /** Short codes currently cached */
+  codes: number;
+  /** hits + staleHits over all lookups (0 when there were none) */
+  hitRate: number;
+  config: {
+    ttlSeconds: number;
+    staleSeconds: number;
+    maxEntries: number;
+    maxBytes: number;
+  };
+}
+
+interface CacheEntry {
+  link: Link;
+  bytes: number;
+  expiresAt: number;
+}
+
+interface CodeEntry {
+  linkId: string;
+  /** Custom domain the code was resolved on (null: app hostname) */
+  hostname: string | null;
+  expiresAt: number;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+/** Fresh lifetime of an entry (0 disables the cache). */
+const TTL_MS = readNumberEnv("LINK_CACHE_TTL_SECONDS", 30) * 1000;
+/** How long after expiry a stale entry may still be served (0 = off). */
+const STALE_MS = readNumberEnv("LINK_CACHE_STALE_SECONDS", 0) * 1000;
+const MAX_ENTRIES = readNumberEnv("LINK_CACHE_MAX_ENTRIES", 1000);
+const MAX_BYTES = readNumberEnv("LINK_CACHE_MAX_BYTES", 8 * 1024 * 1024);
+
+/** Insertion order doubles as recency: the first key is the LRU entry. */
+const entries = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<Link | undefined>>();
+/** Keyed by `<hostname>/<code>` (empty hostname: app hostname). */
+const codeEntries = new Map<string, CodeEntry>();
+let totalBytes = 0;
+/** Bumped on every invalidation so loads started before it aren't stored. */
+let generation = 0;
+
+const counters = {
+  hits: 0,
+  staleHits: 0,
+  misses: 0,
+  evictions: 0,
+  invalidations: 0,
+};
+
+function removeEntry(linkId: string): void {
+  const entry = entries.get(linkId);
+  if (!entry) return;
+  entries.delete(linkId);
+  totalBytes -= entry.bytes;
+}
+
+function storeEntry(link: Link): void {
+  const bytes = JSON.stringify(link).length * 2;
+  removeEntry(link.id);
+  if (bytes > MAX_BYTES) return;
+
+  entries.set(link.id, { link, bytes, expiresAt: Date.now() + TTL_MS });
+  totalBytes += bytes;
+
+  while (entries.size > MAX_ENTRIES || totalBytes > MAX_BYTES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    removeEntry(oldest);
+    counters.evictions++;
+  }
+}
+
+/** Load a link once, however many requests miss at the same time. */
+function load(
+  linkId: string,
+  loader: (id: string) => Promise<Link | undefined>,
+): Promise<Link | undefined> {
+  const pending = inflight.get(linkId);
+  if (pending) return pending;
+
+  const startedAt = generation;
+  const promise = loader(linkId)
+    .then((link) => {
+      if (!link) removeEntry(linkId);
+      else if (startedAt === generation) storeEntry(link);
+      return link;
+    })
+    .finally(() => inflight.delete(linkId));
+  inflight.set(linkId, promise);
+  return promise;
+}
+
+/**
+ * The link for a redirect, from the cache when possible. Callers get their
+ * own copy — the redirect flips `status` on expiry without touching the
+ * cached entry.
+ *
+ * @param loader - Database lookup used on a miss (`getLinkForRedirect`)
+ */
+export async function getCachedLink(
+  linkId: string,
+  loader: (id: string) => Promise<Link | undefined>,
+): Promise<Link | undefined> {
+  if (TTL_MS === 0) return loader(linkId);
+
+  const entry = entries.get(linkId);
+  const now = Date.now();
+
+  if (entry && entry.expiresAt > now) {
+    counters.hits++;
+    entries.delete(linkId);
+    entries.set(linkId, entry);
+    return { ...entry.link };
+  }
+
+  if (entry && STALE_MS > 0 && entry.expiresAt + STALE_MS > now) {
+    counters.staleHits++;
+    load(linkId, loader).catch((err) => {
+      console.error("[RouteGenius] Link cache refresh failed:", err);
+    });
+    return { ...entry.link };
+  }
+
+  counters.misses++;
+  const link = await load(linkId, loader);
+  return link ? { ...link } : undefined;
+}
+
+/**
+ * The link ID a short code resolves to, from the cache when possible.
+ *
+ * @param hostname - Custom domain the code is requested on (null: app hostname)
+ * @param loader - Database lookup used on a miss
+ */
+export async function getCachedLinkIdByCode(
+  hostname: string | null,
+  code: string,
+  loader: () => Promise<string | undefined>,
+): Promise<string | undefined> {
+  if (TTL_MS === 0) return loader();
+
+  const key = `${hostname ?? ""}/${code}`;
+  const entry = codeEntries.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    counters.hits++;
+    codeEntries.delete(key);
+    codeEntries.set(key, entry);
+    return entry.linkId;
+  }
+
+  counters.misses++;
+  const startedAt = generation;
+  const linkId = await loader();
+  codeEntries.delete(key);
+  if (linkId && startedAt === generation) {
+    codeEntries.set(key, {
+      linkId,
+      hostname,
+      expiresAt: Date.now() + TTL_MS,
+    });
+    if (codeEntries.size > MAX_ENTRIES) {
+      const oldest = codeEntries.keys().next().value;
+      if (oldest !== undefined) codeEntries.delete(oldest);
+      counters.evictions++;
+    }
+  }
+  return linkId;
+}
+
+/**
+ * Drop one link and its short codes from the cache (after it was saved,
+ * archived, deleted…).
+ */
+export function invalidateCachedLink(linkId: string): void {
+  generation++;
+  counters.invalidations++;
+  removeEntry(linkId);
+  for (const [key, entry] of codeEntries) {
+    if (entry.linkId === linkId) codeEntries.delete(key);
+  }
+}
+
+/** Drop the short codes cached for a custom domain (after it was removed). */
+export function invalidateCachedHostname(hostname: string): void {
+  generation++;
+  counters.invalidations++;
+  for (const [key, entry] of codeEntries) {
+    if (entry.hostname === hostname) codeEntries.delete(key);
+  }
+}
+
+/**
+ * Drop every cached link of a project — links inherit the project's
+ * passthrough policy and pixels.
+ */
+export function invalidateCachedProject(projectId: string): void {
+  generation++;
+  counters.invalidations++;
+  for (const [linkId, entry] of entries) {
+    if (entry.link.project_id === projectId) removeEntry(linkId);
+  }
+}
+
+/** Current counters and configuration of this process's cache. */
+export function getLinkCacheStats(): LinkCacheStats {
+  const lookups = counters.hits + counters.staleHits + counters.misses;
+  return {
+    ...counters,
+    size: entries.size,
+    bytes: totalBytes,
+    codes: codeEntries.size,
+    hitRate: lookups > 0 ? (counters.hits + counters.staleHits) / lookups : 0,
+    config: {
+      ttlSeconds: TTL_MS / 1000,
+      staleSeconds: STALE_MS / 1000,
+      maxEntries: MAX_ENTRIES,
+      maxBytes: MAX_BYTES,
+    },
+  };
+}
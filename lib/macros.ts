@@ -0,0 +1,86 @@
+/**
+ * RouteGenius — Destination URL Macros
+ *
+ * Destination URLs may contain `{name}` placeholders that are expanded
+ * at redirect time, e.g.
+ *
+ *   https://offer.com/?sub={click_id}&c={country}&src={utm_source|organic}
+ *
+ * Built-in macros describe the click (see `BUILTIN_MACROS`); any other
+ * name is read from the incoming request's query string. `{name|default}`
+ * supplies a fallback for missing or empty values. Every value is
+ * URL-encoded, so it cannot break out of its query parameter.
+ *
+ * Safe to import from client components (used by the editor preview).
+ */
+
+/** Macros that are always available, with a Spanish description. */
+export const BUILTIN_MACROS = {
+  click_id: "ID único del clic",
+  link_id: "ID del enlace",
+  country: "Código de país (ISO, p. ej. ES)",
+  device: "Dispositivo: mobile, tablet o desktop",
+  os: "Sistema operativo",
+  browser: "Navegador",
+  timestamp: "Marca de tiempo Unix (segundos)",
+} as const;
+
+export type BuiltinMacro = keyof typeof BUILTIN_MACROS;
+
+/** Values macros expand to; `null` / `undefined` / "" fall back to the default. */
+export type MacroValues = Record<string, string | null | undefined>;
+
+/** `{name}` or `{name|default}` — names follow query parameter conventions. */
+const MACRO_PATTERN = /\{([A-Za-z_][A-Za-z0-9_.-]*)(?:\|([^{}]*))?\}/g;
+
+/** Whether a destination URL contains any macros. */
+export function hasMacros(url: string): boolean {
+  return new RegExp(MACRO_PATTERN.source).test(url);
+}
+
+/** Macro names used in a destination URL, in order of first appearance. */
+export function listMacros(url: string): string[] {
+  const names = new Set<string>();
+  for (const match of url.matchAll(MACRO_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Combine built-in click values with the incoming query string. Built-ins
+ * win, so a visitor can't override `{click_id}` or `{country}` via
+ * `?click_id=…`.
+ */
+export function buildMacroValues(
+  builtins: Partial<Record<BuiltinMacro, string | null>>,
+  searchParams?: URLSearchParams,
+): MacroValues {
+  const values: MacroValues = {};
+  searchParams?.forEach((value, key) => {
+    if (!(key in values)) values[key] = value;
+  });
+  return { ...values, ...builtins };
+}
+
+/**
+ * Expand the macros in a destination URL.
+ *
+ * @example
+ * ```ts
+ * expandMacros("https://offer.com/?src={utm_source|organic}&c={country}", {
+ *   country: "ES",
+ * });
+ * // → "https://offer.com/?src=organic&c=ES"
+ * ```
+ */
+export function expandMacros(template: string, values: MacroValues): string {
+  if (!template.includes("{")) return template;
+  return template.replace(
+    MACRO_PATTERN,
+    (_match, name: string, fallback: string | undefined) => {
+      const value = values[name];
+      return encodeURIComponent(value ? value : (fallback ?? ""));
+    },
+  );
+}
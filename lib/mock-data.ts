@@ -7,11 +7,36 @@
  * Migrated from Supabase JS client to direct `pg` Pool (March 2026).
  */
 
-import type { Link, Project, LinkSearchCriteria } from "./types";
+import type {
+  DestinationHealth,
+  DestinationStats,
+  Link,
+  Project,
+  ProjectDomain,
+  LinkSearchCriteria,
+} from "./types";
 import { getPool } from "./db";
 import { generateUniqueProjectSlug } from "./slug";
-
-const DEFAULT_WORKSPACE = "ws_topnetworks_default";
+import { DEFAULT_STICKINESS_TTL_SECONDS } from "./stickiness";
+import {
+  DEFAULT_OPTIMIZE_FLOOR_PERCENTAGE,
+  MAIN_DESTINATION_KEY,
+} from "./bandit";
+import { isClickId } from "./click-id";
+import { generateShortCode } from "./short-code";
+import { parsePassthroughPolicy } from "./passthrough";
+import { parseDeepLinkConfig } from "./deep-link";
+import { DEFAULT_REDIRECT_TYPE, isRedirectType } from "./redirect-type";
+import { parseTrackingPixels } from "./tracking-pixels";
+import { parseRateLimitPolicy } from "./rate-limit-policy";
+import {
+  invalidateCachedHostname,
+  invalidateCachedLink,
+  invalidateCachedProject,
+} from "./link-cache";
+import { invalidateCachedBotPatterns } from "./bot-filter";
+
+export const DEFAULT_WORKSPACE = "ws_topnetworks_default";
 
 // ── Row Mappers ───────────────────────────────────────────────
 
@@ -32,6 +57,9 @@ function mapProjectRow(row: Record<string, unknown>): Project {
       : typeof row.tags === "string"
         ? JSON.parse(row.tags)
         : [],
+    param_passthrough: parsePassthroughPolicy(row.param_passthrough),
+    tracking_pixels: parseTrackingPixels(row.tracking_pixels),
+    rate_limit: parseRateLimitPolicy(row.rate_limit),
     archived: !!row.archived,
     created_at: (row.created_at as string) || new Date().toISOString(),
     updated_at: (row.updated_at as string) || new Date().toISOString(),
@@ -65,6 +93,38 @@ function mapLinkRow(row: Record<string, unknown>): Link {
     status: (row.status as Link["status"]) || "enabled",
     rotation_enabled: row.rotation_enabled !== false,
     rotation_rules: rules as Link["rotation_rules"],
+    stickiness: (row.stickiness as Link["stickiness"]) || "none",
+    stickiness_ttl_seconds:
+      Number(row.stickiness_ttl_seconds) || DEFAULT_STICKINESS_TTL_SECONDS,
+    expires_at:
+      row.expires_at instanceof Date
+        ? row.expires_at.toISOString()
+        : (row.expires_at as string) || null,
+    max_clicks: row.max_clicks != null ? Number(row.max_clicks) : null,
+    expired_redirect_url: (row.expired_redirect_url as string) || null,
+    bot_destination_url: (row.bot_destination_url as string) || null,
+    password_protected: !!row.password_hash,
+    interstitial: !!row.interstitial,
+    deep_link: parseDeepLinkConfig(row.deep_link),
+    redirect_type: isRedirectType(row.redirect_type)
+      ? row.redirect_type
+      : DEFAULT_REDIRECT_TYPE,
+    og_title: (row.og_title as string) || null,
+    og_description: (row.og_description as string) || null,
+    og_image_url: (row.og_image_url as string) || null,
+    cap_redistribution:
+      (row.cap_redistribution as Link["cap_redistribution"]) || "proportional",
+    rotation_strategy:
+      (row.rotation_strategy as Link["rotation_strategy"]) || "fixed",
+    optimize_floor_percentage:
+      row.optimize_floor_percentage != null
+        ? Number(row.optimize_floor_percentage)
+        : DEFAULT_OPTIMIZE_FLOOR_PERCENTAGE,
+    click_id_param: (row.click_id_param as string) || null,
+    param_passthrough: parsePassthroughPolicy(row.param_passthrough),
+    tracking_pixels: parseTrackingPixels(row.tracking_pixels),
+    rate_limit: parseRateLimitPolicy(row.rate_limit),
+    short_code: (row.short_code as string) || null,
     archived: !!row.archived,
     created_at: (row.created_at as string) || new Date().toISOString(),
     updated_at: (row.updated_at as string) || new Date().toISOString(),
@@ -214,8 +274,8 @@ export async function saveProject(project: Project): Promise<void> {
   project.updated_at = new Date().toISOString();
 
   await getPool().query(
-    `INSERT INTO projects (id, workspace_id, user_id, name, title, description, tags, archived, created_at, updated_at)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `INSERT INTO projects (id, workspace_id, user_id, name, title, description, tags, archived, created_at, updated_at, param_passthrough, tracking_pixels, rate_limit)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
      ON CONFLICT (id) DO UPDATE SET
        workspace_id = EXCLUDED.workspace_id,
        user_id = EXCLUDED.user_id,
@@ -225,7 +285,10 @@ export async function saveProject(project: Project): Promise<void> {
        tags = EXCLUDED.tags,
        archived = EXCLUDED.archived,
        created_at = EXCLUDED.created_at,
-       updated_at = EXCLUDED.updated_at`,
+       updated_at = EXCLUDED.updated_at,
+       param_passthrough = EXCLUDED.param_passthrough,
+       tracking_pixels = EXCLUDED.tracking_pixels,
+       rate_limit = EXCLUDED.rate_limit`,
     [
       project.id,
       project.workspace_id,
@@ -237,8 +300,14 @@ export async function saveProject(project: Project): Promise<void> {
       project.archived,
       project.created_at,
       project.updated_at,
+      project.param_passthrough
+        ? JSON.stringify(project.param_passthrough)
+        : null,
+      project.tracking_pixels ? JSON.stringify(project.tracking_pixels) : null,
+      project.rate_limit ? JSON.stringify(project.rate_limit) : null,
     ],
   );
+  invalidateCachedProject(project.id);
 }
 
 export async function deleteProject(id: string, userId: string): Promise<void> {
@@ -247,6 +316,7 @@ export async function deleteProject(id: string, userId: string): Promise<void> {
     id,
     userId,
   ]);
+  invalidateCachedProject(id);
 }
 
 export async function archiveProject(
@@ -267,6 +337,7 @@ export async function archiveProject(
     `UPDATE links SET archived = true, updated_at = $1 WHERE project_id = $2 AND user_id = $3`,
     [now, id, userId],
   );
+  invalidateCachedProject(id);
 }
 
 export async function unarchiveProject(
@@ -287,6 +358,7 @@ export async function unarchiveProject(
     `UPDATE links SET archived = false, updated_at = $1 WHERE project_id = $2 AND user_id = $3`,
     [now, id, userId],
   );
+  invalidateCachedProject(id);
 }
 
 // ── Link CRUD ─────────────────────────────────────────────────
@@ -317,11 +389,26 @@ export async function getLinkForRedirect(
 ): Promise<Link | undefined> {
   try {
     const { rows } = await getPool().query(
-      `SELECT * FROM links WHERE id = $1 LIMIT 1`,
+      `SELECT l.*, p.param_passthrough AS project_param_passthrough,
+              p.tracking_pixels AS project_tracking_pixels,
+              p.rate_limit AS project_rate_limit
+       FROM links l
+       LEFT JOIN projects p ON p.id = l.project_id
+       WHERE l.id = $1 LIMIT 1`,
       [id],
     );
     if (rows.length === 0) return undefined;
-    return mapLinkRow(rows[0]);
+    const link = mapLinkRow(rows[0]);
+    // Links without their own passthrough policy, pixels or rate limit
+    // inherit the project's
+    link.param_passthrough ??= parsePassthroughPolicy(
+      rows[0].project_param_passthrough,
+    );
+    link.tracking_pixels ??= parseTrackingPixels(
+      rows[0].project_tracking_pixels,
+    );
+    link.rate_limit ??= parseRateLimitPolicy(rows[0].project_rate_limit);
+    return link;
   } catch (err) {
     console.error("[RouteGenius] Error fetching link for redirect:", err);
     return undefined;
@@ -332,8 +419,8 @@ export async function saveLink(link: Link): Promise<void> {
   link.updated_at = new Date().toISOString();
 
   await getPool().query(
-    `INSERT INTO links (id, workspace_id, user_id, project_id, title, description, main_destination_url, nickname, status, rotation_enabled, rotation_rules, archived, created_at, updated_at)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+    `INSERT INTO links (id, workspace_id, user_id, project_id, title, description, main_destination_url, nickname, status, rotation_enabled, rotation_rules, archived, created_at, updated_at, stickiness, stickiness_ttl_seconds, expires_at, max_clicks, expired_redirect_url, cap_redistribution, rotation_strategy, optimize_floor_percentage, click_id_param, param_passthrough, bot_destination_url, interstitial, deep_link, og_title, og_description, og_image_url, redirect_type, tracking_pixels, rate_limit)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33)
      ON CONFLICT (id) DO UPDATE SET
        workspace_id = EXCLUDED.workspace_id,
        user_id = EXCLUDED.user_id,
@@ -347,7 +434,26 @@ export async function saveLink(link: Link): Promise<void> {
        rotation_rules = EXCLUDED.rotation_rules,
        archived = EXCLUDED.archived,
        created_at = EXCLUDED.created_at,
-       updated_at = EXCLUDED.updated_at`,
+       updated_at = EXCLUDED.updated_at,
+       stickiness = EXCLUDED.stickiness,
+       stickiness_ttl_seconds = EXCLUDED.stickiness_ttl_seconds,
+       expires_at = EXCLUDED.expires_at,
+       max_clicks = EXCLUDED.max_clicks,
+       expired_redirect_url = EXCLUDED.expired_redirect_url,
+       cap_redistribution = EXCLUDED.cap_redistribution,
+       rotation_strategy = EXCLUDED.rotation_strategy,
+       optimize_floor_percentage = EXCLUDED.optimize_floor_percentage,
+       click_id_param = EXCLUDED.click_id_param,
+       param_passthrough = EXCLUDED.param_passthrough,
+       bot_destination_url = EXCLUDED.bot_destination_url,
+       interstitial = EXCLUDED.interstitial,
+       deep_link = EXCLUDED.deep_link,
+       og_title = EXCLUDED.og_title,
+       og_description = EXCLUDED.og_description,
+       og_image_url = EXCLUDED.og_image_url,
+       redirect_type = EXCLUDED.redirect_type,
+       tracking_pixels = EXCLUDED.tracking_pixels,
+       rate_limit = EXCLUDED.rate_limit`,
     [
       link.id,
       link.workspace_id,
@@ -363,8 +469,62 @@ export async function saveLink(link: Link): Promise<void> {
       link.archived,
       link.created_at,
       link.updated_at,
+      link.stickiness ?? "none",
+      link.stickiness_ttl_seconds ?? DEFAULT_STICKINESS_TTL_SECONDS,
+      link.expires_at || null,
+      link.max_clicks ?? null,
+      link.expired_redirect_url || null,
+      link.cap_redistribution ?? "proportional",
+      link.rotation_strategy ?? "fixed",
+      link.optimize_floor_percentage ?? DEFAULT_OPTIMIZE_FLOOR_PERCENTAGE,
+      link.click_id_param || null,
+      link.param_passthrough ? JSON.stringify(link.param_passthrough) : null,
+      link.bot_destination_url || null,
+      link.interstitial ?? false,
+      link.deep_link ? JSON.stringify(link.deep_link) : null,
+      link.og_title || null,
+      link.og_description || null,
+      link.og_image_url || null,
+      link.redirect_type ?? DEFAULT_REDIRECT_TYPE,
+      link.tracking_pixels ? JSON.stringify(link.tracking_pixels) : null,
+      link.rate_limit ? JSON.stringify(link.rate_limit) : null,
     ],
   );
+  invalidateCachedLink(link.id);
+}
+
+/**
+ * Mark a link as expired from the public redirect endpoint.
+ * No user filtering — called when a link hits its date or click cap.
+ */
+export async function expireLink(id: string): Promise<void> {
+  await getPool().query(
+    `UPDATE links SET status = 'expired', updated_at = $1 WHERE id = $2 AND status = 'enabled'`,
+    [new Date().toISOString(), id],
+  );
+  invalidateCachedLink(id);
+}
+
+/** A link's password hash (null when it has no password). */
+export async function getLinkPasswordHash(id: string): Promise<string | null> {
+  const { rows } = await getPool().query(
+    `SELECT password_hash FROM links WHERE id = $1`,
+    [id],
+  );
+  return (rows[0]?.password_hash as string) || null;
+}
+
+/** Set or clear (null) a link's password hash. */
+export async function setLinkPasswordHash(
+  id: string,
+  userId: string,
+  hash: string | null,
+): Promise<void> {
+  await getPool().query(
+    `UPDATE links SET password_hash = $1, updated_at = $2 WHERE id = $3 AND user_id = $4`,
+    [hash, new Date().toISOString(), id, userId],
+  );
+  invalidateCachedLink(id);
 }
 
 export async function deleteLink(id: string, userId: string): Promise<void> {
@@ -372,6 +532,7 @@ export async function deleteLink(id: string, userId: string): Promise<void> {
     id,
     userId,
   ]);
+  invalidateCachedLink(id);
 }
 
 export async function archiveLink(id: string, userId: string): Promise<void> {
@@ -379,6 +540,7 @@ export async function archiveLink(id: string, userId: string): Promise<void> {
     `UPDATE links SET archived = true, updated_at = $1 WHERE id = $2 AND user_id = $3`,
     [new Date().toISOString(), id, userId],
   );
+  invalidateCachedLink(id);
 }
 
 export async function unarchiveLink(id: string, userId: string): Promise<void> {
@@ -386,6 +548,7 @@ export async function unarchiveLink(id: string, userId: string): Promise<void> {
     `UPDATE links SET archived = false, updated_at = $1 WHERE id = $2 AND user_id = $3`,
     [new Date().toISOString(), id, userId],
   );
+  invalidateCachedLink(id);
 }
 
 export async function getAllLinks(userId: string): Promise<Link[]> {
@@ -436,6 +599,505 @@ export async function countLinksByProject(
   }
 }
 
+/** Count all recorded human clicks for a link (used for click caps) */
+export async function countClicksForLink(linkId: string): Promise<number> {
+  const { rows } = await getPool().query(
+    `SELECT COUNT(*)::int AS count FROM click_events
+     WHERE link_id = $1 AND NOT is_bot`,
+    [linkId],
+  );
+  return rows[0]?.count ?? 0;
+}
+
+/** Count recorded human clicks for several links at once (link ID → count) */
+export async function countClicksByLinkIds(
+  linkIds: string[],
+): Promise<Record<string, number>> {
+  if (linkIds.length === 0) return {};
+  try {
+    const { rows } = await getPool().query(
+      `SELECT link_id, COUNT(*)::int AS count FROM click_events
+       WHERE link_id = ANY($1) AND NOT is_bot GROUP BY link_id`,
+      [linkIds],
+    );
+    return Object.fromEntries(
+      rows.map((r: { link_id: string; count: number }) => [r.link_id, r.count]),
+    );
+  } catch (err) {
+    console.error("[RouteGenius] Error counting link clicks:", err);
+    return {};
+  }
+}
+
+/**
+ * Count recorded clicks per rotation rule of a link (rule ID → count).
+ * Used for per-destination click caps; clicks to main are not counted.
+ */
+export async function countClicksByRule(
+  linkId: string,
+): Promise<Record<string, number>> {
+  const { rows } = await getPool().query(
+    `SELECT rule_id, COUNT(*)::int AS count FROM click_events
+     WHERE link_id = $1 AND rule_id IS NOT NULL GROUP BY rule_id`,
+    [linkId],
+  );
+  return Object.fromEntries(
+    rows.map((r: { rule_id: string; count: number }) => [r.rule_id, r.count]),
+  );
+}
+
+/**
+ * Clicks and conversions per destination of a link, keyed by rule ID
+ * (or "main" for the main destination). Feeds the "optimize" strategy.
+ * Bot clicks never convert, so they are left out.
+ */
+export async function getDestinationStats(
+  linkId: string,
+): Promise<Record<string, DestinationStats>> {
+  const { rows } = await getPool().query(
+    `SELECT COALESCE(rule_id, $2) AS key,
+            COUNT(*)::int AS clicks,
+            COUNT(converted_at)::int AS conversions
+     FROM click_events WHERE link_id = $1 AND NOT is_bot GROUP BY 1`,
+    [linkId, MAIN_DESTINATION_KEY],
+  );
+  return Object.fromEntries(
+    rows.map((r: { key: string; clicks: number; conversions: number }) => [
+      r.key,
+      { clicks: r.clicks, conversions: r.conversions },
+    ]),
+  );
+}
+
+// ── Short Codes ───────────────────────────────────────────────
+
+/** Maximum attempts to find a free random short code. */
+const SHORT_CODE_MAX_ATTEMPTS = 5;
+
+/**
+ * Resolve a short code (current or former) to its link ID.
+ * No user filtering — called from the public `/r/[code]` route.
+ */
+export async function getLinkIdByShortCode(
+  code: string,
+): Promise<string | undefined> {
+  try {
+    const { rows } = await getPool().query(
+      `SELECT link_id FROM link_short_codes WHERE code = $1 LIMIT 1`,
+      [code],
+    );
+    return rows[0]?.link_id as string | undefined;
+  } catch (err) {
+    console.error("[RouteGenius] Error resolving short code:", err);
+    return undefined;
+  }
+}
+
+/**
+ * Make `code` the link's current short code. The previous code stays in
+ * `link_short_codes` and keeps redirecting. Returns false when the code
+ * belongs (now or formerly) to another link.
+ */
+export async function setLinkShortCode(
+  linkId: string,
+  code: string,
+): Promise<boolean> {
+  const { rowCount } = await getPool().query(
+    `WITH claimed AS (
+       INSERT INTO link_short_codes (code, link_id) VALUES ($1, $2)
+       ON CONFLICT (code) DO UPDATE SET code = EXCLUDED.code
+         WHERE link_short_codes.link_id = EXCLUDED.link_id
+       RETURNING code
+     )
+     UPDATE links SET short_code = $1
+     WHERE id = $2 AND EXISTS (SELECT 1 FROM claimed)`,
+    [code, linkId],
+  );
+  invalidateCachedLink(linkId);
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Resolve a short code on a project's custom domain. Only verified
+ * domains route traffic, and only to links of their own project.
+ */
+export async function getLinkIdByHostAndShortCode(
+  hostname: string,
+  code: string,
+): Promise<string | undefined> {
+  try {
+    const { rows } = await getPool().query(
+      `SELECT c.link_id
+       FROM project_domains d
+       JOIN links l ON l.project_id = d.project_id
+       JOIN link_short_codes c ON c.link_id = l.id
+       WHERE d.hostname = $1 AND d.verified_at IS NOT NULL AND c.code = $2
+       LIMIT 1`,
+      [hostname, code],
+    );
+    return rows[0]?.link_id as string | undefined;
+  } catch (err) {
+    console.error("[RouteGenius] Error resolving custom domain code:", err);
+    return undefined;
+  }
+}
+
+/** Give a link a new random short code. Null if no free code was found. */
+export async function assignRandomShortCode(
+  linkId: string,
+): Promise<string | null> {
+  for (let attempt = 0; attempt < SHORT_CODE_MAX_ATTEMPTS; attempt++) {
+    const code = generateShortCode();
+    if (await setLinkShortCode(linkId, code)) return code;
+  }
+  console.warn("[RouteGenius] Could not assign a short code:", linkId);
+  return null;
+}
+
+/** Give a link a random short code unless it already has one. */
+export async function ensureShortCode(link: Link): Promise<string | null> {
+  return link.short_code || assignRandomShortCode(link.id);
+}
+
+/** Former short codes of a link (excluding the current one), newest first. */
+export async function getPreviousShortCodes(link: Link): Promise<string[]> {
+  const { rows } = await getPool().query(
+    `SELECT code FROM link_short_codes
+     WHERE link_id = $1 AND code IS DISTINCT FROM $2
+     ORDER BY created_at DESC`,
+    [link.id, link.short_code ?? null],
+  );
+  return rows.map((r: { code: string }) => r.code);
+}
+
+// ── Custom Domains ────────────────────────────────────────────
+
+function mapProjectDomainRow(row: Record<string, unknown>): ProjectDomain {
+  const iso = (value: unknown) =>
+    value instanceof Date ? value.toISOString() : (value as string) || null;
+  return {
+    hostname: row.hostname as string,
+    project_id: row.project_id as string,
+    verification_token: row.verification_token as string,
+    verified_at: iso(row.verified_at),
+    created_at: iso(row.created_at) ?? new Date().toISOString(),
+  };
+}
+
+/** Custom domains of a project, oldest first. */
+export async function getProjectDomains(
+  projectId: string,
+): Promise<ProjectDomain[]> {
+  const { rows } = await getPool().query(
+    `SELECT * FROM project_domains WHERE project_id = $1 ORDER BY created_at`,
+    [projectId],
+  );
+  return rows.map(mapProjectDomainRow);
+}
+
+/** A custom domain by hostname, whichever project owns it. */
+export async function getProjectDomain(
+  hostname: string,
+): Promise<ProjectDomain | undefined> {
+  const { rows } = await getPool().query(
+    `SELECT * FROM project_domains WHERE hostname = $1 LIMIT 1`,
+    [hostname],
+  );
+  return rows.length > 0 ? mapProjectDomainRow(rows[0]) : undefined;
+}
+
+/**
+ * Register an (unverified) custom domain for a project. Returns false if
+ * the hostname already belongs to a project.
+ */
+export async function addProjectDomain(
+  projectId: string,
+  hostname: string,
+  verificationToken: string,
+): Promise<boolean> {
+  const { rowCount } = await getPool().query(
+    `INSERT INTO project_domains (hostname, project_id, verification_token)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (hostname) DO NOTHING`,
+    [hostname, projectId, verificationToken],
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+/** Mark a custom domain as verified. */
+export async function markProjectDomainVerified(
+  hostname: string,
+): Promise<void> {
+  await getPool().query(
+    `UPDATE project_domains SET verified_at = now() WHERE hostname = $1`,
+    [hostname],
+  );
+}
+
+/** Remove a custom domain from a project. */
+export async function deleteProjectDomain(
+  projectId: string,
+  hostname: string,
+): Promise<void> {
+  await getPool().query(
+    `DELETE FROM project_domains WHERE project_id = $1 AND hostname = $2`,
+    [projectId, hostname],
+  );
+  invalidateCachedHostname(hostname);
+}
+
+// ── Conversions ───────────────────────────────────────────────
+
+/** A recorded click, as needed to attribute a postback to it. */
+export interface ClickForPostback {
+  id: string;
+  link_id: string;
+  rule_id: string | null;
+  workspace_id: string;
+}
+
+/**
+ * Look up the click a postback refers to, with its link's workspace.
+ * Accepts the generated click ID (`click_events.click_id`) or, for
+ * clicks recorded before click IDs existed, the numeric row ID.
+ * No user filtering — called from the public postback endpoint.
+ */
+export async function getClickForPostback(
+  clickId: string,
+): Promise<ClickForPostback | null> {
+  let column: string;
+  if (isClickId(clickId)) column = "c.click_id";
+  else if (/^\d{1,18}$/.test(clickId)) column = "c.id";
+  else return null;
+
+  const { rows } = await getPool().query(
+    `SELECT c.id::text AS id, c.link_id, c.rule_id, l.workspace_id
+     FROM click_events c JOIN links l ON l.id = c.link_id
+     WHERE ${column} = $1`,
+    [clickId],
+  );
+  if (!rows[0]) return null;
+  return {
+    id: rows[0].id,
+    link_id: rows[0].link_id,
+    rule_id: rows[0].rule_id ?? null,
+    workspace_id: rows[0].workspace_id || DEFAULT_WORKSPACE,
+  };
+}
+
+/**
+ * Mark a recent deep-link click as opened in the app. Only clicks that
+ * went through the deep-link landing page in the last 10 minutes
+ * qualify. No user filtering — called from the public `/api/deep-link`.
+ *
+ * @returns Whether a click was updated
+ */
+export async function recordDeepLinkAppOpen(clickId: string): Promise<boolean> {
+  const { rowCount } = await getPool().query(
+    `UPDATE click_events SET deep_link_outcome = 'app'
+     WHERE click_id = $1
+       AND deep_link_outcome IN ('store', 'web')
+       AND created_at > now() - interval '10 minutes'`,
+    [clickId],
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Record a conversion for a click and mark the click as converted
+ * (the first conversion sets click_events.converted_at). A conversion is
+ * stored once per click, event and transaction ID, so retried postbacks
+ * don't count twice.
+ *
+ * @returns The new conversion ID, or null when it was already recorded
+ */
+export async function recordConversion(
+  click: ClickForPostback,
+  event: string,
+  revenue: number | null,
+  transactionId: string | null = null,
+): Promise<string | null> {
+  const { rows } = await getPool().query(
+    `WITH inserted AS (
+       INSERT INTO conversions (click_event_id, link_id, rule_id, event_name, revenue, transaction_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (click_event_id, event_name, (COALESCE(transaction_id, '')))
+         DO NOTHING
+       RETURNING id
+     ), marked AS (
+       UPDATE click_events SET converted_at = COALESCE(converted_at, now())
+       WHERE id = $1 AND EXISTS (SELECT 1 FROM inserted)
+     )
+     SELECT id::text AS id FROM inserted`,
+    [click.id, click.link_id, click.rule_id, event, revenue, transactionId],
+  );
+  return rows[0]?.id ?? null;
+}
+
+/** Get a workspace's postback secret (null if none has been generated). */
+export async function getWorkspacePostbackSecret(
+  workspaceId: string,
+): Promise<string | null> {
+  const { rows } = await getPool().query(
+    `SELECT postback_secret FROM workspace_settings WHERE workspace_id = $1`,
+    [workspaceId],
+  );
+  return rows[0]?.postback_secret ?? null;
+}
+
+/** Store a new postback secret for a workspace (replaces the old one). */
+export async function setWorkspacePostbackSecret(
+  workspaceId: string,
+  secret: string,
+): Promise<void> {
+  await getPool().query(
+    `INSERT INTO workspace_settings (workspace_id, postback_secret, updated_at)
+     VALUES ($1, $2, now())
+     ON CONFLICT (workspace_id) DO UPDATE SET
+       postback_secret = EXCLUDED.postback_secret,
+       updated_at = EXCLUDED.updated_at`,
+    [workspaceId, secret],
+  );
+}
+
+/**
+ * A workspace's bot patterns (user-agent substrings). Null when the
+ * workspace uses the built-in defaults.
+ */
+export async function getWorkspaceBotPatterns(
+  workspaceId: string,
+): Promise<string[] | null> {
+  const { rows } = await getPool().query(
+    `SELECT bot_patterns FROM workspace_settings WHERE workspace_id = $1`,
+    [workspaceId],
+  );
+  const patterns = rows[0]?.bot_patterns;
+  return Array.isArray(patterns) ? (patterns as string[]) : null;
+}
+
+/** Store a workspace's bot patterns (null restores the defaults). */
+export async function setWorkspaceBotPatterns(
+  workspaceId: string,
+  patterns: string[] | null,
+): Promise<void> {
+  await getPool().query(
+    `INSERT INTO workspace_settings (workspace_id, bot_patterns, updated_at)
+     VALUES ($1, $2, now())
+     ON CONFLICT (workspace_id) DO UPDATE SET
+       bot_patterns = EXCLUDED.bot_patterns,
+       updated_at = EXCLUDED.updated_at`,
+    [workspaceId, patterns ? JSON.stringify(patterns) : null],
+  );
+  invalidateCachedBotPatterns(workspaceId);
+}
+
+// ── Destination Health ────────────────────────────────────────
+
+function mapDestinationHealthRow(
+  row: Record<string, unknown>,
+): DestinationHealth {
+  return {
+    link_id: row.link_id as string,
+    destination_key: row.destination_key as string,
+    url: row.url as string,
+    status: row.status === "unhealthy" ? "unhealthy" : "healthy",
+    status_code: row.status_code != null ? Number(row.status_code) : null,
+    latency_ms: row.latency_ms != null ? Number(row.latency_ms) : null,
+    error: (row.error as string) || null,
+    consecutive_failures: Number(row.consecutive_failures) || 0,
+    consecutive_successes: Number(row.consecutive_successes) || 0,
+    last_checked_at:
+      row.last_checked_at instanceof Date
+        ? row.last_checked_at.toISOString()
+        : (row.last_checked_at as string),
+  };
+}
+
+/** Enabled, non-archived links — the ones the health checker probes. */
+export async function getLinksForHealthCheck(): Promise<Link[]> {
+  const { rows } = await getPool().query(
+    `SELECT * FROM links WHERE status = 'enabled' AND archived = false`,
+  );
+  return rows.map(mapLinkRow);
+}
+
+/** Destination health records of the given links, grouped by link ID. */
+export async function getDestinationHealthByLinkIds(
+  linkIds: string[],
+): Promise<Record<string, DestinationHealth[]>> {
+  if (linkIds.length === 0) return {};
+  const { rows } = await getPool().query(
+    `SELECT * FROM destination_health WHERE link_id = ANY($1)
+     ORDER BY link_id, destination_key`,
+    [linkIds],
+  );
+  const result: Record<string, DestinationHealth[]> = {};
+  for (const row of rows) {
+    const health = mapDestinationHealthRow(row);
+    (result[health.link_id] ??= []).push(health);
+  }
+  return result;
+}
+
+/**
+ * Store the results of a health check run. Records of destinations the
+ * checked links no longer have (deleted rules) are removed.
+ */
+export async function saveDestinationHealth(
+  linkIds: string[],
+  records: DestinationHealth[],
+): Promise<void> {
+  if (records.length > 0) {
+    await getPool().query(
+      `INSERT INTO destination_health
+         (link_id, destination_key, url, status, status_code, latency_ms,
+          error, consecutive_failures, consecutive_successes, last_checked_at)
+       SELECT link_id, destination_key, url, status, status_code, latency_ms,
+              error, consecutive_failures, consecutive_successes, last_checked_at
+       FROM jsonb_to_recordset($1::jsonb) AS r(
+         link_id TEXT, destination_key TEXT, url TEXT, status TEXT,
+         status_code INTEGER, latency_ms INTEGER, error TEXT,
+         consecutive_failures INTEGER, consecutive_successes INTEGER,
+         last_checked_at TIMESTAMPTZ)
+       WHERE EXISTS (SELECT 1 FROM links l WHERE l.id = r.link_id)
+       ON CONFLICT (link_id, destination_key) DO UPDATE SET
+         url = EXCLUDED.url,
+         status = EXCLUDED.status,
+         status_code = EXCLUDED.status_code,
+         latency_ms = EXCLUDED.latency_ms,
+         error = EXCLUDED.error,
+         consecutive_failures = EXCLUDED.consecutive_failures,
+         consecutive_successes = EXCLUDED.consecutive_successes,
+         last_checked_at = EXCLUDED.last_checked_at`,
+      [JSON.stringify(records)],
+    );
+  }
+  await getPool().query(
+    `DELETE FROM destination_health
+     WHERE link_id = ANY($1)
+       AND NOT (link_id || ':' || destination_key = ANY($2))`,
+    [linkIds, records.map((r) => `${r.link_id}:${r.destination_key}`)],
+  );
+}
+
+/**
+ * Rule IDs of a link's secondaries currently marked unhealthy.
+ * Fails open (no exclusions) so a DB hiccup never blocks redirects.
+ */
+export async function getUnhealthyRuleIds(linkId: string): Promise<string[]> {
+  try {
+    const { rows } = await getPool().query(
+      `SELECT destination_key FROM destination_health
+       WHERE link_id = $1 AND status = 'unhealthy' AND destination_key <> $2`,
+      [linkId, MAIN_DESTINATION_KEY],
+    );
+    return rows.map((r: { destination_key: string }) => r.destination_key);
+  } catch (err) {
+    console.error("[RouteGenius] Error fetching destination health:", err);
+    return [];
+  }
+}
+
 // ── Uniqueness ────────────────────────────────────────────────
 
 /**
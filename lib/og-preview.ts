@@ -0,0 +1,140 @@
+/**
+ * RouteGenius — Link Previews (Open Graph)
+ *
+ * Messaging apps and social networks (WhatsApp, Facebook, LinkedIn…)
+ * fetch a pasted link to build its preview card. Without custom metadata
+ * they follow the redirect and show whatever the drawn destination has.
+ *
+ * Links can carry their own title, description and image. When set,
+ * link-preview crawlers (detected with `isBot()`) get a small HTML page
+ * with those Open Graph tags instead of the 307.
+ */
+
+import { escapeHtml, scriptJson } from "./html";
+import type { Link } from "./types";
+
+export const MAX_OG_TITLE_LENGTH = 120;
+export const MAX_OG_DESCRIPTION_LENGTH = 300;
+
+/** Maximum size of an uploaded preview image (5 MB). */
+export const MAX_OG_IMAGE_SIZE = 5 * 1024 * 1024;
+
+/** Image types accepted for preview uploads. */
+export const OG_IMAGE_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+];
+
+export type OgPreviewFields = Pick<
+  Link,
+  "og_title" | "og_description" | "og_image_url"
+>;
+
+export type OgPreviewResult =
+  | { ok: true; preview: Required<OgPreviewFields> }
+  | { ok: false; error: string };
+
+/**
+ * Image URLs may be absolute http(s) URLs (GCS) or root-relative paths
+ * (local uploads in development, resolved against the request origin).
+ */
+function isValidImageUrl(value: string): boolean {
+  if (value.startsWith("/") && !value.startsWith("//")) return true;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/** Validate and trim the preview fields from the editor (blank → null). */
+export function normalizeOgPreview(input: OgPreviewFields): OgPreviewResult {
+  const preview = {
+    og_title: input.og_title?.trim() || null,
+    og_description: input.og_description?.trim() || null,
+    og_image_url: input.og_image_url?.trim() || null,
+  };
+
+  if (preview.og_title && preview.og_title.length > MAX_OG_TITLE_LENGTH) {
+    return {
+      ok: false,
+      error: `El título de la vista previa admite como máximo ${MAX_OG_TITLE_LENGTH} caracteres.`,
+    };
+  }
+  if (
+    preview.og_description &&
+    preview.og_description.length > MAX_OG_DESCRIPTION_LENGTH
+  ) {
+    return {
+      ok: false,
+      error: `La descripción de la vista previa admite como máximo ${MAX_OG_DESCRIPTION_LENGTH} caracteres.`,
+    };
+  }
+  if (preview.og_image_url && !isValidImageUrl(preview.og_image_url)) {
+    return { ok: false, error: "La URL de la imagen no es válida." };
+  }
+  return { ok: true, preview };
+}
+
+/** Whether a link has any custom preview metadata. */
+export function hasOgPreview(link: OgPreviewFields): boolean {
+  return !!(link.og_title || link.og_description || link.og_image_url);
+}
+
+/**
+ * Page served to link-preview crawlers. Crawlers only read the meta tags;
+ * a visitor misclassified as a bot is sent on to `destinationUrl` by
+ * script (crawlers don't run it) or by the visible link.
+ *
+ * @param origin - Request origin, used to make a relative image URL absolute
+ */
+export function renderOgPreviewPage(
+  link: OgPreviewFields & Pick<Link, "title">,
+  options: { destinationUrl: string; origin: string },
+): string {
+  const { destinationUrl, origin } = options;
+  const title = link.og_title || link.title || "";
+  const image = link.og_image_url
+    ? new URL(link.og_image_url, origin).toString()
+    : null;
+
+  const tags = [
+    `<meta property="og:type" content="website">`,
+    `<meta property="og:title" content="${escapeHtml(title)}">`,
+    `<meta name="twitter:title" content="${escapeHtml(title)}">`,
+  ];
+  if (link.og_description) {
+    const description = escapeHtml(link.og_description);
+    tags.push(
+      `<meta name="description" content="${description}">`,
+      `<meta property="og:description" content="${description}">`,
+      `<meta name="twitter:description" content="${description}">`,
+    );
+  }
+  if (image) {
+    tags.push(
+      `<meta property="og:image" content="${escapeHtml(image)}">`,
+      `<meta name="twitter:image" content="${escapeHtml(image)}">`,
+    );
+  }
+  tags.push(
+    `<meta name="twitter:card" content="${image ? "summary_large_image" : "summary"}">`,
+  );
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+${tags.join("\n")}
+</head>
+<body>
+<p><a href="${escapeHtml(destinationUrl)}">${escapeHtml(title || destinationUrl)}</a></p>
+<script>window.location.replace(${scriptJson(destinationUrl)});</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,209 @@
+/**
+ * RouteGenius — Query Parameter Passthrough
+ *
+ * Decides which query parameters of an incoming redirect request are
+ * forwarded to the destination (gclid, fbclid, ttclid, sub1..sub5, …).
+ * Policies are set per link, or per project as the default for its links.
+ *
+ * Modes:
+ * - `utm`       — only the five UTM keys (the original behavior)
+ * - `all`       — every incoming parameter
+ * - `allowlist` — the UTM keys plus the listed parameters
+ * - `blocklist` — every incoming parameter except the listed ones
+ */
+
+import { UTM_PARAM_KEYS } from "./utm";
+import type {
+  Link,
+  ParamPassthroughMode,
+  ParamPassthroughPolicy,
+  Project,
+} from "./types";
+
+/** Policy used when neither the link nor its project sets one. */
+export const DEFAULT_PASSTHROUGH_POLICY: ParamPassthroughPolicy = {
+  mode: "utm",
+  params: [],
+  override_existing: false,
+};
+
+const PASSTHROUGH_MODES: ParamPassthroughMode[] = [
+  "utm",
+  "all",
+  "allowlist",
+  "blocklist",
+];
+
+/** Bounds on what a single click may forward (and store in JSONB). */
+const MAX_FORWARDED_PARAMS = 50;
+const MAX_PARAM_VALUE_LENGTH = 512;
+const MAX_POLICY_PARAMS = 100;
+
+/** Query parameter names accepted in allowlists / blocklists. */
+const PARAM_NAME_PATTERN = /^[A-Za-z0-9_.\-[\]]{1,64}$/;
+
+const UTM_KEYS = new Set<string>(UTM_PARAM_KEYS);
+
+export type PassthroughPolicyResult =
+  | { ok: true; policy: ParamPassthroughPolicy | null }
+  | { ok: false; error: string };
+
+/**
+ * The policy in effect for a link: its own, else its project's, else
+ * the UTM-only default.
+ */
+export function resolvePassthroughPolicy(
+  link: Pick<Link, "param_passthrough">,
+  project?: Pick<Project, "param_passthrough"> | null,
+): ParamPassthroughPolicy {
+  return (
+    link.param_passthrough ??
+    project?.param_passthrough ??
+    DEFAULT_PASSTHROUGH_POLICY
+  );
+}
+
+/** Whether a parameter passes the policy's mode and list. */
+function isForwarded(name: string, policy: ParamPassthroughPolicy): boolean {
+  switch (policy.mode) {
+    case "all":
+      return true;
+    case "allowlist":
+      return UTM_KEYS.has(name) || policy.params.includes(name);
+    case "blocklist":
+      return !policy.params.includes(name);
+    default:
+      return UTM_KEYS.has(name);
+  }
+}
+
+/**
+ * Pick the incoming parameters a policy forwards. Empty values are
+ * skipped, and `reserved` names (e.g. the link's click ID parameter)
+ * are never forwarded so visitors can't spoof them.
+ *
+ * @example
+ * ```ts
+ * extractPassthroughParams(
+ *   new URLSearchParams("gclid=abc&utm_source=google&debug=1"),
+ *   { mode: "blocklist", params: ["debug"], override_existing: false },
+ * );
+ * // → { gclid: "abc", utm_source: "google" }
+ * ```
+ */
+export function extractPassthroughParams(
+  searchParams: URLSearchParams,
+  policy: ParamPassthroughPolicy,
+  reserved: string[] = [],
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  let count = 0;
+
+  for (const [name, value] of searchParams) {
+    if (count >= MAX_FORWARDED_PARAMS) break;
+    if (!value || name in result || reserved.includes(name)) continue;
+    if (!isForwarded(name, policy)) continue;
+    result[name] = value.slice(0, MAX_PARAM_VALUE_LENGTH);
+    count++;
+  }
+
+  return result;
+}
+
+/**
+ * Append query parameters to a destination URL. Parameters already on
+ * the destination are kept unless `override` is set.
+ *
+ * @example
+ * ```ts
+ * appendQueryParams("https://example.com/?sub1=x", { sub1: "y", gclid: "abc" }, false);
+ * // → "https://example.com/?sub1=x&gclid=abc"
+ * ```
+ */
+export function appendQueryParams(
+  destinationUrl: string,
+  params: Record<string, string>,
+  override: boolean,
+): string {
+  const entries = Object.entries(params);
+  if (entries.length === 0) return destinationUrl;
+
+  try {
+    const url = new URL(destinationUrl);
+    for (const [key, value] of entries) {
+      if (override || !url.searchParams.has(key)) {
+        url.searchParams.set(key, value);
+      }
+    }
+    return url.toString();
+  } catch {
+    // If destination URL is malformed, fall back to string concatenation
+    const queryString = new URLSearchParams(entries);
+    const separator = destinationUrl.includes("?") ? "&" : "?";
+    return `${destinationUrl}${separator}${queryString.toString()}`;
+  }
+}
+
+/**
+ * Validate and normalise a policy submitted from the editor. Names are
+ * trimmed and de-duplicated; `null` (inherit / default) passes through.
+ */
+export function normalizePassthroughPolicy(
+  input: ParamPassthroughPolicy | null | undefined,
+): PassthroughPolicyResult {
+  if (!input) return { ok: true, policy: null };
+
+  if (!PASSTHROUGH_MODES.includes(input.mode)) {
+    return { ok: false, error: "Modo de paso de parámetros no válido." };
+  }
+
+  const params = [
+    ...new Set((input.params ?? []).map((p) => p.trim()).filter(Boolean)),
+  ];
+  const invalid = params.find((p) => !PARAM_NAME_PATTERN.test(p));
+  if (invalid) {
+    return {
+      ok: false,
+      error: `El parámetro "${invalid}" no es válido. Use letras, números, guiones, puntos o guiones bajos.`,
+    };
+  }
+  if (params.length > MAX_POLICY_PARAMS) {
+    return {
+      ok: false,
+      error: `La lista admite como máximo ${MAX_POLICY_PARAMS} parámetros.`,
+    };
+  }
+  if (input.mode === "allowlist" && params.length === 0) {
+    return {
+      ok: false,
+      error: "Agregue al menos un parámetro a la lista permitida.",
+    };
+  }
+
+  return {
+    ok: true,
+    policy: {
+      mode: input.mode,
+      params:
+        input.mode === "allowlist" || input.mode === "blocklist" ? params : [],
+      override_existing: !!input.override_existing,
+    },
+  };
+}
+
+/** Parse a JSONB policy column (object or JSON string) into a policy. */
+export function parsePassthroughPolicy(
+  value: unknown,
+): ParamPassthroughPolicy | null {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!raw || typeof raw !== "object") return null;
+  const result = normalizePassthroughPolicy(raw as ParamPassthroughPolicy);
+  return result.ok ? result.policy : null;
+}
@@ -0,0 +1,115 @@
+/**
+ * RouteGenius — Conversion Postbacks
+ *
+ * Parsing and authentication helpers for the server-to-server
+ * conversion endpoint (`/api/postback`). Advertisers and networks call
+ * it with the click identifier they received on the landing page.
+ *
+ * Server-only — uses Node's crypto for secret generation and comparison.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+/** Header that may carry the workspace secret instead of `?secret=`. */
+export const POSTBACK_SECRET_HEADER = "x-routegenius-secret";
+
+/** Event name recorded when the caller doesn't send one. */
+export const DEFAULT_POSTBACK_EVENT = "conversion";
+
+const MAX_EVENT_NAME_LENGTH = 64;
+
+const MAX_TRANSACTION_ID_LENGTH = 128;
+
+export interface PostbackParams {
+  /** Click ID of the originating click (or its legacy numeric row ID) */
+  clickId: string;
+  /** Event name (e.g. "lead", "sale") */
+  event: string;
+  /** Payout / revenue, if reported */
+  revenue: number | null;
+  /** Caller's order / transaction ID, deduplicating retried postbacks */
+  transactionId: string | null;
+  /** Workspace secret supplied by the caller */
+  secret: string | null;
+}
+
+export type PostbackParseResult =
+  | { ok: true; params: PostbackParams }
+  | { ok: false; error: string };
+
+/** Generate a new random workspace postback secret (48 hex chars). */
+export function generatePostbackSecret(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/**
+ * Constant-time secret comparison. Both values are hashed first so
+ * inputs of different lengths don't leak timing either.
+ */
+export function verifyPostbackSecret(
+  provided: string | null | undefined,
+  expected: string | null | undefined,
+): boolean {
+  if (!provided || !expected) return false;
+  const a = createHash("sha256").update(provided).digest();
+  const b = createHash("sha256").update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Read and validate postback parameters.
+ *
+ * Accepts `click_id` (alias `clickid`), `event`, `revenue` (alias
+ * `payout`), `transaction_id` (alias `txid`) and `secret` from a query
+ * string or a POST body.
+ *
+ * @example
+ * ```ts
+ * parsePostbackParams(new URLSearchParams("click_id=42&event=sale&payout=12.5"));
+ * // → { ok: true, params: { clickId: "42", event: "sale", revenue: 12.5, transactionId: null, secret: null } }
+ * ```
+ */
+export function parsePostbackParams(
+  input: URLSearchParams | Record<string, unknown>,
+): PostbackParseResult {
+  const get = (...keys: string[]): string | null => {
+    for (const key of keys) {
+      const value =
+        input instanceof URLSearchParams ? input.get(key) : input[key];
+      if (value !== null && value !== undefined && String(value).trim()) {
+        return String(value).trim();
+      }
+    }
+    return null;
+  };
+
+  const clickId = get("click_id", "clickid");
+  if (!clickId) {
+    return { ok: false, error: "Falta el parámetro click_id." };
+  }
+
+  const event = (get("event") ?? DEFAULT_POSTBACK_EVENT).slice(
+    0,
+    MAX_EVENT_NAME_LENGTH,
+  );
+
+  const rawRevenue = get("revenue", "payout");
+  let revenue: number | null = null;
+  if (rawRevenue !== null) {
+    revenue = Number(rawRevenue.replace(",", "."));
+    if (!Number.isFinite(revenue) || revenue < 0) {
+      return { ok: false, error: "El valor de revenue/payout no es válido." };
+    }
+    revenue = Math.round(revenue * 100) / 100;
+  }
+
+  const transactionId = get("transaction_id", "txid");
+  if (transactionId && transactionId.length > MAX_TRANSACTION_ID_LENGTH) {
+    return { ok: false, error: "El transaction_id es demasiado largo." };
+  }
+
+  return {
+    ok: true,
+    params: { clickId, event, revenue, transactionId, secret: get("secret") },
+  };
+}
@@ -0,0 +1,640 @@
+/**
+ * RouteGenius — QR Codes
+ *
+ * Self-contained QR Code Model 2 encoder (byte mode, versions 1–40, all
+ * four error correction levels, automatic mask selection) and an SVG
+ * renderer. PNG output lives in lib/qr-png.ts (server-only).
+ *
+ * QR downloads encode the link's short URL with `?src=qr`, so the
+ * redirect can tag scans in `click_events.source` (see `withQrSource`).
+ *
+ * Safe to import from client components (no Node-only imports).
+ */
+
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+export type QrFormat = "svg" | "png";
+
+/** Module grid of an encoded QR code; `true` is a dark module. */
+export interface QrMatrix {
+  size: number;
+  modules: boolean[][];
+}
+
+/** Rendering options for a QR code download. */
+export interface QrOptions {
+  format: QrFormat;
+  /** Image width/height in pixels */
+  size: number;
+  /** Quiet zone around the code, in modules */
+  margin: number;
+  /** Dark module colour, `#rrggbb` */
+  foreground: string;
+  /** Background colour, `#rrggbb` */
+  background: string;
+  error_correction: QrErrorCorrection;
+  /** Centre logo as a data URL (PNG output requires a PNG logo) */
+  logo: string | null;
+}
+
+export const DEFAULT_QR_OPTIONS: QrOptions = {
+  format: "png",
+  size: 512,
+  margin: 4,
+  foreground: "#000000",
+  background: "#ffffff",
+  error_correction: "M",
+  logo: null,
+};
+
+export const QR_MIN_SIZE = 128;
+export const QR_MAX_SIZE = 2048;
+export const QR_MAX_MARGIN = 16;
+
+/** Largest accepted logo data URL (~190 KB of image data). */
+export const QR_MAX_LOGO_LENGTH = 256 * 1024;
+
+/** Share of the code's width covered by the logo. */
+export const QR_LOGO_SCALE = 0.22;
+
+/** Query parameter / value marking a visit as a QR scan. */
+export const QR_SOURCE_PARAM = "src";
+export const QR_SOURCE_VALUE = "qr";
+
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const LOGO_DATA_URL_PATTERN =
+  /^data:image\/(png|jpeg|gif|webp|svg\+xml);base64,[A-Za-z0-9+/]+=*$/;
+
+// ── Options ───────────────────────────────────────────────────
+
+/**
+ * Validate and normalise user-supplied QR options. A logo raises error
+ * correction to H so the covered modules can be recovered.
+ */
+export function normalizeQrOptions(
+  input: Partial<QrOptions>,
+): { ok: true; options: QrOptions } | { ok: false; error: string } {
+  const options: QrOptions = { ...DEFAULT_QR_OPTIONS, ...input };
+
+  if (options.format !== "svg" && options.format !== "png") {
+    return { ok: false, error: "Formato de QR no válido (SVG o PNG)." };
+  }
+  if (
+    !Number.isInteger(options.size) ||
+    options.size < QR_MIN_SIZE ||
+    options.size > QR_MAX_SIZE
+  ) {
+    return {
+      ok: false,
+      error: `El tamaño debe estar entre ${QR_MIN_SIZE} y ${QR_MAX_SIZE} píxeles.`,
+    };
+  }
+  if (
+    !Number.isInteger(options.margin) ||
+    options.margin < 0 ||
+    options.margin > QR_MAX_MARGIN
+  ) {
+    return {
+      ok: false,
+      error: `El margen debe estar entre 0 y ${QR_MAX_MARGIN} módulos.`,
+    };
+  }
+  if (
+    !HEX_COLOR_PATTERN.test(options.foreground) ||
+    !HEX_COLOR_PATTERN.test(options.background)
+  ) {
+    return { ok: false, error: "Los colores deben tener el formato #rrggbb." };
+  }
+  if (!["L", "M", "Q", "H"].includes(options.error_correction)) {
+    return { ok: false, error: "Nivel de corrección de errores no válido." };
+  }
+
+  if (options.logo) {
+    if (
+      options.logo.length > QR_MAX_LOGO_LENGTH ||
+      !LOGO_DATA_URL_PATTERN.test(options.logo)
+    ) {
+      return {
+        ok: false,
+        error:
+          "El logo debe ser una imagen (PNG, JPEG, GIF, WebP o SVG) de menos de 190 KB.",
+      };
+    }
+    if (
+      options.format === "png" &&
+      !options.logo.startsWith("data:image/png;")
+    ) {
+      return {
+        ok: false,
+        error: "Para descargas PNG el logo debe ser una imagen PNG.",
+      };
+    }
+    options.error_correction = "H";
+  } else {
+    options.logo = null;
+  }
+
+  options.foreground = options.foreground.toLowerCase();
+  options.background = options.background.toLowerCase();
+  return { ok: true, options };
+}
+
+/**
+ * Add the QR source marker to a link URL.
+ *
+ * @example
+ * ```ts
+ * withQrSource("https://route.topnetworks.co/r/promo");
+ * // → "https://route.topnetworks.co/r/promo?src=qr"
+ * ```
+ */
+export function withQrSource(url: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set(QR_SOURCE_PARAM, QR_SOURCE_VALUE);
+  return parsed.toString();
+}
+
+/** Whether the incoming request came from a QR code. */
+export function isQrScan(searchParams: URLSearchParams): boolean {
+  return searchParams.get(QR_SOURCE_PARAM) === QR_SOURCE_VALUE;
+}
+
+// ── Encoding ──────────────────────────────────────────────────
+
+const ECL_INDEX: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 };
+
+/** Format bits of each level (L=01, M=00, Q=11, H=10). */
+const ECL_FORMAT_BITS: Record<QrErrorCorrection, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// Indexed by [level][version]; version 0 is unused.
+// prettier-ignore
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+// prettier-ignore
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+/** Modules available for data + ECC codewords in a version. */
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function numDataCodewords(version: number, ecl: QrErrorCorrection): number {
+  const e = ECL_INDEX[ecl];
+  return (
+    Math.floor(numRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[e][version] *
+      NUM_ERROR_CORRECTION_BLOCKS[e][version]
+  );
+}
+
+/** Reed–Solomon multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1. */
+function rsMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = rsMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = rsMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= rsMultiply(coef, factor)));
+  }
+  return result;
+}
+
+/** Split data into blocks, add ECC and interleave. */
+function addEccAndInterleave(
+  data: number[],
+  version: number,
+  ecl: QrErrorCorrection,
+): number[] {
+  const e = ECL_INDEX[ecl];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[e][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[e][version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const blocks: number[][] = [];
+  const divisor = rsDivisor(blockEccLen);
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(
+      k,
+      k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1),
+    );
+    k += dat.length;
+    const ecc = rsRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+/** Alignment pattern centre coordinates of a version. */
+function alignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step =
+    version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 10; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(
+    readonly version: number,
+    readonly ecl: QrErrorCorrection,
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false),
+    );
+    this.isFunction = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false),
+    );
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = alignmentPatternPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) =>
+      positions.forEach((y, j) => {
+        // Corners taken by finder patterns
+        if (
+          (i === 0 && j === 0) ||
+          (i === 0 && j === last) ||
+          (i === last && j === 0)
+        ) {
+          return;
+        }
+        this.drawAlignment(x, y);
+      }),
+    );
+
+    this.drawFormatBits(0); // Reserved; overwritten once the mask is chosen
+    this.drawVersion();
+  }
+
+  drawFinder(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  drawAlignment(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(
+          x + dx,
+          y + dy,
+          Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+        );
+      }
+    }
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (ECL_FORMAT_BITS[this.ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++)
+      this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true); // Always dark
+  }
+
+  drawVersion(): void {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] =
+              ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0:
+            invert = (x + y) % 2 === 0;
+            break;
+          case 1:
+            invert = y % 2 === 0;
+            break;
+          case 2:
+            invert = x % 3 === 0;
+            break;
+          case 3:
+            invert = (x + y) % 3 === 0;
+            break;
+          case 4:
+            invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+            break;
+          case 5:
+            invert = ((x * y) % 2) + ((x * y) % 3) === 0;
+            break;
+          case 6:
+            invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+            break;
+          default:
+            invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+            break;
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  /** Penalty score of the current grid (ISO/IEC 18004, section 7.8.3). */
+  penalty(): number {
+    const n = this.size;
+    let result = 0;
+
+    const lineScore = (get: (i: number, j: number) => boolean) => {
+      for (let i = 0; i < n; i++) {
+        let runColor = false;
+        let runLength = 0;
+        for (let j = 0; j < n; j++) {
+          const color = get(i, j);
+          if (j > 0 && color === runColor) {
+            runLength++;
+            if (runLength === 5) result += 3;
+            else if (runLength > 5) result++;
+          } else {
+            runColor = color;
+            runLength = 1;
+          }
+        }
+        // Finder-like 1:1:3:1:1 patterns with 4 light modules on one side
+        for (let j = 0; j + 6 < n; j++) {
+          if (
+            get(i, j) &&
+            !get(i, j + 1) &&
+            get(i, j + 2) &&
+            get(i, j + 3) &&
+            get(i, j + 4) &&
+            !get(i, j + 5) &&
+            get(i, j + 6)
+          ) {
+            const lightBefore = [1, 2, 3, 4].every(
+              (k) => j - k < 0 || !get(i, j - k),
+            );
+            const lightAfter = [7, 8, 9, 10].every(
+              (k) => j + k >= n || !get(i, j + k),
+            );
+            if (lightBefore || lightAfter) result += 40;
+          }
+        }
+      }
+    };
+    lineScore((i, j) => this.modules[i][j]);
+    lineScore((i, j) => this.modules[j][i]);
+
+    for (let y = 0; y < n - 1; y++) {
+      for (let x = 0; x < n - 1; x++) {
+        const c = this.modules[y][x];
+        if (
+          c === this.modules[y][x + 1] &&
+          c === this.modules[y + 1][x] &&
+          c === this.modules[y + 1][x + 1]
+        ) {
+          result += 3;
+        }
+      }
+    }
+
+    const dark = this.modules.reduce(
+      (sum, row) => sum + row.filter(Boolean).length,
+      0,
+    );
+    const total = n * n;
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return result;
+  }
+}
+
+/**
+ * Encode text as a QR code (byte mode, UTF-8) at the smallest version
+ * that fits. Throws when the text exceeds version 40 at this level.
+ *
+ * @param mask - Force a mask pattern 0–7 (default: lowest penalty)
+ */
+export function encodeQr(
+  text: string,
+  ecl: QrErrorCorrection = "M",
+  mask?: number,
+): QrMatrix {
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  let version = 1;
+  for (; ; version++) {
+    if (version > 40) {
+      throw new Error("El contenido es demasiado largo para un código QR.");
+    }
+    const countBits = version <= 9 ? 8 : 16;
+    if (
+      4 + countBits + bytes.length * 8 <=
+      numDataCodewords(version, ecl) * 8
+    ) {
+      break;
+    }
+  }
+
+  // Mode indicator, character count, data, terminator, padding
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((b) => append(b, 8));
+
+  const capacityBits = numDataCodewords(version, ecl) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const qr = new QrBuilder(version, ecl);
+  qr.drawFunctionPatterns();
+  qr.drawCodewords(addEccAndInterleave(data, version, ecl));
+
+  let chosen = mask;
+  if (chosen === undefined) {
+    let best = Infinity;
+    for (let m = 0; m < 8; m++) {
+      qr.applyMask(m);
+      qr.drawFormatBits(m);
+      const score = qr.penalty();
+      if (score < best) {
+        best = score;
+        chosen = m;
+      }
+      qr.applyMask(m); // XOR again to undo
+    }
+  }
+  qr.applyMask(chosen as number);
+  qr.drawFormatBits(chosen as number);
+
+  return { size: qr.size, modules: qr.modules };
+}
+
+// ── Rendering ─────────────────────────────────────────────────
+
+/** Module and logo geometry of a rendering, in output pixels. */
+export function qrLayout(matrix: QrMatrix, options: QrOptions) {
+  const totalModules = matrix.size + options.margin * 2;
+  const moduleSize = options.size / totalModules;
+  const logoSize = Math.round(options.size * QR_LOGO_SCALE);
+  return {
+    totalModules,
+    moduleSize,
+    logoSize,
+    logoOffset: Math.round((options.size - logoSize) / 2),
+  };
+}
+
+/** Render a QR code as a standalone SVG document. */
+export function renderQrSvg(matrix: QrMatrix, options: QrOptions): string {
+  const { totalModules, logoSize, logoOffset } = qrLayout(matrix, options);
+
+  // One path for all dark modules, in module units
+  let path = "";
+  matrix.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) path += `M${x + options.margin},${y + options.margin}h1v1h-1z`;
+    }),
+  );
+
+  const scale = options.size / totalModules;
+  const logo = options.logo
+    ? `<rect x="${logoOffset}" y="${logoOffset}" width="${logoSize}" height="${logoSize}" fill="${options.background}"/>` +
+      `<image x="${logoOffset}" y="${logoOffset}" width="${logoSize}" height="${logoSize}" href="${options.logo}" preserveAspectRatio="xMidYMid meet"/>`
+    : "";
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${options.size}" height="${options.size}" viewBox="0 0 ${options.size} ${options.size}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${options.background}"/>` +
+    `<path transform="scale(${scale})" fill="${options.foreground}" d="${path}"/>` +
+    logo +
+    `</svg>`
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * RouteGenius — QR Code PNG Rendering
+ *
+ * Rasterises a `QrMatrix` (lib/qr-code.ts) to PNG with Node's zlib — no
+ * image library needed. Centre logos are PNG data URLs, decoded here
+ * (8-bit, non-interlaced, or palette images) and scaled nearest-neighbour.
+ *
+ * Server-only — imports `zlib`.
+ */
+
+import { deflateSync, inflateSync } from "zlib";
+import { qrLayout, type QrMatrix, type QrOptions } from "./qr-code";
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+/** Decoded image, 4 bytes (RGBA) per pixel. */
+interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function parseHexColor(hex: string): [number, number, number] {
+  return [
+    parseInt(hex.slice(1, 3), 16),
+    parseInt(hex.slice(3, 5), 16),
+    parseInt(hex.slice(5, 7), 16),
+  ];
+}
+
+/**
+ * Decode a PNG to RGBA. Throws on unsupported images (interlaced, 16-bit).
+ */
+export function decodePng(png: Buffer): RgbaImage {
+  if (!png.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("El logo no es un PNG válido.");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= png.length; ) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("ascii", offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) {
+        throw new Error("Los PNG entrelazados no están soportados.");
+      }
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (
+    !channels ||
+    (colorType === 3 ? ![1, 2, 4, 8].includes(bitDepth) : bitDepth !== 8) ||
+    width === 0 ||
+    height === 0 ||
+    width * height > 4_000_000
+  ) {
+    throw new Error("Formato de PNG no soportado para el logo.");
+  }
+
+  // Undo the per-row filters
+  const raw = inflateSync(Buffer.concat(idat));
+  const bytesPerPixel = Math.max(1, (channels * bitDepth) / 8);
+  const stride = Math.ceil((width * channels * bitDepth) / 8);
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = pixels.subarray(y * stride, (y + 1) * stride);
+    const prev = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : null;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bytesPerPixel ? out[x - bytesPerPixel] : 0;
+      const b = prev ? prev[x] : 0;
+      const c = prev && x >= bytesPerPixel ? prev[x - bytesPerPixel] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = a;
+      else if (filter === 2) predictor = b;
+      else if (filter === 3) predictor = (a + b) >>> 1;
+      else if (filter === 4) {
+        const p = a + b - c;
+        const pa = Math.abs(p - a);
+        const pb = Math.abs(p - b);
+        const pc = Math.abs(p - c);
+        predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      out[x] = (line[x] + predictor) & 0xff;
+    }
+  }
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const p = y * stride + x * channels;
+      if (colorType === 3) {
+        const bit = x * bitDepth;
+        const index =
+          (pixels[y * stride + (bit >>> 3)] >>> (8 - bitDepth - (bit & 7))) &
+          ((1 << bitDepth) - 1);
+        data[o] = palette?.[index * 3] ?? 0;
+        data[o + 1] = palette?.[index * 3 + 1] ?? 0;
+        data[o + 2] = palette?.[index * 3 + 2] ?? 0;
+        data[o + 3] = transparency?.[index] ?? 255;
+      } else if (colorType === 0 || colorType === 4) {
+        data[o] = data[o + 1] = data[o + 2] = pixels[p];
+        data[o + 3] = colorType === 4 ? pixels[p + 1] : 255;
+      } else {
+        data[o] = pixels[p];
+        data[o + 1] = pixels[p + 1];
+        data[o + 2] = pixels[p + 2];
+        data[o + 3] = colorType === 6 ? pixels[p + 3] : 255;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+/** Decode a `data:image/png;base64,…` URL. */
+export function decodePngDataUrl(dataUrl: string): RgbaImage {
+  return decodePng(Buffer.from(dataUrl.split(",", 2)[1] ?? "", "base64"));
+}
+
+/** Render a QR code as a PNG (8-bit RGB). */
+export function renderQrPng(matrix: QrMatrix, options: QrOptions): Buffer {
+  const { size } = options;
+  const { moduleSize, logoSize, logoOffset } = qrLayout(matrix, options);
+  const fg = parseHexColor(options.foreground);
+  const bg = parseHexColor(options.background);
+
+  const stride = size * 3 + 1;
+  const pixels = Buffer.alloc(stride * size);
+  for (let y = 0; y < size; y++) {
+    pixels[y * stride] = 0; // Filter: none
+    const my = Math.floor(y / moduleSize) - options.margin;
+    for (let x = 0; x < size; x++) {
+      const mx = Math.floor(x / moduleSize) - options.margin;
+      const dark =
+        my >= 0 &&
+        my < matrix.size &&
+        mx >= 0 &&
+        mx < matrix.size &&
+        matrix.modules[my][mx];
+      pixels.set(dark ? fg : bg, y * stride + 1 + x * 3);
+    }
+  }
+
+  if (options.logo) {
+    const logo = decodePngDataUrl(options.logo);
+    // Fit inside the logo box, keeping the aspect ratio
+    const scale = logoSize / Math.max(logo.width, logo.height);
+    const w = Math.max(1, Math.round(logo.width * scale));
+    const h = Math.max(1, Math.round(logo.height * scale));
+    const ox = logoOffset + Math.floor((logoSize - w) / 2);
+    const oy = logoOffset + Math.floor((logoSize - h) / 2);
+
+    for (let y = logoOffset; y < logoOffset + logoSize; y++) {
+      for (let x = logoOffset; x < logoOffset + logoSize; x++) {
+        pixels.set(bg, y * stride + 1 + x * 3);
+      }
+    }
+    for (let y = 0; y < h; y++) {
+      const sy = Math.min(logo.height - 1, Math.floor(y / scale));
+      for (let x = 0; x < w; x++) {
+        const sx = Math.min(logo.width - 1, Math.floor(x / scale));
+        const s = (sy * logo.width + sx) * 4;
+        const alpha = logo.data[s + 3] / 255;
+        const o = (oy + y) * stride + 1 + (ox + x) * 3;
+        for (let c = 0; c < 3; c++) {
+          pixels[o + c] = Math.round(
+            logo.data[s + c] * alpha + bg[c] * (1 - alpha),
+          );
+        }
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 2; // Colour type: RGB
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(pixels)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,73 @@
+/**
+ * RouteGenius — Rate Limit Policies
+ *
+ * Links and projects can override the redirect's per-IP rate limit
+ * (`rate_limit`): stricter for abused links, looser for links shared
+ * behind a NAT (events, offices). A link without its own policy uses its
+ * project's, else the global default. Client-safe — the limiters
+ * themselves are in lib/rate-limit.ts.
+ */
+
+import type { RateLimitPolicy } from "./types";
+
+/** Limit of the public endpoints: 100 requests per 10 seconds per IP. */
+export const DEFAULT_RATE_LIMIT_POLICY: RateLimitPolicy = {
+  max_requests: 100,
+  window_seconds: 10,
+};
+
+export const MAX_RATE_LIMIT_REQUESTS = 10_000;
+export const MAX_RATE_LIMIT_WINDOW_SECONDS = 3600;
+
+export type RateLimitPolicyResult =
+  | { ok: true; policy: RateLimitPolicy | null }
+  | { ok: false; error: string };
+
+/** Validate a policy from the editor. `null` (inherit) passes through. */
+export function normalizeRateLimitPolicy(
+  input: Partial<RateLimitPolicy> | null | undefined,
+): RateLimitPolicyResult {
+  if (!input) return { ok: true, policy: null };
+
+  const maxRequests = Number(input.max_requests);
+  const windowSeconds = Number(input.window_seconds);
+  if (
+    !Number.isInteger(maxRequests) ||
+    maxRequests < 1 ||
+    maxRequests > MAX_RATE_LIMIT_REQUESTS
+  ) {
+    return {
+      ok: false,
+      error: `El límite de solicitudes debe ser un entero entre 1 y ${MAX_RATE_LIMIT_REQUESTS.toLocaleString("es")}.`,
+    };
+  }
+  if (
+    !Number.isInteger(windowSeconds) ||
+    windowSeconds < 1 ||
+    windowSeconds > MAX_RATE_LIMIT_WINDOW_SECONDS
+  ) {
+    return {
+      ok: false,
+      error: `La ventana del límite debe estar entre 1 y ${MAX_RATE_LIMIT_WINDOW_SECONDS} segundos.`,
+    };
+  }
+  return {
+    ok: true,
+    policy: { max_requests: maxRequests, window_seconds: windowSeconds },
+  };
+}
+
+/** Parse a JSONB policy column (object or JSON string). */
+export function parseRateLimitPolicy(value: unknown): RateLimitPolicy | null {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!raw || typeof raw !== "object") return null;
+  const result = normalizeRateLimitPolicy(raw as Partial<RateLimitPolicy>);
+  return result.ok ? result.policy : null;
+}
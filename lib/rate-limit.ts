@@ -1,55 +1,246 @@
 /**
- * Rate limiting via Cloud SQL PostgreSQL.
- * Uses the `rate_limits` table and `check_rate_limit()` PG function.
+ * Rate limiting for the public endpoints.
+ *
+ * Checks go through a pluggable `RateLimiter`:
+ * - `postgres` (default) — fixed-window counters in the `rate_limits`
+ *   table via the `consume_rate_limit()` PG function, shared by all
+ *   instances. Falls back to an in-memory limiter on DB errors.
+ * - `memory` — per-instance token buckets, no database round trip.
+ *
+ * Selected with `RATE_LIMIT_STORE`. IPs in `RATE_LIMIT_ALLOWLIST` (QA
+ * machines, office) skip the limits that opt into the allowlist.
  *
  * @module lib/rate-limit
  */
 
 import { getPool } from "./db";
+import { DEFAULT_RATE_LIMIT_POLICY } from "./rate-limit-policy";
+import type { RateLimitPolicy } from "./types";
 
 export interface RateLimitResult {
   allowed: boolean;
   limit: number;
+  /** Requests left before the limit is hit */
   remaining: number;
+  /** Seconds until the full limit is available again */
+  reset: number;
+  /** Seconds until the next request is allowed (0 when allowed) */
+  retryAfter: number;
+}
+
+export interface RateLimiter {
+  /** Count one request against `key` and report the limit's state. */
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
+
+/** Keys tracked by an in-memory limiter before the least recent is dropped. */
+const MEMORY_MAX_KEYS = 10_000;
+
+/**
+ * Token bucket per key: `max_requests` tokens, refilled evenly over
+ * `window_seconds`, so bursts up to the limit pass and sustained traffic
+ * is held to the average rate.
+ */
+export function createMemoryRateLimiter(
+  maxKeys: number = MEMORY_MAX_KEYS,
+): RateLimiter {
+  // Insertion order doubles as recency: the first key is the LRU bucket
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    async consume(key, policy) {
+      const now = Date.now();
+      const capacity = policy.max_requests;
+      const tokensPerSecond = capacity / policy.window_seconds;
+
+      const bucket = buckets.get(key);
+      let tokens = bucket
+        ? Math.min(
+            capacity,
+            bucket.tokens + ((now - bucket.updatedAt) / 1000) * tokensPerSecond,
+          )
+        : capacity;
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+
+      buckets.delete(key);
+      buckets.set(key, { tokens, updatedAt: now });
+      if (buckets.size > maxKeys) {
+        const oldest = buckets.keys().next().value;
+        if (oldest !== undefined) buckets.delete(oldest);
+      }
+
+      return {
+        allowed,
+        limit: capacity,
+        remaining: Math.floor(tokens),
+        reset: Math.ceil((capacity - tokens) / tokensPerSecond),
+        retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / tokensPerSecond),
+      };
+    },
+  };
+}
+
+/**
+ * Fixed-window counter in PostgreSQL, shared across instances. On DB
+ * errors the request is checked against `fallback` instead of being let
+ * through unconditionally.
+ */
+export function createPostgresRateLimiter(
+  fallback: RateLimiter = createMemoryRateLimiter(),
+): RateLimiter {
+  return {
+    async consume(key, policy) {
+      try {
+        const { rows } = await getPool().query(
+          `SELECT hits, reset_seconds FROM consume_rate_limit($1, $2)`,
+          [key, policy.window_seconds],
+        );
+        const count = Number(rows[0]?.hits);
+        const reset = Math.max(0, Math.ceil(Number(rows[0]?.reset_seconds)));
+        const allowed = count <= policy.max_requests;
+
+        return {
+          allowed,
+          limit: policy.max_requests,
+          remaining: Math.max(0, policy.max_requests - count),
+          reset,
+          retryAfter: allowed ? 0 : reset,
+        };
+      } catch (err) {
+        console.error(
+          "[RouteGenius] Rate limit check failed, using in-memory limiter:",
+          err,
+        );
+        return fallback.consume(key, policy);
+      }
+    },
+  };
+}
+
+let limiter: RateLimiter | null = null;
+
+/** The limiter selected by `RATE_LIMIT_STORE` ("postgres" or "memory"). */
+export function getRateLimiter(): RateLimiter {
+  if (!limiter) {
+    limiter =
+      process.env.RATE_LIMIT_STORE === "memory"
+        ? createMemoryRateLimiter()
+        : createPostgresRateLimiter();
+  }
+  return limiter;
+}
+
+/** Replace the limiter used by `checkRateLimit()` (e.g. a Redis store). */
+export function setRateLimiter(next: RateLimiter): void {
+  limiter = next;
+}
+
+type AllowlistEntry =
+  | { kind: "ip"; ip: string }
+  | { kind: "cidr"; network: number; mask: number };
+
+let allowlist: AllowlistEntry[] | null = null;
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+/** `RATE_LIMIT_ALLOWLIST`: comma-separated IPs and IPv4 CIDR ranges. */
+function getAllowlist(): AllowlistEntry[] {
+  if (!allowlist) {
+    allowlist = [];
+    for (const item of (process.env.RATE_LIMIT_ALLOWLIST ?? "").split(",")) {
+      const entry = item.trim().toLowerCase();
+      if (!entry) continue;
+      const [address, bits] = entry.split("/");
+      const network = ipv4ToNumber(address);
+      const prefix = Number(bits);
+      if (
+        bits !== undefined &&
+        network !== null &&
+        Number.isInteger(prefix) &&
+        prefix >= 0 &&
+        prefix <= 32
+      ) {
+        const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+        allowlist.push({
+          kind: "cidr",
+          network: (network & mask) >>> 0,
+          mask,
+        });
+      } else {
+        allowlist.push({ kind: "ip", ip: entry });
+      }
+    }
+  }
+  return allowlist;
+}
+
+/** Whether an IP is exempt from rate limits (`RATE_LIMIT_ALLOWLIST`). */
+export function isAllowlistedIp(ip: string): boolean {
+  const normalized = ip
+    .trim()
+    .toLowerCase()
+    .replace(/^::ffff:/, "");
+  const value = ipv4ToNumber(normalized);
+  return getAllowlist().some((entry) =>
+    entry.kind === "ip"
+      ? entry.ip === normalized
+      : value !== null && (value & entry.mask) >>> 0 === entry.network,
+  );
 }
 
 /**
  * Check whether a request identified by `identifier` is within rate limits.
  *
- * Uses a sliding-window counter stored in PostgreSQL.
- * Fails open — if the database call fails, the request is allowed through
- * so legitimate traffic is never blocked by infrastructure issues.
- *
  * @param identifier - Unique key for the rate limit (e.g. `redirect:<ip>`)
- * @param windowSeconds - Sliding window duration in seconds (default: 10)
- * @param maxRequests - Maximum requests allowed per window (default: 100)
+ * @param policy - Requests allowed per window (default: 100 per 10 seconds)
+ * @param options.ip - Client IP checked against `RATE_LIMIT_ALLOWLIST`;
+ *   omit it for limits that must always apply (password attempts)
  */
 export async function checkRateLimit(
   identifier: string,
-  windowSeconds: number = 10,
-  maxRequests: number = 100,
+  policy: RateLimitPolicy = DEFAULT_RATE_LIMIT_POLICY,
+  options: { ip?: string } = {},
 ): Promise<RateLimitResult> {
-  // Skip in development if configured
-  if (process.env.DISABLE_RATE_LIMITING === "true") {
-    return { allowed: true, limit: maxRequests, remaining: maxRequests };
-  }
-
-  try {
-    const { rows } = await getPool().query(
-      `SELECT check_rate_limit($1, $2, $3) AS allowed`,
-      [identifier, windowSeconds, maxRequests],
-    );
-
-    const allowed = rows[0]?.allowed as boolean;
-
+  // Skip in development if configured, and for allowlisted IPs
+  if (
+    process.env.DISABLE_RATE_LIMITING === "true" ||
+    (options.ip && isAllowlistedIp(options.ip))
+  ) {
     return {
-      allowed,
-      limit: maxRequests,
-      remaining: allowed ? maxRequests : 0,
+      allowed: true,
+      limit: policy.max_requests,
+      remaining: policy.max_requests,
+      reset: 0,
+      retryAfter: 0,
     };
-  } catch (err) {
-    // Fail open — never block legitimate traffic on DB errors
-    console.error("[RouteGenius] Rate limit check failed:", err);
-    return { allowed: true, limit: maxRequests, remaining: maxRequests };
   }
+
+  return getRateLimiter().consume(identifier, policy);
+}
+
+/**
+ * `X-RateLimit-*` headers for a result (`Reset` in seconds), plus
+ * `Retry-After` when the request was refused.
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult,
+): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": result.limit.toString(),
+    "X-RateLimit-Remaining": result.remaining.toString(),
+    "X-RateLimit-Reset": result.reset.toString(),
+    ...(result.allowed
+      ? {}
+      : { "Retry-After": Math.max(1, result.retryAfter).toString() }),
+  };
 }
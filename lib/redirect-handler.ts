@@ -0,0 +1,464 @@
+/**
+ * RouteGenius — Redirect Handler
+ *
+ * The probabilistic redirect shared by the public redirect routes:
+ * `/api/redirect/[linkId]` (link ID) and `/r/[code]` (short code).
+ *
+ * Server-only — reads links via `pg` and queues click_events rows
+ * (lib/click-ingest.ts).
+ */
+
+import { randomBytes } from "crypto";
+import { after, NextRequest, NextResponse } from "next/server";
+import {
+  getLinkForRedirect,
+  getWorkspaceBotPatterns,
+  expireLink,
+} from "./mock-data";
+import {
+  hasRuleClickCaps,
+  pickDestination,
+  type SelectedDestination,
+} from "./rotation";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  type RateLimitResult,
+} from "./rate-limit";
+import {
+  resolveStickyVisitor,
+  stickyCookieName,
+  type StickyVisitor,
+} from "./stickiness";
+import { parseUserAgent } from "./user-agent";
+import { getExpirationReason, hasClickCap } from "./expiration";
+import { reportError } from "./gcp/error-reporting";
+import { extractUtmParams } from "./utm";
+import {
+  resolvePassthroughPolicy,
+  extractPassthroughParams,
+  appendQueryParams,
+} from "./passthrough";
+import { generateClickId, appendClickId } from "./click-id";
+import { hasMacros, buildMacroValues, expandMacros } from "./macros";
+import { isQrScan, QR_SOURCE_PARAM } from "./qr-code";
+import { getCachedBotPatterns, isBot } from "./bot-filter";
+import {
+  buildUnlockPath,
+  isGatedLink,
+  unlockCookieName,
+  verifyUnlockToken,
+} from "./link-access";
+import {
+  initialDeepLinkOutcome,
+  renderDeepLinkPage,
+  resolveDeepLink,
+} from "./deep-link";
+import { hasOgPreview, renderOgPreviewPage } from "./og-preview";
+import {
+  hasTrackingPixels,
+  pixelPageCsp,
+  renderPixelPage,
+} from "./tracking-pixels";
+import {
+  DEFAULT_REDIRECT_TYPE,
+  getRedirectHeaders,
+  isHtmlRedirect,
+  renderRedirectPage,
+} from "./redirect-type";
+import { getCachedLink } from "./link-cache";
+import { enqueueClick } from "./click-ingest";
+import {
+  getCachedDestinationStats,
+  getCachedUnhealthyRuleIds,
+  getLinkClickCount,
+  getRuleClickCounts,
+  recordClick,
+} from "./click-counts";
+import type { ClickEvent, RedirectType } from "./types";
+import type { UtmParams } from "./utm";
+
+/** Client IP of a redirect request (first X-Forwarded-For hop). */
+export function getClientIp(request: NextRequest): string {
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ?? "127.0.0.1"
+  );
+}
+
+/**
+ * The default per-IP redirect limit (100 requests per 10 seconds across
+ * all links). Checked before any link or short-code lookup, so requests
+ * for unknown IDs can't reach the database unthrottled. Allowlisted IPs
+ * skip it.
+ */
+export function checkRedirectRateLimit(ip: string): Promise<RateLimitResult> {
+  return checkRateLimit(`redirect:${ip}`, undefined, { ip });
+}
+
+/** 429 answer for a refused redirect. */
+export function rateLimitedResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: "Demasiadas solicitudes. Intenta de nuevo más tarde." },
+    { status: 429, headers: rateLimitHeaders(result) },
+  );
+}
+
+/** Send the visitor to `url` with a link's redirect method. */
+function redirectResponse(url: string, type: RedirectType): NextResponse {
+  const headers = getRedirectHeaders(type);
+  if (isHtmlRedirect(type)) {
+    return new NextResponse(renderRedirectPage(url, type), {
+      status: 200,
+      headers,
+    });
+  }
+  return NextResponse.redirect(url, { status: Number(type), headers });
+}
+
+/**
+ * Resolve a link, pick its destination and answer with the redirect.
+ * Never throws — errors are reported and answered with a 500.
+ *
+ * @param ipLimit - Result of `checkRedirectRateLimit()` when the caller
+ *   already checked it (the short-code route, before its code lookup)
+ */
+export async function handleRedirect(
+  request: NextRequest,
+  linkId: string,
+  ipLimit?: RateLimitResult,
+): Promise<NextResponse> {
+  try {
+    // 0. Rate limiting per IP — 100 requests per 10 seconds across all
+    //    links, before the lookup so unknown IDs are throttled too
+    const ip = getClientIp(request);
+    const globalLimit = ipLimit ?? (await checkRedirectRateLimit(ip));
+    if (!globalLimit.allowed) return rateLimitedResponse(globalLimit);
+
+    // 1. Retrieve link configuration (public — no user filtering),
+    //    served from the in-process link cache when fresh
+    const link = await getCachedLink(linkId, getLinkForRedirect);
+
+    // 1b. The link's (or its project's) own policy applies on top of the
+    //     per-IP limit, counted per IP and link
+    const linkLimit = link?.rate_limit
+      ? await checkRateLimit(`redirect:${link.id}:${ip}`, link.rate_limit, {
+          ip,
+        })
+      : null;
+    if (linkLimit && !linkLimit.allowed) return rateLimitedResponse(linkLimit);
+    const rateLimit = linkLimit ?? globalLimit;
+
+    if (!link) {
+      return NextResponse.json(
+        { error: "Enlace no encontrado", linkId },
+        { status: 404 },
+      );
+    }
+
+    // 2. Enforce expiration (date / click cap) — flips the link to "expired"
+    if (link.status === "enabled") {
+      const clickCount = hasClickCap(link)
+        ? await getLinkClickCount(link.id)
+        : 0;
+      const reason = getExpirationReason(link, clickCount);
+      if (reason) {
+        link.status = "expired";
+        console.log("[RouteGenius] Link expired:", { id: link.id, reason });
+        expireLink(link.id).catch((err) => {
+          console.error("[RouteGenius] Link expire update failed:", err);
+        });
+      }
+    }
+
+    // 2b. Expired links with a post-expiry URL send visitors there (no click logged)
+    if (link.status === "expired" && link.expired_redirect_url) {
+      return NextResponse.redirect(link.expired_redirect_url, 307);
+    }
+
+    // 2c. Check if link is active
+    if (link.status !== "enabled") {
+      return NextResponse.json(
+        { error: "El enlace no está activo", status: link.status },
+        { status: 410 },
+      );
+    }
+
+    // 2d. Password / interstitial links go through the unlock page first.
+    // Nothing is drawn or logged until the visitor holds a valid unlock.
+    if (
+      isGatedLink(link) &&
+      !verifyUnlockToken(
+        link.id,
+        request.cookies.get(unlockCookieName(link.id))?.value,
+      )
+    ) {
+      const returnTo = `${request.nextUrl.pathname}${request.nextUrl.search}`;
+      return NextResponse.redirect(
+        new URL(buildUnlockPath(link.id, returnTo), request.url),
+        307,
+      );
+    }
+
+    // 3. Select destination via probabilistic algorithm
+    // Sticky links derive the draw from a stable visitor key instead of
+    // Math.random(), so returning visitors keep the same destination.
+    // Targeting context: country comes from the same signal stored in
+    // click_events.country_code; device/OS/browser from the user-agent.
+    // Per-rule click caps are counted from click_events.rule_id (cached
+    // briefly per instance, lib/click-counts.ts); the "optimize" strategy
+    // reads clicks and conversions per destination, cached the same way.
+    // Secondaries failing health checks are left out until they recover
+    // (their IDs are cached for a minute per instance).
+    // Bots skip the draw entirely: they go to the link's bot destination
+    // (default: the main URL) and are never pinned with a sticky cookie.
+    const userAgent = request.headers.get("user-agent") || "unknown";
+    const country =
+      request.headers.get("x-vercel-ip-country")?.toUpperCase() || null;
+    const bot = isBot(
+      userAgent,
+      await getCachedBotPatterns(link.workspace_id, getWorkspaceBotPatterns),
+    );
+    const parsedUserAgent = parseUserAgent(userAgent);
+    const stickyVisitor: StickyVisitor = bot
+      ? { key: null }
+      : resolveStickyVisitor(link, {
+          cookieValue: request.cookies.get(stickyCookieName(link.id))?.value,
+          ip,
+          userAgent,
+        });
+    let selected: SelectedDestination;
+    if (bot) {
+      const url = link.bot_destination_url || link.main_destination_url;
+      selected = {
+        url,
+        rule_id: null,
+        is_main: url === link.main_destination_url,
+      };
+    } else {
+      const ruleClickCounts = hasRuleClickCaps(link)
+        ? await getRuleClickCounts(link.id)
+        : undefined;
+      const destinationStats =
+        link.rotation_enabled && link.rotation_strategy === "optimize"
+          ? await getCachedDestinationStats(link.id)
+          : undefined;
+      const unhealthyRuleIds =
+        link.rotation_enabled && link.rotation_rules.length > 0
+          ? await getCachedUnhealthyRuleIds(link.id)
+          : undefined;
+      selected = pickDestination(link, {
+        stickyKey: stickyVisitor.key,
+        visitor: { country, ...parsedUserAgent },
+        ruleClickCounts,
+        destinationStats,
+        unhealthyRuleIds,
+      });
+    }
+    const destination = selected.url;
+
+    // 3b. Forward incoming query params per the link's (or project's) policy.
+    // UTM values are still read separately for the click_events UTM columns.
+    // NOTE: Pass .searchParams (URLSearchParams) — NOT request.nextUrl (NextURL).
+    // NextURL is structurally compatible with URL in TypeScript but fails
+    // `instanceof URL` at runtime, causing extractUtmParams to mishandle it.
+    const incomingUtm: UtmParams = extractUtmParams(
+      request.nextUrl.searchParams,
+    );
+    // QR downloads carry `src=qr` — recorded as the click source, not forwarded
+    const source = isQrScan(request.nextUrl.searchParams) ? "qr" : "link";
+    const passthrough = resolvePassthroughPolicy(link);
+    const forwardedParams = extractPassthroughParams(
+      request.nextUrl.searchParams,
+      passthrough,
+      [
+        ...(link.click_id_param ? [link.click_id_param] : []),
+        ...(source === "qr" ? [QR_SOURCE_PARAM] : []),
+      ],
+    );
+    const hasForwardedParams = Object.keys(forwardedParams).length > 0;
+    const destinationWithUtm = appendQueryParams(
+      destination,
+      forwardedParams,
+      passthrough.override_existing,
+    );
+
+    // 3c. Unique click ID — always recorded, passed on when the link asks for it.
+    // Stored in its own column; resolved_destination_url stays without it so
+    // per-destination aggregates keep grouping.
+    const clickId = generateClickId();
+
+    // 3d. Expand destination macros ({click_id}, {country}, {utm_source|organic}…).
+    // Only the outgoing URL is expanded — resolved_destination_url keeps the
+    // template for the same grouping reason as the click ID.
+    let redirectUrl = destination;
+    if (hasMacros(destination)) {
+      const macroValues = buildMacroValues(
+        {
+          click_id: clickId,
+          link_id: link.id,
+          country,
+          device: parsedUserAgent.device,
+          os: parsedUserAgent.os,
+          browser: parsedUserAgent.browser,
+          timestamp: Math.floor(Date.now() / 1000).toString(),
+        },
+        request.nextUrl.searchParams,
+      );
+      redirectUrl = expandMacros(destination, macroValues);
+    }
+    redirectUrl = appendQueryParams(
+      redirectUrl,
+      forwardedParams,
+      passthrough.override_existing,
+    );
+    if (link.click_id_param) {
+      redirectUrl = appendClickId(redirectUrl, link.click_id_param, clickId);
+    }
+
+    // 3e. Deep links: mobile visitors get a landing page that tries the app,
+    // then falls back to the store (or the web URL). Desktop and bots skip it.
+    const deepLinkPlan = bot
+      ? null
+      : resolveDeepLink(link.deep_link, parsedUserAgent.os);
+    const deepLinkOutcome =
+      link.deep_link && !bot ? initialDeepLinkOutcome(deepLinkPlan) : null;
+
+    // 3f. Deep-link visitors get the app-open landing page, link-preview
+    // crawlers the link's Open Graph tags when it has any, and visitors of
+    // links with retargeting pixels a page that fires them first. Everyone
+    // else is redirected with the link's method, recorded with the click.
+    const pixels =
+      !deepLinkPlan && !bot && hasTrackingPixels(link.tracking_pixels)
+        ? link.tracking_pixels
+        : null;
+    const pixelNonce = pixels ? randomBytes(16).toString("base64") : "";
+    const html = deepLinkPlan
+      ? renderDeepLinkPage({
+          appUrl: deepLinkPlan.appUrl,
+          fallbackUrl: deepLinkPlan.storeUrl ?? redirectUrl,
+          clickId,
+        })
+      : bot
+        ? hasOgPreview(link)
+          ? renderOgPreviewPage(link, {
+              destinationUrl: redirectUrl,
+              origin: request.nextUrl.origin,
+            })
+          : null
+        : pixels
+          ? renderPixelPage(pixels, {
+              destinationUrl: redirectUrl,
+              linkId: link.id,
+              clickId,
+              utm: incomingUtm,
+              nonce: pixelNonce,
+            })
+          : null;
+    const redirectType = html
+      ? null
+      : (link.redirect_type ?? DEFAULT_REDIRECT_TYPE);
+
+    // 4. Log click event and queue it for insertion (non-blocking)
+    const clickEvent: ClickEvent = {
+      timestamp: new Date().toISOString(),
+      link_id: link.id,
+      resolved_destination_url: destinationWithUtm,
+      user_agent: userAgent,
+      went_to_main: destination === link.main_destination_url,
+      rule_id: selected.rule_id,
+      click_id: clickId,
+      forwarded_params: hasForwardedParams ? forwardedParams : null,
+      source,
+      is_bot: bot,
+      deep_link_outcome: deepLinkOutcome,
+      redirect_type: redirectType,
+    };
+
+    console.log("[RouteGenius] Click Event:", JSON.stringify(clickEvent));
+
+    // Queued for a batched insert (lib/click-ingest.ts); after() keeps the
+    // function alive until it is written, without delaying the redirect
+    after(
+      enqueueClick({
+        link_id: linkId,
+        resolved_destination_url: destinationWithUtm,
+        went_to_main: destination === link.main_destination_url,
+        user_agent: userAgent,
+        ip_address: ip,
+        referer: request.headers.get("referer") || null,
+        country_code: country,
+        utm_source: incomingUtm.utm_source || null,
+        utm_medium: incomingUtm.utm_medium || null,
+        utm_campaign: incomingUtm.utm_campaign || null,
+        utm_term: incomingUtm.utm_term || null,
+        utm_content: incomingUtm.utm_content || null,
+        rule_id: selected.rule_id,
+        click_id: clickId,
+        forwarded_params: hasForwardedParams
+          ? JSON.stringify(forwardedParams)
+          : null,
+        source,
+        is_bot: bot,
+        deep_link_outcome: deepLinkOutcome,
+        redirect_type: redirectType,
+        created_at: clickEvent.timestamp,
+      }),
+    );
+    if (!bot) recordClick(link.id, selected.rule_id);
+
+    // 5. Redirect with the link's method (default 307) — forwarded params
+    // (and click ID) included. The pages above are sent as is; the preview
+    // page stays indexable, as some crawlers skip noindex pages. The pixel
+    // page embeds link owners' HTML, so only its nonce'd scripts may run.
+    const response = html
+      ? new NextResponse(html, {
+          status: 200,
+          headers: {
+            "Content-Type": "text/html; charset=utf-8",
+            "Cache-Control": "no-store",
+            ...(bot
+              ? {}
+              : {
+                  "Referrer-Policy": "strict-origin",
+                  "X-Robots-Tag": "noindex",
+                }),
+            ...(pixels
+              ? { "Content-Security-Policy": pixelPageCsp(pixelNonce) }
+              : {}),
+          },
+        })
+      : redirectResponse(
+          redirectUrl,
+          link.redirect_type ?? DEFAULT_REDIRECT_TYPE,
+        );
+
+    // 5a. Report the rate limit's state to the client (the link's own
+    // limit when it has one)
+    for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+      response.headers.set(name, value);
+    }
+
+    // 5b. Pin first-time visitors on cookie-sticky links
+    if (stickyVisitor.cookie) {
+      const { name, value, maxAge } = stickyVisitor.cookie;
+      response.cookies.set(name, value, {
+        httpOnly: true,
+        secure: request.url.startsWith("https"),
+        sameSite: "lax",
+        path: "/",
+        maxAge,
+      });
+    }
+
+    return response;
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    reportError(error, {
+      httpRequest: { method: "GET", url: request.url },
+    });
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 },
+    );
+  }
+}
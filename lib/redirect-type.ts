@@ -0,0 +1,106 @@
+/**
+ * RouteGenius — Redirect Methods
+ *
+ * Each link picks how the redirect sends visitors on (`links.redirect_type`):
+ * an HTTP 301 / 302 / 307, or a small HTML page that redirects with a meta
+ * refresh or with JavaScript (client-side hop, e.g. for pixel firing).
+ * The method used is stored in `click_events.redirect_type`.
+ */
+
+import { escapeHtml, scriptJson } from "./html";
+import type { RedirectType } from "./types";
+
+export const REDIRECT_TYPES: RedirectType[] = [
+  "307",
+  "302",
+  "301",
+  "meta_refresh",
+  "javascript",
+];
+
+export const DEFAULT_REDIRECT_TYPE: RedirectType = "307";
+
+/** Short labels for analytics. */
+export const REDIRECT_TYPE_LABELS: Record<RedirectType, string> = {
+  "307": "307",
+  "302": "302",
+  "301": "301",
+  meta_refresh: "Meta refresh",
+  javascript: "JavaScript",
+};
+
+/**
+ * How long browsers may reuse a 301 (1 day). Cached hops skip the server,
+ * so they are neither rotated nor logged — meant for evergreen links.
+ * `private` keeps shared caches (CDN) from serving one visitor's redirect
+ * to everyone.
+ */
+export const PERMANENT_REDIRECT_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+/**
+ * HTTP redirects keep the browser's default policy; the HTML hops would
+ * otherwise send the full short-link URL (with its query) as referrer.
+ */
+const HTTP_REFERRER_POLICY = "strict-origin-when-cross-origin";
+const HTML_REFERRER_POLICY = "strict-origin";
+
+export function isRedirectType(value: unknown): value is RedirectType {
+  return REDIRECT_TYPES.includes(value as RedirectType);
+}
+
+/** Whether the method answers with an HTML page instead of a 30x. */
+export function isHtmlRedirect(
+  type: RedirectType,
+): type is "meta_refresh" | "javascript" {
+  return type === "meta_refresh" || type === "javascript";
+}
+
+/** Cache and referrer-policy headers for a redirect method. */
+export function getRedirectHeaders(type: RedirectType): Record<string, string> {
+  if (isHtmlRedirect(type)) {
+    return {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+      "Referrer-Policy": HTML_REFERRER_POLICY,
+      "X-Robots-Tag": "noindex",
+    };
+  }
+  return {
+    "Cache-Control":
+      type === "301"
+        ? `private, max-age=${PERMANENT_REDIRECT_MAX_AGE_SECONDS}`
+        : "no-store",
+    "Referrer-Policy": HTTP_REFERRER_POLICY,
+  };
+}
+
+/**
+ * Page for the HTML methods. The JavaScript page falls back to a meta
+ * refresh when scripts are off; both show a link to continue.
+ */
+export function renderRedirectPage(
+  url: string,
+  type: "meta_refresh" | "javascript",
+): string {
+  const refresh = `<meta http-equiv="refresh" content="0;url=${escapeHtml(url)}">`;
+  const head =
+    type === "javascript" ? `<noscript>${refresh}</noscript>` : refresh;
+  const script =
+    type === "javascript"
+      ? `\n<script>window.location.replace(${scriptJson(url)});</script>`
+      : "";
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex, nofollow">
+${head}
+<title>Redirigiendo…</title>
+</head>
+<body>
+<p>Redirigiendo… <a href="${escapeHtml(url)}">Continuar</a></p>${script}
+</body>
+</html>`;
+}
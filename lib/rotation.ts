@@ -5,44 +5,265 @@
  * Probabilistic URL Rotation Specification.
  *
  * Key properties:
- * - Non-sticky: every request is an independent draw
+ * - Non-sticky by default: every request is an independent draw
+ * - Optional sticky mode: a stable visitor key seeds the draw instead
  * - Residual probability assigned to main destination
+ * - Targeting: rules the visitor is not eligible for drop out before the
+ *   draw, and the remaining weights are renormalised
+ * - Dayparting: rules outside their schedule return their weight to main
+ * - Click caps: rules that reached their cap drop out, their share going
+ *   proportionally or to main (per link `cap_redistribution`)
+ * - Health checks: secondaries marked unhealthy drop out like ineligible
+ *   rules until they recover (lib/health-check.ts)
+ * - Optimize strategy: weights of the live destinations are replaced by a
+ *   conversion-driven allocation (lib/bandit.ts)
+ * - Randomness: draws go through an injectable `RandomSource`
+ *   (lib/random.ts), so simulations can be replayed from a seed
  * - Supports 1-100 secondary destinations
  */
 
-import type { Link, SimulationResult } from "./types";
+import type {
+  DestinationStats,
+  Link,
+  RotationRule,
+  SimulationResult,
+} from "./types";
+import type { ParsedUserAgent } from "./user-agent";
+import { hashString, type RandomSource } from "./random";
+import { chiSquareGoodnessOfFit, wilsonInterval } from "./statistics";
+import { isScheduleActive } from "./schedule";
+import {
+  computeOptimizedAllocation,
+  DEFAULT_OPTIMIZE_FLOOR_PERCENTAGE,
+  MAIN_DESTINATION_KEY,
+} from "./bandit";
 
 interface WeightedDestination {
   url: string;
   label: string;
   weight: number; // 0–100
   is_main: boolean;
+  rule_id: string | null;
+}
+
+/** A destination chosen by `pickDestination`. */
+export interface SelectedDestination {
+  url: string;
+  /** Rotation rule that was selected (null for the main destination) */
+  rule_id: string | null;
+  is_main: boolean;
+}
+
+/**
+ * Visitor attributes that rule targeting is evaluated against.
+ * Passing a context (even an empty one) enables targeting; omitting it
+ * treats every rule as eligible, which is what the editor preview wants.
+ */
+export interface VisitorContext extends Partial<ParsedUserAgent> {
+  /** ISO 3166-1 alpha-2 country code, if known */
+  country?: string | null;
+}
+
+/** Inputs that narrow the configured rules down to the live candidates. */
+export interface DestinationFilterOptions {
+  /** Visitor attributes for rule targeting (omit to skip targeting) */
+  visitor?: VisitorContext;
+  /** Clock for rule schedules (omit to skip schedules) */
+  now?: Date;
+  /** Clicks recorded per rule ID, for click caps (omit to skip caps) */
+  ruleClickCounts?: Record<string, number>;
+  /**
+   * Clicks / conversions per destination (rule ID or "main") for the
+   * "optimize" strategy (omit to use the configured weights)
+   */
+  destinationStats?: Record<string, DestinationStats>;
+  /** Rule IDs currently failing health checks (omit to skip) */
+  unhealthyRuleIds?: string[];
+}
+
+/** Per-request inputs to `selectDestination`. */
+export interface SelectDestinationOptions extends DestinationFilterOptions {
+  /**
+   * Stable visitor key for sticky rotation. When set, r is derived from
+   * the key instead of Math.random(), so the same key lands on the same
+   * destination for as long as the weights stay unchanged.
+   */
+  stickyKey?: string | null;
+  /** Source of r for non-sticky draws (default: Math.random) */
+  random?: RandomSource;
+}
+
+/**
+ * Tuning knobs for `simulateClicks`. `visitor` / `now` simulate traffic
+ * from one visitor profile at one instant; omit them to preview the
+ * configured weights.
+ */
+export interface SimulationOptions extends DestinationFilterOptions {
+  /** Fraction (0–1) of simulated clicks made by an already-seen visitor */
+  returningVisitorRate?: number;
+  /** Source of every random choice (default: Math.random) — seed it to replay a run */
+  random?: RandomSource;
+}
+
+/**
+ * Map a string key to a stable number r ∈ [0, 1).
+ *
+ * 32-bit FNV-1a followed by the MurmurHash3 finalizer, so keys that
+ * differ by a single character still spread evenly across [0, 1).
+ * Pure JS (no Node crypto) so the editor simulation can use it too.
+ */
+export function hashToUnitInterval(key: string): number {
+  let hash = hashString(key);
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Walk the cumulative distribution and return the first destination
+ * whose cumulative probability exceeds r. Undefined only on float drift.
+ */
+function pickFromDistribution(
+  destinations: WeightedDestination[],
+  totalWeight: number,
+  r: number,
+): WeightedDestination | undefined {
+  let cumulative = 0;
+  for (const dest of destinations) {
+    cumulative += dest.weight / totalWeight;
+    if (r < cumulative) {
+      return dest;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a visitor's country satisfies a rule's include/exclude lists.
+ * An unknown country fails an include list but passes an exclude list.
+ */
+function matchesCountry(
+  rule: RotationRule,
+  country: string | null | undefined,
+): boolean {
+  const code = country?.trim().toUpperCase() || null;
+  const include = rule.include_countries ?? [];
+  const exclude = rule.exclude_countries ?? [];
+
+  if (include.length > 0 && (!code || !include.includes(code))) {
+    return false;
+  }
+  if (code && exclude.includes(code)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a visitor attribute satisfies an allow-list.
+ * Empty/absent lists allow everything; unknown values fail non-empty lists.
+ */
+function matchesList<T extends string>(
+  allowed: readonly T[] | undefined,
+  value: string | undefined,
+): boolean {
+  if (!allowed || allowed.length === 0) return true;
+  return value !== undefined && (allowed as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a rule is eligible for the given visitor.
+ * Every configured condition must match (country AND device AND OS AND browser).
+ */
+export function isRuleEligible(
+  rule: RotationRule,
+  visitor: VisitorContext,
+): boolean {
+  return (
+    matchesCountry(rule, visitor.country) &&
+    matchesList(rule.devices, visitor.device) &&
+    matchesList(rule.operating_systems, visitor.os) &&
+    matchesList(rule.browsers, visitor.browser)
+  );
+}
+
+/** Whether any rule of a link has a click cap that requires counting. */
+export function hasRuleClickCaps(link: Link): boolean {
+  return link.rotation_rules.some(
+    (r) => typeof r.click_cap === "number" && r.click_cap > 0,
+  );
+}
+
+/** Whether a rule has reached its click cap. */
+export function isRuleCapped(
+  rule: RotationRule,
+  ruleClickCounts: Record<string, number>,
+): boolean {
+  if (typeof rule.click_cap !== "number" || rule.click_cap <= 0) return false;
+  return (ruleClickCounts[rule.id] ?? 0) >= rule.click_cap;
 }
 
 /**
  * Build the list of weighted destinations including the main fallback.
  * Residual weight (100 - sum of rule weights) goes to the main destination.
+ *
+ * When `now` is given, rules outside their schedule are removed BEFORE the
+ * residual is computed, so their weight returns to the main destination.
+ *
+ * When a visitor context is given, ineligible rules are dropped AFTER the
+ * residual is computed. Callers divide by the remaining total, so the
+ * dropped share is spread proportionally over the eligible destinations.
+ *
+ * When `ruleClickCounts` is given, rules that reached their click cap are
+ * dropped before the residual (`cap_redistribution: "main"`) or after it
+ * (`"proportional"`, the default).
+ *
+ * Rules in `unhealthyRuleIds` are dropped after the residual as well, so
+ * their share is spread over the destinations that are still up.
  */
-export function buildWeightedDestinations(link: Link): WeightedDestination[] {
-  const rules = link.rotation_rules.filter(
-    (r) => r.destination_url.trim() !== "" && r.weight_percentage > 0,
+export function buildWeightedDestinations(
+  link: Link,
+  options: DestinationFilterOptions = {},
+): WeightedDestination[] {
+  const { visitor, now, ruleClickCounts, unhealthyRuleIds } = options;
+  const capsToMain = (link.cap_redistribution ?? "proportional") === "main";
+  const isCapped = (r: RotationRule) =>
+    !!ruleClickCounts && isRuleCapped(r, ruleClickCounts);
+
+  const configured = link.rotation_rules.filter(
+    (r) =>
+      r.destination_url.trim() !== "" &&
+      r.weight_percentage > 0 &&
+      (!now || !r.schedule || isScheduleActive(r.schedule, now)) &&
+      !(capsToMain && isCapped(r)),
   );
 
-  const totalRuleWeight = rules.reduce(
+  const totalRuleWeight = configured.reduce(
     (sum, r) => sum + r.weight_percentage,
     0,
   );
   const mainWeight = Math.max(0, 100 - totalRuleWeight);
 
+  const rules = configured.filter(
+    (r) =>
+      (!visitor || isRuleEligible(r, visitor)) &&
+      !isCapped(r) &&
+      !unhealthyRuleIds?.includes(r.id),
+  );
+
   const destinations: WeightedDestination[] = [];
 
-  // Main destination gets residual weight
+  // Main destination gets residual weight (or everything if no rule is left)
   if (mainWeight > 0 || rules.length === 0) {
     destinations.push({
       url: link.main_destination_url,
       label: "Destino Principal",
       weight: rules.length === 0 ? 100 : mainWeight,
       is_main: true,
+      rule_id: null,
     });
   }
 
@@ -53,60 +274,142 @@ export function buildWeightedDestinations(link: Link): WeightedDestination[] {
       label: `Secundario #${rule.order_index + 1}`,
       weight: rule.weight_percentage,
       is_main: false,
+      rule_id: rule.id,
     });
   }
 
   return destinations;
 }
 
+/**
+ * Replace the weights of the live destinations with the optimized
+ * allocation when the link uses the "optimize" strategy. The configured
+ * weights still decide which destinations take part (a main destination
+ * without residual weight stays out).
+ */
+function applyRotationStrategy(
+  link: Link,
+  destinations: WeightedDestination[],
+  stats: Record<string, DestinationStats> | undefined,
+): WeightedDestination[] {
+  if ((link.rotation_strategy ?? "fixed") !== "optimize" || !stats) {
+    return destinations;
+  }
+
+  const keyOf = (d: WeightedDestination) => d.rule_id ?? MAIN_DESTINATION_KEY;
+  const allocation = computeOptimizedAllocation(
+    destinations.map(keyOf),
+    stats,
+    link.optimize_floor_percentage ?? DEFAULT_OPTIMIZE_FLOOR_PERCENTAGE,
+  );
+  return destinations.map((d) => ({ ...d, weight: allocation[keyOf(d)] ?? 0 }));
+}
+
 /**
  * Select a single destination using the probabilistic algorithm.
  *
  * Algorithm:
  * 1. Build cumulative probability distribution from weights
- * 2. Generate random number r ∈ [0, 1)
+ * 2. Generate random number r ∈ [0, 1) — or derive it from `stickyKey`
  * 3. Find the first destination whose cumulative probability >= r
  *
- * This is a single independent draw (non-sticky).
+ * Without a sticky key this is a single independent draw (non-sticky).
+ * Schedules are always evaluated here, against `options.now` when given
+ * (injectable clock) or the current time otherwise.
+ */
+export function selectDestination(
+  link: Link,
+  options: SelectDestinationOptions = {},
+): string {
+  return pickDestination(link, options).url;
+}
+
+/**
+ * Same draw as `selectDestination`, but also reports which rule was
+ * selected — the redirect route records it for per-rule click caps.
  */
-export function selectDestination(link: Link): string {
+export function pickDestination(
+  link: Link,
+  options: SelectDestinationOptions = {},
+): SelectedDestination {
+  const main: SelectedDestination = {
+    url: link.main_destination_url,
+    rule_id: null,
+    is_main: true,
+  };
+
   if (!link.rotation_enabled || link.rotation_rules.length === 0) {
-    return link.main_destination_url;
+    return main;
   }
 
-  const destinations = buildWeightedDestinations(link);
+  const destinations = applyRotationStrategy(
+    link,
+    buildWeightedDestinations(link, {
+      visitor: options.visitor,
+      now: options.now ?? new Date(),
+      ruleClickCounts: options.ruleClickCounts,
+      unhealthyRuleIds: options.unhealthyRuleIds,
+    }),
+    options.destinationStats,
+  );
   const totalWeight = destinations.reduce((sum, d) => sum + d.weight, 0);
 
   if (totalWeight === 0) {
-    return link.main_destination_url;
+    return main;
   }
 
-  // Generate random number r ∈ [0, 1)
-  const r = Math.random();
+  // Generate r ∈ [0, 1): deterministic for sticky visitors, random otherwise
+  const r = options.stickyKey
+    ? hashToUnitInterval(options.stickyKey)
+    : (options.random ?? Math.random)();
 
   // Walk the cumulative distribution
-  let cumulative = 0;
-  for (const dest of destinations) {
-    cumulative += dest.weight / totalWeight;
-    if (r < cumulative) {
-      return dest.url;
-    }
-  }
+  const selected = pickFromDistribution(destinations, totalWeight, r);
 
   // Fallback (should not reach here due to floating point)
-  return link.main_destination_url;
+  if (!selected) return main;
+  return {
+    url: selected.url,
+    rule_id: selected.rule_id,
+    is_main: selected.is_main,
+  };
 }
 
 /**
  * Run a Monte Carlo simulation of N clicks.
  * Returns the distribution of clicks across all destinations.
+ *
+ * With `returningVisitorRate` > 0, that fraction of clicks is replayed by
+ * a previously simulated visitor. On sticky links those visitors keep
+ * their first destination; on non-sticky links they draw again.
+ *
+ * On "optimize" links with `destinationStats`, clicks follow the current
+ * optimized allocation, reported next to the configured weight.
+ *
+ * Each result carries a 95% confidence interval of its share and the
+ * chi-square goodness-of-fit p-value of the run, computed over the
+ * independent draws: every click on non-sticky links, the first click of
+ * each visitor on sticky links (returning visitors repeat their draw).
  */
 export function simulateClicks(
   link: Link,
   iterations: number = 1000,
+  options: SimulationOptions = {},
 ): SimulationResult[] {
-  const destinations = buildWeightedDestinations(link);
+  const configured = buildWeightedDestinations(link, options);
+  const destinations = applyRotationStrategy(
+    link,
+    configured,
+    options.destinationStats,
+  );
+  const isOptimized = destinations !== configured;
   const totalWeight = destinations.reduce((sum, d) => sum + d.weight, 0);
+  const isSticky = (link.stickiness ?? "none") !== "none";
+  const returningRate = Math.min(
+    1,
+    Math.max(0, options.returningVisitorRate ?? 0),
+  );
+  const random = options.random ?? Math.random;
 
   // Initialize hit counters
   const hitMap = new Map<string, number>();
@@ -114,30 +417,54 @@ export function simulateClicks(
     hitMap.set(d.url, 0);
   }
 
+  // Independent draws per destination, for the statistical test
+  const drawCounts = destinations.map(() => 0);
+
+  // Simulated visitor pool (keys mirror the redirect route's sticky keys)
+  const visitorKeys: string[] = [];
+
   // Run simulation
   for (let i = 0; i < iterations; i++) {
-    const r = Math.random();
-    let cumulative = 0;
-    let selected = destinations[destinations.length - 1]; // fallback
-
-    for (const dest of destinations) {
-      cumulative += dest.weight / totalWeight;
-      if (r < cumulative) {
-        selected = dest;
-        break;
-      }
+    let visitorKey: string;
+    let returning = false;
+    if (visitorKeys.length > 0 && random() < returningRate) {
+      visitorKey = visitorKeys[Math.floor(random() * visitorKeys.length)];
+      returning = true;
+    } else {
+      visitorKey = `${link.id}:sim-${visitorKeys.length}`;
+      visitorKeys.push(visitorKey);
     }
 
+    const r = isSticky ? hashToUnitInterval(visitorKey) : random();
+    const selected =
+      pickFromDistribution(destinations, totalWeight, r) ??
+      destinations[destinations.length - 1]; // fallback
+
     hitMap.set(selected.url, (hitMap.get(selected.url) || 0) + 1);
+    if (!(isSticky && returning)) {
+      drawCounts[destinations.indexOf(selected)]++;
+    }
   }
 
+  const draws = drawCounts.reduce((sum, c) => sum + c, 0);
+  const { pValue } = chiSquareGoodnessOfFit(
+    drawCounts,
+    destinations.map((d) => d.weight),
+  );
+
   // Build results
-  return destinations.map((d) => ({
+  return destinations.map((d, i) => ({
     url: d.url,
     label: d.label,
-    configured_weight: d.weight,
+    configured_weight: configured[i].weight,
     actual_hits: hitMap.get(d.url) || 0,
     actual_percentage: ((hitMap.get(d.url) || 0) / iterations) * 100,
+    ...(isOptimized && { optimized_weight: d.weight }),
+    expected_percentage: totalWeight > 0 ? (d.weight / totalWeight) * 100 : 0,
+    confidence_interval: wilsonInterval(drawCounts[i], draws).map(
+      (bound) => bound * 100,
+    ) as [number, number],
+    p_value: pValue,
     is_main: d.is_main,
   }));
 }
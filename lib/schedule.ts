@@ -0,0 +1,85 @@
+/**
+ * RouteGenius — Rule Schedules (Dayparting)
+ *
+ * Evaluates a rotation rule's weekly schedule against a clock in the
+ * advertiser's timezone. Uses `Intl.DateTimeFormat` for the timezone
+ * conversion, so DST transitions are handled by the runtime.
+ *
+ * Isomorphic — imported by the rotation engine and the editor grid.
+ */
+
+import type { RuleSchedule } from "./types";
+
+/** Weekday labels (0 = Sunday), matching `RuleSchedule.weekly_hours`. */
+export const WEEKDAY_LABELS = [
+  "Dom",
+  "Lun",
+  "Mar",
+  "Mié",
+  "Jue",
+  "Vie",
+  "Sáb",
+] as const;
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+/** Whether the runtime recognises an IANA timezone name. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Weekday (0 = Sunday) and hour (0–23) of an instant in a timezone.
+ * Unknown timezones fall back to UTC rather than throwing on the hot path.
+ */
+export function getLocalDayAndHour(
+  now: Date,
+  timeZone: string,
+): { day: number; hour: number } {
+  const zone = isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: zone,
+    weekday: "short",
+    hour: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(now);
+
+  const weekday = parts.find((p) => p.type === "weekday")?.value ?? "Sun";
+  const hour = parseInt(parts.find((p) => p.type === "hour")?.value ?? "0");
+
+  return { day: WEEKDAY_INDEX[weekday] ?? 0, hour: hour % 24 };
+}
+
+/** Whether a schedule has an active window at the given instant. */
+export function isScheduleActive(schedule: RuleSchedule, now: Date): boolean {
+  const { day, hour } = getLocalDayAndHour(now, schedule.timezone);
+  return schedule.weekly_hours[day]?.includes(hour) ?? false;
+}
+
+/**
+ * Default schedule for a newly scheduled rule: Monday–Friday, 09:00–18:00.
+ *
+ * @param timeZone - IANA timezone (e.g. the editor's browser timezone)
+ */
+export function createBusinessHoursSchedule(timeZone: string): RuleSchedule {
+  const businessHours = Array.from({ length: 9 }, (_, i) => 9 + i);
+  return {
+    timezone: timeZone,
+    weekly_hours: Array.from({ length: 7 }, (_, day) =>
+      day >= 1 && day <= 5 ? [...businessHours] : [],
+    ),
+  };
+}
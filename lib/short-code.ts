@@ -0,0 +1,33 @@
+/**
+ * RouteGenius — Short Codes
+ *
+ * Every link gets a short code served from `/r/<code>` — a random base62
+ * code (see lib/slug.ts) or a vanity code chosen by the user. Codes a
+ * link used before keep redirecting to it (`link_short_codes`).
+ */
+
+import { generateRandomSlug } from "./slug";
+
+/** Path prefix of short links. */
+export const SHORT_LINK_PATH = "/r/";
+
+/** Length of generated codes: 7 base62 characters (~3.5 × 10¹² codes). */
+const SHORT_CODE_LENGTH = 7;
+
+/** Vanity codes: 3–32 letters, digits, "-" or "_", starting alphanumeric. */
+const SHORT_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{2,31}$/;
+
+/** Generate a random short code (collisions are checked on claim). */
+export function generateShortCode(): string {
+  return generateRandomSlug(SHORT_CODE_LENGTH);
+}
+
+/** Whether a string is acceptable as a (vanity) short code. */
+export function isValidShortCode(code: string): boolean {
+  return SHORT_CODE_PATTERN.test(code);
+}
+
+/** Public short URL of a code, e.g. "https://route.topnetworks.co/r/promo". */
+export function buildShortUrl(origin: string, code: string): string {
+  return `${origin}${SHORT_LINK_PATH}${encodeURIComponent(code)}`;
+}
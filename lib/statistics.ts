@@ -0,0 +1,141 @@
+/**
+ * RouteGenius — Rotation Statistics
+ *
+ * Checks a rotation sample against its configured weights: Wilson score
+ * intervals for each destination's share and Pearson's chi-square
+ * goodness-of-fit test for the whole distribution. Pure JS.
+ */
+
+/** z for a two-sided 95% confidence interval. */
+export const Z_95 = 1.959964;
+
+/** p-value below which observed traffic counts as deviating. */
+export const DEVIATION_P_VALUE = 0.01;
+
+/**
+ * Wilson score interval for a proportion (hits out of n), as fractions.
+ * Stays within [0, 1] and behaves at 0 or n hits, unlike the normal
+ * approximation.
+ */
+export function wilsonInterval(
+  hits: number,
+  n: number,
+  z: number = Z_95,
+): [number, number] {
+  if (n <= 0) return [0, 1];
+  const p = hits / n;
+  const z2 = z * z;
+  const denominator = 1 + z2 / n;
+  const centre = (p + z2 / (2 * n)) / denominator;
+  const margin =
+    (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denominator;
+  return [Math.max(0, centre - margin), Math.min(1, centre + margin)];
+}
+
+/** ln Γ(x) for x > 0 (Lanczos approximation, g = 7). */
+function logGamma(x: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const shifted = x - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    sum += coefficients[i] / (shifted + i);
+  }
+  const t = shifted + 7.5;
+  return (
+    0.5 * Math.log(2 * Math.PI) +
+    (shifted + 0.5) * Math.log(t) -
+    t +
+    Math.log(sum)
+  );
+}
+
+/**
+ * Regularized upper incomplete gamma Q(a, x) — series for x < a + 1,
+ * continued fraction otherwise (Numerical Recipes §6.2).
+ */
+function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+}
+
+export interface ChiSquareResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  /** Probability of a deviation at least this large if the weights hold */
+  pValue: number;
+}
+
+/**
+ * Pearson's chi-square goodness-of-fit test of observed counts against
+ * expected probabilities (normalised, so they may be weights). Categories
+ * with zero probability only count when they received hits — then the
+ * sample can't come from the distribution and p = 0.
+ */
+export function chiSquareGoodnessOfFit(
+  observed: number[],
+  probabilities: number[],
+): ChiSquareResult {
+  const n = observed.reduce((sum, o) => sum + o, 0);
+  const total = probabilities.reduce((sum, p) => sum + p, 0);
+  let statistic = 0;
+  let categories = 0;
+
+  for (let i = 0; i < observed.length; i++) {
+    const expected = total > 0 ? (n * probabilities[i]) / total : 0;
+    if (expected === 0) {
+      if (observed[i] > 0) {
+        return { statistic: Infinity, degreesOfFreedom: 0, pValue: 0 };
+      }
+      continue;
+    }
+    statistic += (observed[i] - expected) ** 2 / expected;
+    categories++;
+  }
+
+  const degreesOfFreedom = Math.max(0, categories - 1);
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue:
+      n === 0 || degreesOfFreedom === 0
+        ? 1
+        : upperIncompleteGamma(degreesOfFreedom / 2, statistic / 2),
+  };
+}
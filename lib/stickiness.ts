@@ -0,0 +1,103 @@
+/**
+ * RouteGenius — Sticky Rotation
+ *
+ * Resolves the visitor key that `selectDestination()` hashes into its
+ * draw value, so returning visitors land on the same destination.
+ *
+ *   cookie      → random visitor ID in a per-link cookie (Max-Age = TTL)
+ *   fingerprint → link ID + IP + user-agent + current TTL window
+ *
+ * Fingerprint assignments are bucketed by TTL window rather than tracked
+ * per visitor, so every fingerprinted visitor is re-drawn at the same
+ * window boundary. No state is stored server-side in either mode.
+ *
+ * @module lib/stickiness
+ */
+
+import type { Link, StickinessMode } from "./types";
+import { generateRandomSlug } from "./slug";
+
+/** Default sticky assignment lifetime: 30 days */
+export const DEFAULT_STICKINESS_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Length of the random visitor ID stored in the sticky cookie */
+const VISITOR_ID_LENGTH = 16;
+
+/** Accepts only IDs this module could have generated */
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9]{8,64}$/;
+
+/** Name of the cookie holding a link's sticky visitor ID. */
+export function stickyCookieName(linkId: string): string {
+  return `rg_sv_${linkId}`;
+}
+
+/** Effective stickiness mode for a link (defaults to "none"). */
+export function getStickinessMode(link: Link): StickinessMode {
+  return link.stickiness ?? "none";
+}
+
+/** Effective sticky TTL in seconds (falls back to the 30-day default). */
+export function getStickinessTtl(link: Link): number {
+  const ttl = link.stickiness_ttl_seconds;
+  return ttl && ttl > 0 ? ttl : DEFAULT_STICKINESS_TTL_SECONDS;
+}
+
+export interface StickyVisitor {
+  /** Key to pass to `selectDestination()`, or null for an independent draw */
+  key: string | null;
+  /** Cookie to set on the response (first visit in cookie mode only) */
+  cookie?: { name: string; value: string; maxAge: number };
+}
+
+export interface StickyRequestInfo {
+  /** Current value of the link's sticky cookie, if any */
+  cookieValue?: string;
+  /** Client IP address */
+  ip: string;
+  /** Client user-agent string */
+  userAgent: string;
+  /** Clock override in epoch milliseconds (defaults to Date.now()) */
+  now?: number;
+}
+
+/**
+ * Resolve the sticky visitor key for a redirect request.
+ *
+ * @param link - The link being redirected
+ * @param request - Cookie, IP, and user-agent of the incoming request
+ * @returns The visitor key and, for new cookie-mode visitors, the cookie to set
+ */
+export function resolveStickyVisitor(
+  link: Link,
+  request: StickyRequestInfo,
+): StickyVisitor {
+  const mode = getStickinessMode(link);
+  const ttl = getStickinessTtl(link);
+
+  if (mode === "cookie") {
+    const existing = request.cookieValue;
+    if (existing && VISITOR_ID_PATTERN.test(existing)) {
+      return { key: `${link.id}:${existing}` };
+    }
+
+    const visitorId = generateRandomSlug(VISITOR_ID_LENGTH);
+    return {
+      key: `${link.id}:${visitorId}`,
+      cookie: {
+        name: stickyCookieName(link.id),
+        value: visitorId,
+        maxAge: ttl,
+      },
+    };
+  }
+
+  if (mode === "fingerprint") {
+    const now = request.now ?? Date.now();
+    const window = Math.floor(now / (ttl * 1000));
+    return {
+      key: `${link.id}:${request.ip}:${request.userAgent}:${window}`,
+    };
+  }
+
+  return { key: null };
+}
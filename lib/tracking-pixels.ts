@@ -0,0 +1,250 @@
+/**
+ * RouteGenius — Retargeting Pixels
+ *
+ * A link (or its project) can list tracking pixels: GA4, Meta Pixel,
+ * TikTok pixel and custom head/body HTML. Human visitors of such a link
+ * get a lightweight page that fires the pixels with the click's UTM data
+ * and then forwards to the drawn destination — as soon as every pixel
+ * has reported, and at the latest after `PIXEL_FORWARD_TIMEOUT_MS`.
+ * Bots never see the page.
+ *
+ * The page keeps the app's origin, so the pixels can set their first-party
+ * cookies (`_ga`, `_fbp`). Its CSP (`pixelPageCsp()`) only runs scripts
+ * carrying the per-response nonce and the scripts they load, so custom
+ * HTML may add markup (image pixels, iframes) but none of its scripts run
+ * in a visitor's session.
+ */
+
+import { escapeHtml, scriptJson } from "./html";
+import type { TrackingPixels } from "./types";
+import type { UtmParams } from "./utm";
+
+/** Upper bound before the page forwards, whatever the pixels do (ms). */
+export const PIXEL_FORWARD_TIMEOUT_MS = 2000;
+
+/** Time left to Meta / TikTok after their script loads (no callbacks). */
+const PIXEL_FLUSH_MS = 300;
+
+export const MAX_CUSTOM_PIXEL_HTML_LENGTH = 10_000;
+
+/**
+ * Content-Security-Policy of the pixel page: the page's own scripts carry
+ * `nonce`, and `'strict-dynamic'` extends the trust to the pixel SDKs they
+ * load. Scripts and inline handlers in custom HTML are blocked.
+ */
+export function pixelPageCsp(nonce: string): string {
+  return `script-src 'nonce-${nonce}' 'strict-dynamic'; object-src 'none'; base-uri 'none'`;
+}
+
+const GA4_ID_PATTERN = /^G-[A-Z0-9]{4,20}$/;
+const META_PIXEL_ID_PATTERN = /^\d{6,20}$/;
+const TIKTOK_PIXEL_ID_PATTERN = /^[A-Z0-9]{10,30}$/;
+
+export type TrackingPixelsResult =
+  | { ok: true; pixels: TrackingPixels | null }
+  | { ok: false; error: string };
+
+/**
+ * Validate and normalise pixels from the editor. IDs are trimmed and
+ * upper-cased. `null` (inherit / none) passes through; a config with every
+ * field empty is kept — on a link it turns the project's pixels off.
+ */
+export function normalizeTrackingPixels(
+  input: Partial<TrackingPixels> | null | undefined,
+): TrackingPixelsResult {
+  if (!input) return { ok: true, pixels: null };
+
+  const pixels: TrackingPixels = {
+    ga4_measurement_id: input.ga4_measurement_id?.trim().toUpperCase() || null,
+    meta_pixel_id: input.meta_pixel_id?.trim() || null,
+    tiktok_pixel_id: input.tiktok_pixel_id?.trim().toUpperCase() || null,
+    custom_head_html: input.custom_head_html?.trim() || null,
+    custom_body_html: input.custom_body_html?.trim() || null,
+  };
+
+  if (
+    pixels.ga4_measurement_id &&
+    !GA4_ID_PATTERN.test(pixels.ga4_measurement_id)
+  ) {
+    return {
+      ok: false,
+      error: 'El ID de medición de GA4 debe tener el formato "G-XXXXXXX".',
+    };
+  }
+  if (
+    pixels.meta_pixel_id &&
+    !META_PIXEL_ID_PATTERN.test(pixels.meta_pixel_id)
+  ) {
+    return { ok: false, error: "El ID del píxel de Meta debe ser numérico." };
+  }
+  if (
+    pixels.tiktok_pixel_id &&
+    !TIKTOK_PIXEL_ID_PATTERN.test(pixels.tiktok_pixel_id)
+  ) {
+    return { ok: false, error: "El ID del píxel de TikTok no es válido." };
+  }
+  for (const html of [pixels.custom_head_html, pixels.custom_body_html]) {
+    if (html && html.length > MAX_CUSTOM_PIXEL_HTML_LENGTH) {
+      return {
+        ok: false,
+        error: `El HTML personalizado admite como máximo ${MAX_CUSTOM_PIXEL_HTML_LENGTH.toLocaleString("es")} caracteres.`,
+      };
+    }
+  }
+  return { ok: true, pixels };
+}
+
+/** Parse a JSONB pixels column (object or JSON string). */
+export function parseTrackingPixels(value: unknown): TrackingPixels | null {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!raw || typeof raw !== "object") return null;
+  const result = normalizeTrackingPixels(raw as Partial<TrackingPixels>);
+  return result.ok ? result.pixels : null;
+}
+
+/** Whether a config has anything to fire. */
+export function hasTrackingPixels(
+  pixels: TrackingPixels | null | undefined,
+): pixels is TrackingPixels {
+  return !!pixels && Object.values(pixels).some(Boolean);
+}
+
+/**
+ * Page that fires the pixels and forwards to `destinationUrl`. Each pixel
+ * reports through `done()`; the page leaves when all have, or when the
+ * timeout hits (blocked scripts, slow networks). Serve it with
+ * `pixelPageCsp(nonce)` for the same `nonce`.
+ */
+export function renderPixelPage(
+  pixels: TrackingPixels,
+  options: {
+    destinationUrl: string;
+    linkId: string;
+    clickId: string;
+    utm: UtmParams;
+    /** Per-response CSP nonce (base64) */
+    nonce: string;
+  },
+): string {
+  const { destinationUrl, linkId, clickId, utm, nonce } = options;
+  const eventParams = {
+    link_id: linkId,
+    click_id: clickId,
+    ...Object.fromEntries(Object.entries(utm).filter(([, value]) => value)),
+  };
+  const data = scriptJson({
+    url: destinationUrl,
+    timeout: PIXEL_FORWARD_TIMEOUT_MS,
+    flush: PIXEL_FLUSH_MS,
+    ga4: pixels.ga4_measurement_id,
+    meta: pixels.meta_pixel_id,
+    tiktok: pixels.tiktok_pixel_id,
+    params: eventParams,
+  });
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex, nofollow">
+<noscript><meta http-equiv="refresh" content="0;url=${escapeHtml(destinationUrl)}"></noscript>
+<title>Redirigiendo…</title>
+<script nonce="${escapeHtml(nonce)}">
+(function () {
+  var d = ${data};
+  var pending = (d.ga4 ? 1 : 0) + (d.meta ? 1 : 0) + (d.tiktok ? 1 : 0);
+  var left = false;
+  function go() {
+    if (left) return;
+    left = true;
+    window.location.replace(d.url);
+  }
+  function done() {
+    pending -= 1;
+    if (pending <= 0) go();
+  }
+  function load(src, onload) {
+    var s = document.createElement("script");
+    s.async = true;
+    s.src = src;
+    s.onload = onload;
+    document.head.appendChild(s);
+  }
+  window.__rgPixelsDone = function () {
+    if (pending <= 0) setTimeout(go, d.flush);
+  };
+  setTimeout(go, d.timeout);
+  if (d.ga4) {
+    window.dataLayer = window.dataLayer || [];
+    window.gtag = function () { window.dataLayer.push(arguments); };
+    window.gtag("js", new Date());
+    window.gtag("config", d.ga4, { send_page_view: false });
+    var ga4Params = {
+      event_callback: done,
+      event_timeout: d.timeout,
+      campaign_source: d.params.utm_source,
+      campaign_medium: d.params.utm_medium,
+      campaign_name: d.params.utm_campaign,
+      campaign_term: d.params.utm_term,
+      campaign_content: d.params.utm_content,
+      link_id: d.params.link_id,
+      click_id: d.params.click_id
+    };
+    window.gtag("event", "page_view", ga4Params);
+    load("https://www.googletagmanager.com/gtag/js?id=" + encodeURIComponent(d.ga4));
+  }
+  if (d.meta) {
+    var fbq = window.fbq = function () {
+      fbq.callMethod ? fbq.callMethod.apply(fbq, arguments) : fbq.queue.push(arguments);
+    };
+    window._fbq = fbq;
+    fbq.push = fbq;
+    fbq.loaded = true;
+    fbq.version = "2.0";
+    fbq.queue = [];
+    fbq("init", d.meta);
+    fbq("track", "PageView", d.params);
+    load("https://connect.facebook.net/en_US/fbevents.js", function () {
+      setTimeout(done, d.flush);
+    });
+  }
+  if (d.tiktok) {
+    var ttq = window.ttq = [];
+    window.TiktokAnalyticsObject = "ttq";
+    ttq.methods = ["page", "track", "identify", "instances", "debug", "on", "off", "once", "ready", "alias", "group", "enableCookie", "disableCookie"];
+    ttq.setAndDefer = function (t, e) {
+      t[e] = function () { t.push([e].concat(Array.prototype.slice.call(arguments, 0))); };
+    };
+    for (var i = 0; i < ttq.methods.length; i++) ttq.setAndDefer(ttq, ttq.methods[i]);
+    var tiktokSrc = "https://analytics.tiktok.com/i18n/pixel/events.js";
+    ttq._i = {};
+    ttq._i[d.tiktok] = [];
+    ttq._i[d.tiktok]._u = tiktokSrc;
+    ttq._t = {};
+    ttq._t[d.tiktok] = +new Date();
+    ttq._o = {};
+    ttq._o[d.tiktok] = {};
+    ttq.page();
+    load(tiktokSrc + "?sdkid=" + encodeURIComponent(d.tiktok) + "&lib=ttq", function () {
+      setTimeout(done, d.flush);
+    });
+  }
+})();
+</script>
+${pixels.custom_head_html ?? ""}
+</head>
+<body>
+<p>Redirigiendo… <a href="${escapeHtml(destinationUrl)}">Continuar</a></p>
+${pixels.custom_body_html ?? ""}
+<script nonce="${escapeHtml(nonce)}">window.__rgPixelsDone();</script>
+</body>
+</html>`;
+}
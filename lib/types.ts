@@ -3,6 +3,35 @@
  * Based on the Probabilistic URL Rotation Specification.
  */
 
+/** Device classes a rotation rule can target. */
+export type DeviceClass = "mobile" | "tablet" | "desktop";
+
+/** Operating systems a rotation rule can target. */
+export type OperatingSystem = "ios" | "android" | "windows" | "macos";
+
+/** Browser families a rotation rule can target. */
+export type BrowserFamily =
+  | "chrome"
+  | "safari"
+  | "firefox"
+  | "edge"
+  | "samsung"
+  | "opera";
+
+/**
+ * Weekly activity window for a rotation rule, evaluated in `timezone`.
+ * Outside its active hours a rule's weight returns to the main destination.
+ */
+export interface RuleSchedule {
+  /** IANA timezone the hours are expressed in (e.g. "America/Bogota") */
+  timezone: string;
+  /**
+   * Seven entries, index 0 = Sunday … 6 = Saturday. Each lists the
+   * active hours (0–23); hour h covers h:00–h:59 local time.
+   */
+  weekly_hours: number[][];
+}
+
 /** A single rotation rule mapping a destination URL to a weight. */
 export interface RotationRule {
   /** Unique ID for react key / future DB reference */
@@ -13,6 +42,135 @@ export interface RotationRule {
   weight_percentage: number;
   /** Display order index */
   order_index: number;
+  /**
+   * ISO 3166-1 alpha-2 codes this rule is limited to (uppercase).
+   * Empty/absent means every country is eligible.
+   */
+  include_countries?: string[];
+  /** ISO 3166-1 alpha-2 codes this rule never serves (uppercase) */
+  exclude_countries?: string[];
+  /** Device classes this rule is limited to (empty/absent = all) */
+  devices?: DeviceClass[];
+  /** Operating systems this rule is limited to (empty/absent = all) */
+  operating_systems?: OperatingSystem[];
+  /** Browser families this rule is limited to (empty/absent = all) */
+  browsers?: BrowserFamily[];
+  /** Dayparting schedule (absent = always active) */
+  schedule?: RuleSchedule;
+  /**
+   * Clicks this destination may receive before it is switched off
+   * (null/absent = unlimited). Counted from click_events.rule_id.
+   */
+  click_cap?: number | null;
+}
+
+/**
+ * How a link's traffic is split across its destinations.
+ * - "fixed": the hand-set `weight_percentage` values
+ * - "optimize": shifted toward the best-converting destinations
+ *   (Thompson sampling, see lib/bandit.ts)
+ */
+export type RotationStrategy = "fixed" | "optimize";
+
+/** Recorded clicks and conversions for one destination. */
+export interface DestinationStats {
+  clicks: number;
+  conversions: number;
+}
+
+/** Result of the scheduled destination health checks. */
+export type DestinationHealthStatus = "healthy" | "unhealthy";
+
+/** Health record of one destination of a link (see lib/health-check.ts). */
+export interface DestinationHealth {
+  link_id: string;
+  /** Rotation rule ID, or "main" for the main destination */
+  destination_key: string;
+  /** URL that was probed */
+  url: string;
+  status: DestinationHealthStatus;
+  /** HTTP status of the last probe (null on network error / timeout) */
+  status_code: number | null;
+  /** Duration of the last probe in milliseconds */
+  latency_ms: number | null;
+  /** Failure reason of the last probe */
+  error: string | null;
+  consecutive_failures: number;
+  consecutive_successes: number;
+  /** ISO timestamp of the last probe */
+  last_checked_at: string;
+}
+
+/**
+ * Where a capped rule's share goes once its click cap is reached.
+ * - "proportional": spread across the remaining destinations by weight
+ * - "main": returned to the main destination
+ */
+export type CapRedistributionMode = "proportional" | "main";
+
+/**
+ * How returning visitors are pinned to a destination.
+ * - "none": every click is an independent draw
+ * - "cookie": a per-link visitor cookie seeds a deterministic draw
+ * - "fingerprint": a hash of IP + user-agent seeds a deterministic draw
+ */
+export type StickinessMode = "none" | "cookie" | "fingerprint";
+
+/**
+ * How the redirect sends visitors on (see lib/redirect-type.ts).
+ * - "301" / "302" / "307": HTTP redirect with that status
+ * - "meta_refresh": HTML page with a `<meta http-equiv="refresh">`
+ * - "javascript": HTML page that redirects with `location.replace()`
+ */
+export type RedirectType =
+  | "301"
+  | "302"
+  | "307"
+  | "meta_refresh"
+  | "javascript";
+
+/**
+ * Which incoming query parameters are forwarded to the destination.
+ * - "utm": only the five UTM keys
+ * - "all": every parameter
+ * - "allowlist": the UTM keys plus the listed parameters
+ * - "blocklist": every parameter except the listed ones
+ */
+export type ParamPassthroughMode = "utm" | "all" | "allowlist" | "blocklist";
+
+/** Query parameter passthrough settings (see lib/passthrough.ts). */
+export interface ParamPassthroughPolicy {
+  mode: ParamPassthroughMode;
+  /** Parameter names for "allowlist" / "blocklist" */
+  params: string[];
+  /** Whether forwarded params replace ones already on the destination */
+  override_existing: boolean;
+}
+
+/**
+ * Retargeting pixels fired before the redirect (lib/tracking-pixels.ts).
+ * Null fields are unused.
+ */
+export interface TrackingPixels {
+  /** GA4 measurement ID ("G-XXXXXXX") */
+  ga4_measurement_id: string | null;
+  /** Meta (Facebook) Pixel ID */
+  meta_pixel_id: string | null;
+  /** TikTok pixel ID */
+  tiktok_pixel_id: string | null;
+  /** Raw HTML added to the page head */
+  custom_head_html: string | null;
+  /** Raw HTML added to the page body */
+  custom_body_html: string | null;
+}
+
+/**
+ * Redirect rate limit for a link's visitors (lib/rate-limit-policy.ts):
+ * each IP may make `max_requests` requests per `window_seconds`.
+ */
+export interface RateLimitPolicy {
+  max_requests: number;
+  window_seconds: number;
 }
 
 /**
@@ -34,6 +192,12 @@ export interface Project {
   description: string;
   /** Tags for categorization and filtering */
   tags: string[];
+  /** Default passthrough policy for the project's links (null = UTM only) */
+  param_passthrough?: ParamPassthroughPolicy | null;
+  /** Default retargeting pixels for the project's links (null = none) */
+  tracking_pixels?: TrackingPixels | null;
+  /** Default redirect rate limit for the project's links (null = global) */
+  rate_limit?: RateLimitPolicy | null;
   /** Whether the project is archived */
   archived: boolean;
   /** ISO timestamp of creation */
@@ -42,6 +206,22 @@ export interface Project {
   updated_at: string;
 }
 
+/**
+ * A hostname a project serves its short links from, e.g.
+ * `go.topfinanzas.com/<code>` (see lib/custom-domains.ts).
+ */
+export interface ProjectDomain {
+  /** Lowercase hostname (primary key) */
+  hostname: string;
+  project_id: string;
+  /** Token expected in the `_routegenius.<hostname>` TXT record */
+  verification_token: string;
+  /** ISO timestamp of successful verification (null = pending) */
+  verified_at: string | null;
+  /** ISO timestamp of creation */
+  created_at: string;
+}
+
 /** A tracking link with its rotation configuration, scoped to a project. */
 export interface Link {
   /** Unique link identifier (UUID) */
@@ -66,6 +246,60 @@ export interface Link {
   rotation_enabled: boolean;
   /** Secondary destination rules with weights */
   rotation_rules: RotationRule[];
+  /** Sticky assignment for returning visitors (default: "none") */
+  stickiness?: StickinessMode;
+  /** Lifetime of a sticky assignment in seconds (default: 30 days) */
+  stickiness_ttl_seconds?: number;
+  /** ISO timestamp after which the link expires (null = never) */
+  expires_at?: string | null;
+  /** Total clicks after which the link expires (null = unlimited) */
+  max_clicks?: number | null;
+  /** Where visitors go once the link has expired (null = 410 response) */
+  expired_redirect_url?: string | null;
+  /** Where bots and crawlers go, outside the rotation (null = main URL) */
+  bot_destination_url?: string | null;
+  /**
+   * Whether visitors must enter a password first. Read-only here — the
+   * hash is set with `updateLinkPasswordAction` and never leaves the server.
+   */
+  password_protected?: boolean;
+  /** Show a click-to-continue page with the destination domain first */
+  interstitial?: boolean;
+  /** Open the mobile app first, with store fallback (null = web only) */
+  deep_link?: DeepLinkConfig | null;
+  /** How visitors are sent to the destination (default: "307") */
+  redirect_type?: RedirectType;
+  /** Link-preview title for social/messaging crawlers (null = link title) */
+  og_title?: string | null;
+  /** Link-preview description (null = none) */
+  og_description?: string | null;
+  /** Link-preview image, uploaded to GCS (null = none) */
+  og_image_url?: string | null;
+  /** Where the share of capped rules goes (default: "proportional") */
+  cap_redistribution?: CapRedistributionMode;
+  /** Traffic split strategy (default: "fixed") */
+  rotation_strategy?: RotationStrategy;
+  /** Minimum share (%) each destination keeps under "optimize" (default: 5) */
+  optimize_floor_percentage?: number;
+  /**
+   * Query parameter the click ID is appended under (e.g. "rg_cid",
+   * "subid"). Null/absent = the ID is recorded but not passed on.
+   */
+  click_id_param?: string | null;
+  /** Query parameter passthrough (null = inherit the project's policy) */
+  param_passthrough?: ParamPassthroughPolicy | null;
+  /**
+   * Retargeting pixels (null = inherit the project's; a config with every
+   * field empty turns the project's pixels off for this link)
+   */
+  tracking_pixels?: TrackingPixels | null;
+  /** Redirect rate limit per IP (null = inherit the project's, else global) */
+  rate_limit?: RateLimitPolicy | null;
+  /**
+   * Current short code, served from `/r/<code>`. Managed separately from
+   * the rest of the link (lib/short-code.ts) — `saveLink` doesn't write it.
+   */
+  short_code?: string | null;
   /** Whether the link is archived */
   archived: boolean;
   /** ISO timestamp of creation */
@@ -74,6 +308,27 @@ export interface Link {
   updated_at: string;
 }
 
+/**
+ * Mobile app deep link (lib/deep-link.ts). App URLs are custom schemes
+ * (`finapp://offer/1`) or universal / app links; null fields are unused.
+ */
+export interface DeepLinkConfig {
+  /** App URL opened on iOS */
+  ios_url: string | null;
+  /** App URL opened on Android */
+  android_url: string | null;
+  /** App Store listing used when the iOS app is missing */
+  ios_store_url: string | null;
+  /** Play Store listing used when the Android app is missing */
+  android_store_url: string | null;
+}
+
+/** Where a deep-link click ended up. */
+export type DeepLinkOutcome = "app" | "store" | "web";
+
+/** How a visitor reached a link. */
+export type ClickSource = "link" | "qr";
+
 /** Click event for analytics (Phase 1: console log). */
 export interface ClickEvent {
   /** ISO timestamp */
@@ -86,6 +341,20 @@ export interface ClickEvent {
   user_agent: string;
   /** Whether the main destination was selected */
   went_to_main: boolean;
+  /** Rotation rule that was selected (null for the main destination) */
+  rule_id?: string | null;
+  /** Unique click ID generated at redirect time */
+  click_id?: string;
+  /** Query parameters forwarded to the destination */
+  forwarded_params?: Record<string, string> | null;
+  /** "qr" when the visit came from a QR code scan (`?src=qr`) */
+  source?: ClickSource;
+  /** Whether the user-agent matched a bot pattern (lib/bot-filter.ts) */
+  is_bot?: boolean;
+  /** Deep-link outcome (null for links without a deep link) */
+  deep_link_outcome?: DeepLinkOutcome | null;
+  /** Redirect method used (null when a deep-link, preview or pixel page was served) */
+  redirect_type?: RedirectType | null;
   /** UTM source (e.g., "googleads", "facebook") */
   utm_source?: string | null;
   /** UTM medium (e.g., "cpc", "email") */
@@ -110,6 +379,14 @@ export interface SimulationResult {
   actual_hits: number;
   /** Actual percentage from simulation */
   actual_percentage: number;
+  /** Current allocation % under the "optimize" strategy (absent when fixed) */
+  optimized_weight?: number;
+  /** Share the draws converge to: the live weight over the live total (%) */
+  expected_percentage: number;
+  /** 95% confidence interval of the observed share (Wilson, %) */
+  confidence_interval: [number, number];
+  /** Chi-square goodness-of-fit p-value of the whole run (same on every row) */
+  p_value: number;
   /** Whether this is the main destination */
   is_main: boolean;
 }
@@ -0,0 +1,64 @@
+/**
+ * RouteGenius — User-Agent Classifier
+ *
+ * Coarse device / OS / browser detection for rule targeting.
+ * Deliberately small: only the classes a rotation rule can target are
+ * recognised, everything else maps to "other".
+ *
+ * Order matters — iOS user-agents contain "like Mac OS X", Edge and
+ * Opera contain "Chrome", and almost everything contains "Safari".
+ */
+
+import type { BrowserFamily, DeviceClass, OperatingSystem } from "./types";
+
+export interface ParsedUserAgent {
+  device: DeviceClass;
+  os: OperatingSystem | "other";
+  browser: BrowserFamily | "other";
+}
+
+const TABLET_PATTERN = /iPad|Tablet|PlayBook|Silk|Kindle|Nexus (7|9|10)/i;
+const MOBILE_PATTERN = /Mobi|iPhone|iPod|Windows Phone|BlackBerry|Opera Mini/i;
+
+function detectDevice(ua: string): DeviceClass {
+  if (TABLET_PATTERN.test(ua)) return "tablet";
+  // Android phones send "Mobile"; Android tablets don't
+  if (/Android/i.test(ua) && !/Mobile/i.test(ua)) return "tablet";
+  if (MOBILE_PATTERN.test(ua)) return "mobile";
+  return "desktop";
+}
+
+function detectOs(ua: string): OperatingSystem | "other" {
+  if (/iPhone|iPad|iPod/i.test(ua)) return "ios";
+  if (/Android/i.test(ua)) return "android";
+  if (/Windows/i.test(ua)) return "windows";
+  if (/Macintosh|Mac OS X/i.test(ua)) return "macos";
+  return "other";
+}
+
+function detectBrowser(ua: string): BrowserFamily | "other" {
+  if (/Edg(e|A|iOS)?\//.test(ua)) return "edge";
+  if (/OPR\/|Opera/.test(ua)) return "opera";
+  if (/SamsungBrowser\//.test(ua)) return "samsung";
+  if (/Firefox\/|FxiOS\//.test(ua)) return "firefox";
+  if (/Chrome\/|CriOS\//.test(ua)) return "chrome";
+  if (/Safari\//.test(ua)) return "safari";
+  return "other";
+}
+
+/**
+ * Classify a user-agent string for targeting.
+ *
+ * @example
+ * ```ts
+ * parseUserAgent("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) ... Safari/604.1");
+ * // → { device: "mobile", os: "ios", browser: "safari" }
+ * ```
+ */
+export function parseUserAgent(userAgent: string): ParsedUserAgent {
+  return {
+    device: detectDevice(userAgent),
+    os: detectOs(userAgent),
+    browser: detectBrowser(userAgent),
+  };
+}
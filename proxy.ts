@@ -2,15 +2,25 @@
  * RouteGenius — Proxy (formerly Middleware)
  *
  * Protects dashboard routes behind authentication.
- * Public routes (redirect endpoint, auth API, public analytics) are exempt.
+ * Public routes (redirect endpoint, short links, unlock page, deep-link
+ * outcomes, conversion postbacks, cron jobs, metrics, auth API, public
+ * analytics) are exempt.
+ *
+ * Requests on a project's custom domain are public redirect traffic:
+ * `https://go.brand.com/<code>` is rewritten to `/r/<code>`.
  *
  * @see https://nextjs.org/docs/app/api-reference/file-conventions/proxy
  */
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { isAppHostname } from "@/lib/custom-domains";
 
 export function proxy(request: NextRequest) {
+  if (!isAppHostname(request.nextUrl.hostname)) {
+    return handleCustomDomain(request);
+  }
+
   // Better Auth prefixes cookies with __Secure- on HTTPS (production/staging).
   // On HTTP (localhost), the cookie name has no prefix.
   const sessionCookie =
@@ -22,7 +32,14 @@ export function proxy(request: NextRequest) {
     request.nextUrl.pathname === "/";
 
   const isLoginRoute = request.nextUrl.pathname === "/login";
-  const isPublicAPIRoute = request.nextUrl.pathname.startsWith("/api/redirect");
+  const isPublicAPIRoute =
+    request.nextUrl.pathname.startsWith("/api/redirect") ||
+    request.nextUrl.pathname.startsWith("/r/") ||
+    request.nextUrl.pathname.startsWith("/unlock/") ||
+    request.nextUrl.pathname.startsWith("/api/deep-link") ||
+    request.nextUrl.pathname.startsWith("/api/postback") ||
+    request.nextUrl.pathname.startsWith("/api/cron") ||
+    request.nextUrl.pathname.startsWith("/api/metrics");
   const isAuthAPIRoute = request.nextUrl.pathname.startsWith("/api/auth");
   const isPublicAnalytics =
     request.nextUrl.pathname.startsWith("/analytics/") &&
@@ -53,8 +70,28 @@ export function proxy(request: NextRequest) {
   return NextResponse.next();
 }
 
+/**
+ * Custom domains only serve short links — single-segment paths are
+ * rewritten to the short link route, the unlock page of protected links
+ * passes through, everything else is a 404.
+ */
+function handleCustomDomain(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const code = pathname.slice(1);
+
+  if (pathname.startsWith("/r/") || pathname.startsWith("/unlock/")) {
+    return NextResponse.next();
+  }
+  if (code && !code.includes("/")) {
+    const url = request.nextUrl.clone();
+    url.pathname = `/r/${code}`;
+    return NextResponse.rewrite(url);
+  }
+  return NextResponse.json({ error: "Enlace no encontrado" }, { status: 404 });
+}
+
 export const config = {
   matcher: [
-    "/((?!_next/static|_next/image|favicon.ico|api/redirect|api/analytics).*)",
+    "/((?!_next/static|_next/image|favicon.ico|r/|api/redirect|api/deep-link|api/postback|api/cron|api/metrics|api/analytics).*)",
   ],
 };
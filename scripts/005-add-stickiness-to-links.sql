@@ -0,0 +1,27 @@
+-- ============================================================
+-- RouteGenius — Migration 005: Sticky Rotation Settings
+-- ============================================================
+-- Adds per-link stickiness so returning visitors keep the same
+-- destination. The redirect endpoint reads these columns via
+-- getLinkForRedirect() (lib/mock-data.ts).
+--
+--   stickiness             — 'none' | 'cookie' | 'fingerprint'
+--   stickiness_ttl_seconds — lifetime of a sticky assignment
+--
+-- Existing links default to 'none' (independent draws), so this
+-- migration does not change current redirect behavior.
+-- ============================================================
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS stickiness TEXT NOT NULL DEFAULT 'none'
+  CHECK (stickiness IN ('none', 'cookie', 'fingerprint'));
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS stickiness_ttl_seconds INTEGER NOT NULL DEFAULT 2592000
+  CHECK (stickiness_ttl_seconds > 0);
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT stickiness, count(*) AS link_count
+FROM links
+GROUP BY stickiness;
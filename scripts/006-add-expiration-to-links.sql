@@ -0,0 +1,28 @@
+-- ============================================================
+-- RouteGenius — Migration 006: Link Expiration
+-- ============================================================
+-- Adds optional date- and click-based expiry to links.
+--
+--   expires_at            — link expires at this instant (NULL = never)
+--   max_clicks            — link expires after N clicks (NULL = unlimited)
+--   expired_redirect_url  — where visitors go once expired
+--                           (NULL = 410 JSON response, as before)
+--
+-- The redirect endpoint flips `status` to 'expired' when either
+-- limit is reached. Click caps are counted from click_events, so
+-- the (link_id) index from migration 003 keeps the count cheap.
+-- ============================================================
+
+ALTER TABLE links ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS max_clicks INTEGER
+  CHECK (max_clicks IS NULL OR max_clicks > 0);
+
+ALTER TABLE links ADD COLUMN IF NOT EXISTS expired_redirect_url TEXT;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT count(*) FILTER (WHERE expires_at IS NOT NULL) AS with_date,
+       count(*) FILTER (WHERE max_clicks IS NOT NULL) AS with_click_cap
+FROM links;
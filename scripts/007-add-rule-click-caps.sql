@@ -0,0 +1,33 @@
+-- ============================================================
+-- RouteGenius — Migration 007: Per-Destination Click Caps
+-- ============================================================
+-- Rotation rules may carry a `click_cap` (stored inside the
+-- rotation_rules JSONB, no column needed). Caps are counted from
+-- click_events, so each click now records which rule served it.
+--
+--   click_events.rule_id     — selected rotation rule (NULL = main)
+--   links.cap_redistribution — 'proportional' | 'main': where a
+--                              capped rule's share goes
+--
+-- Clicks recorded before this migration have no rule_id and do
+-- not count towards any cap.
+-- ============================================================
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS rule_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_click_events_link_rule
+  ON click_events (link_id, rule_id)
+  WHERE rule_id IS NOT NULL;
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS cap_redistribution TEXT NOT NULL DEFAULT 'proportional'
+  CHECK (cap_redistribution IN ('proportional', 'main'));
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT rule_id, count(*) AS click_count
+FROM click_events
+WHERE rule_id IS NOT NULL
+GROUP BY rule_id
+ORDER BY click_count DESC
+LIMIT 20;
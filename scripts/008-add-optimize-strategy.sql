@@ -0,0 +1,31 @@
+-- ============================================================
+-- RouteGenius — Migration 008: Auto-Optimizing Rotation
+-- ============================================================
+-- Adds the "optimize" strategy, which shifts traffic toward the
+-- best-converting destinations (Thompson sampling, lib/bandit.ts).
+--
+--   links.rotation_strategy          — 'fixed' | 'optimize'
+--   links.optimize_floor_percentage  — minimum share (%) every
+--                                      destination keeps
+--   click_events.converted_at        — when the click converted
+--                                      (NULL = no conversion)
+--
+-- Existing links default to 'fixed', so this migration does not
+-- change current redirect behavior.
+-- ============================================================
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS rotation_strategy TEXT NOT NULL DEFAULT 'fixed'
+  CHECK (rotation_strategy IN ('fixed', 'optimize'));
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS optimize_floor_percentage NUMERIC(5, 2) NOT NULL DEFAULT 5
+  CHECK (optimize_floor_percentage >= 0 AND optimize_floor_percentage <= 50);
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS converted_at TIMESTAMPTZ;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT rotation_strategy, count(*) AS link_count
+FROM links
+GROUP BY rotation_strategy;
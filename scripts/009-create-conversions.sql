@@ -0,0 +1,51 @@
+-- ============================================================
+-- RouteGenius — Migration 009: Conversion Postbacks
+-- ============================================================
+-- Stores server-to-server conversions reported to /api/postback
+-- and the per-workspace secret that authenticates them.
+--
+--   workspace_settings.postback_secret — shared secret callers
+--                                        send as ?secret= or in
+--                                        the X-RouteGenius-Secret
+--                                        header
+--   conversions                        — one row per postback,
+--                                        attributed to the
+--                                        originating click and
+--                                        its rotation rule
+--
+-- The first conversion of a click also sets
+-- click_events.converted_at (migration 008).
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS workspace_settings (
+  workspace_id     TEXT PRIMARY KEY,
+  postback_secret  TEXT,
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS conversions (
+  id              BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  click_event_id  BIGINT NOT NULL REFERENCES click_events (id) ON DELETE CASCADE,
+  link_id         TEXT NOT NULL,
+  rule_id         TEXT,
+  event_name      TEXT NOT NULL,
+  revenue         NUMERIC(12, 2) CHECK (revenue IS NULL OR revenue >= 0),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversions_click_event_id
+  ON conversions (click_event_id);
+
+CREATE INDEX IF NOT EXISTS idx_conversions_link_created
+  ON conversions (link_id, created_at DESC);
+
+-- ── Enable RLS (defense-in-depth, service role bypasses) ────
+
+ALTER TABLE workspace_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversions ENABLE ROW LEVEL SECURITY;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT event_name, count(*) AS conversion_count, sum(revenue) AS revenue
+FROM conversions
+GROUP BY event_name;
@@ -0,0 +1,27 @@
+-- ============================================================
+-- RouteGenius — Migration 010: Unique Click IDs
+-- ============================================================
+-- Every redirect now generates a unique click ID (20 base62
+-- characters, see lib/click-id.ts), like gclid / subid.
+--
+--   click_events.click_id  — the generated ID (NULL for clicks
+--                            recorded before this migration)
+--   links.click_id_param   — query parameter the ID is appended
+--                            under (NULL = not passed on)
+--
+-- /api/postback accepts the click ID to attribute conversions.
+-- ============================================================
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS click_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_click_events_click_id
+  ON click_events (click_id)
+  WHERE click_id IS NOT NULL;
+
+ALTER TABLE links ADD COLUMN IF NOT EXISTS click_id_param TEXT;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT count(*) FILTER (WHERE click_id IS NOT NULL) AS with_click_id,
+       count(*) AS total_clicks
+FROM click_events;
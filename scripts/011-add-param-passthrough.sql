@@ -0,0 +1,33 @@
+-- ============================================================
+-- RouteGenius — Migration 011: Query Parameter Passthrough
+-- ============================================================
+-- Incoming query parameters beyond the five UTM keys (gclid,
+-- fbclid, ttclid, sub1..sub5, …) can now be forwarded to the
+-- destination, controlled by a policy (see lib/passthrough.ts):
+--
+--   links.param_passthrough    — per-link policy (NULL = inherit
+--                                the project's)
+--   projects.param_passthrough — project default (NULL = UTM only)
+--
+-- Policy shape: { "mode": "utm" | "all" | "allowlist" | "blocklist",
+--                 "params": [...], "override_existing": false }
+--
+--   click_events.forwarded_params — parameters forwarded on each
+--                                   click (NULL when none)
+-- ============================================================
+
+ALTER TABLE links ADD COLUMN IF NOT EXISTS param_passthrough JSONB;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS param_passthrough JSONB;
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS forwarded_params JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_click_events_forwarded_params
+  ON click_events USING GIN (forwarded_params)
+  WHERE forwarded_params IS NOT NULL;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT count(*) FILTER (WHERE param_passthrough IS NOT NULL) AS links_with_policy,
+       count(*) AS total_links
+FROM links;
@@ -0,0 +1,41 @@
+-- ============================================================
+-- RouteGenius — Migration 012: Destination Health Checks
+-- ============================================================
+-- The scheduled checker (/api/cron/health-check) probes the
+-- main and secondary destinations of every enabled link and
+-- keeps one row per destination (see lib/health-check.ts).
+--
+--   destination_key — rotation rule ID, or 'main'
+--   status          — 'healthy' | 'unhealthy'; unhealthy
+--                     secondaries are left out of rotation
+--                     until they recover
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS destination_health (
+  link_id                TEXT NOT NULL REFERENCES links (id) ON DELETE CASCADE,
+  destination_key        TEXT NOT NULL,
+  url                    TEXT NOT NULL,
+  status                 TEXT NOT NULL DEFAULT 'healthy'
+                           CHECK (status IN ('healthy', 'unhealthy')),
+  status_code            INTEGER,
+  latency_ms             INTEGER,
+  error                  TEXT,
+  consecutive_failures   INTEGER NOT NULL DEFAULT 0,
+  consecutive_successes  INTEGER NOT NULL DEFAULT 0,
+  last_checked_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (link_id, destination_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_destination_health_unhealthy
+  ON destination_health (link_id)
+  WHERE status = 'unhealthy';
+
+-- ── Enable RLS (defense-in-depth, service role bypasses) ────
+
+ALTER TABLE destination_health ENABLE ROW LEVEL SECURITY;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT status, count(*) AS destinations, avg(latency_ms)::int AS avg_latency_ms
+FROM destination_health
+GROUP BY status;
@@ -0,0 +1,49 @@
+-- ============================================================
+-- RouteGenius — Migration 013: Short Codes
+-- ============================================================
+-- Links get a short code served from /r/<code> (random base62
+-- or a user-chosen vanity code, see lib/short-code.ts).
+--
+--   links.short_code  — the link's current code
+--   link_short_codes  — every code a link has used; old codes
+--                       keep redirecting after a rename and
+--                       can't be claimed by another link
+--
+-- Existing links are backfilled with a random 8-char code.
+-- ============================================================
+
+ALTER TABLE links ADD COLUMN IF NOT EXISTS short_code TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_links_short_code
+  ON links (short_code)
+  WHERE short_code IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS link_short_codes (
+  code        TEXT PRIMARY KEY,
+  link_id     TEXT NOT NULL REFERENCES links (id) ON DELETE CASCADE,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_short_codes_link_id
+  ON link_short_codes (link_id);
+
+-- ── Backfill ────────────────────────────────────────────────
+
+UPDATE links
+SET short_code = substr(md5(id || random()::text), 1, 8)
+WHERE short_code IS NULL;
+
+INSERT INTO link_short_codes (code, link_id)
+SELECT short_code, id FROM links
+ON CONFLICT (code) DO NOTHING;
+
+-- ── Enable RLS (defense-in-depth, service role bypasses) ────
+
+ALTER TABLE link_short_codes ENABLE ROW LEVEL SECURITY;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT count(*) FILTER (WHERE short_code IS NOT NULL) AS with_short_code,
+       count(*) AS total_links,
+       (SELECT count(*) FROM link_short_codes) AS codes
+FROM links;
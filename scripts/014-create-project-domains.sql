@@ -0,0 +1,33 @@
+-- ============================================================
+-- RouteGenius — Migration 014: Custom Domains per Project
+-- ============================================================
+-- Projects can serve short links from their own hostnames
+-- (https://go.brand.com/<code>). A domain only routes traffic
+-- once verified: the project owner publishes
+--
+--   _routegenius.<hostname>  TXT  "routegenius-verify=<token>"
+--
+-- and RouteGenius checks it (see lib/custom-domains.ts).
+-- A hostname belongs to at most one project.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS project_domains (
+  hostname            TEXT PRIMARY KEY,
+  project_id          TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  verification_token  TEXT NOT NULL,
+  verified_at         TIMESTAMPTZ,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_domains_project_id
+  ON project_domains (project_id);
+
+-- ── Enable RLS (defense-in-depth, service role bypasses) ────
+
+ALTER TABLE project_domains ENABLE ROW LEVEL SECURITY;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT hostname, project_id, verified_at IS NOT NULL AS verified
+FROM project_domains
+ORDER BY created_at;
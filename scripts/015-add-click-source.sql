@@ -0,0 +1,27 @@
+-- ============================================================
+-- RouteGenius — Migration 015: QR Scan Attribution
+-- ============================================================
+-- QR code downloads encode the link's short URL with `?src=qr`
+-- (see lib/qr-code.ts). The redirect tags those visits:
+--
+--   click_events.source — "qr" for QR scans, "link" otherwise
+--
+-- Existing rows are regular clicks. Analytics split QR scans
+-- from clicks on this column.
+-- ============================================================
+
+ALTER TABLE click_events
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'link';
+
+ALTER TABLE click_events DROP CONSTRAINT IF EXISTS click_events_source_check;
+ALTER TABLE click_events
+  ADD CONSTRAINT click_events_source_check CHECK (source IN ('link', 'qr'));
+
+CREATE INDEX IF NOT EXISTS idx_click_events_link_source
+  ON click_events (link_id, source, created_at);
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT source, count(*) AS clicks
+FROM click_events
+GROUP BY source;
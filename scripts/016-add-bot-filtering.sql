@@ -0,0 +1,152 @@
+-- ============================================================
+-- RouteGenius — Migration 016: Bot Filtering
+-- ============================================================
+-- The redirect route now classifies each request with isBot()
+-- (lib/bot-filter.ts). Bots skip the weighted draw and are sent
+-- to the link's bot destination:
+--
+--   click_events.is_bot           — request matched a bot pattern
+--   links.bot_destination_url     — where bots go (NULL = main URL)
+--   workspace_settings.bot_patterns — JSON array of lowercase
+--                                     user-agent substrings, plain
+--                                     text, not regex (NULL =
+--                                     built-in defaults)
+--
+-- The analytics RPCs are redefined with a p_exclude_bots flag
+-- and the columns the dashboard reads. Existing clicks are
+-- backfilled against the default patterns.
+-- ============================================================
+
+ALTER TABLE click_events
+  ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE links ADD COLUMN IF NOT EXISTS bot_destination_url TEXT;
+
+ALTER TABLE workspace_settings ADD COLUMN IF NOT EXISTS bot_patterns JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_click_events_link_human
+  ON click_events (link_id, created_at DESC)
+  WHERE NOT is_bot;
+
+-- ── Backfill (default patterns) ─────────────────────────────
+
+UPDATE click_events
+SET is_bot = true
+WHERE NOT is_bot
+  AND (
+    user_agent IS NULL
+    OR btrim(user_agent) IN ('', 'unknown')
+    OR user_agent ~* '(bot|crawl|spider|slurp|mediapartners|facebookexternalhit|whatsapp|google-structured-data|yandex|semrush|ahrefs|pingdom|uptimerobot|headlesschrome)'
+  );
+
+-- ── RPCs with bot exclusion ─────────────────────────────────
+
+DROP FUNCTION IF EXISTS get_clicks_by_day(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS get_clicks_by_destination(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS get_clicks_by_country(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS get_clicks_by_hour(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION get_clicks_by_day(
+  p_link_id TEXT,
+  p_start_date TEXT,
+  p_end_date TEXT,
+  p_exclude_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  click_date DATE,
+  total_clicks BIGINT,
+  unique_visitors BIGINT,
+  main_clicks BIGINT,
+  secondary_clicks BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    DATE(created_at)                             AS click_date,
+    COUNT(*)                                     AS total_clicks,
+    COUNT(DISTINCT ip_address)                   AS unique_visitors,
+    COUNT(*) FILTER (WHERE went_to_main)         AS main_clicks,
+    COUNT(*) FILTER (WHERE NOT went_to_main)     AS secondary_clicks
+  FROM click_events
+  WHERE link_id = p_link_id
+    AND created_at >= p_start_date::timestamptz
+    AND created_at <= p_end_date::timestamptz
+    AND (NOT p_exclude_bots OR NOT is_bot)
+  GROUP BY DATE(created_at)
+  ORDER BY click_date;
+$$;
+
+CREATE OR REPLACE FUNCTION get_clicks_by_destination(
+  p_link_id TEXT,
+  p_start_date TEXT,
+  p_end_date TEXT,
+  p_exclude_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  destination_url TEXT,
+  went_to_main BOOLEAN,
+  total_clicks BIGINT,
+  percentage NUMERIC
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    resolved_destination_url                                AS destination_url,
+    bool_or(went_to_main)                                   AS went_to_main,
+    COUNT(*)                                                AS total_clicks,
+    ROUND(COUNT(*) * 100.0 / SUM(COUNT(*)) OVER (), 1)      AS percentage
+  FROM click_events
+  WHERE link_id = p_link_id
+    AND created_at >= p_start_date::timestamptz
+    AND created_at <= p_end_date::timestamptz
+    AND (NOT p_exclude_bots OR NOT is_bot)
+  GROUP BY resolved_destination_url
+  ORDER BY total_clicks DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION get_clicks_by_country(
+  p_link_id TEXT,
+  p_start_date TEXT,
+  p_end_date TEXT,
+  p_exclude_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (country_code TEXT, total_clicks BIGINT, percentage NUMERIC)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    COALESCE(c.country_code, 'Desconocido')             AS country_code,
+    COUNT(*)                                            AS total_clicks,
+    ROUND(COUNT(*) * 100.0 / SUM(COUNT(*)) OVER (), 1)  AS percentage
+  FROM click_events c
+  WHERE c.link_id = p_link_id
+    AND c.created_at >= p_start_date::timestamptz
+    AND c.created_at <= p_end_date::timestamptz
+    AND (NOT p_exclude_bots OR NOT c.is_bot)
+  GROUP BY c.country_code
+  ORDER BY total_clicks DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION get_clicks_by_hour(
+  p_link_id TEXT,
+  p_date TEXT,
+  p_exclude_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (hour_of_day INT, total_clicks BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    EXTRACT(HOUR FROM created_at)::INT AS hour_of_day,
+    COUNT(*)                            AS total_clicks
+  FROM click_events
+  WHERE link_id = p_link_id
+    AND DATE(created_at) = p_date::date
+    AND (NOT p_exclude_bots OR NOT is_bot)
+  GROUP BY EXTRACT(HOUR FROM created_at)
+  ORDER BY hour_of_day;
+$$;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT is_bot, count(*) AS clicks
+FROM click_events
+GROUP BY is_bot;
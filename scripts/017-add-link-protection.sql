@@ -0,0 +1,27 @@
+-- ============================================================
+-- RouteGenius — Migration 017: Password & Interstitial Links
+-- ============================================================
+-- Gated links are answered by the public /unlock/[linkId] page
+-- before the redirect runs (see lib/link-access.ts):
+--
+--   links.password_hash — salted scrypt hash ("scrypt$salt$hash");
+--                         null = no password
+--   links.interstitial  — show a click-to-continue page with the
+--                         destination domain first
+--
+-- Passing the page sets a signed, short-lived unlock cookie; only
+-- then do rotation and click logging run.
+-- ============================================================
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS password_hash TEXT;
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS interstitial BOOLEAN NOT NULL DEFAULT false;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT
+  count(*) FILTER (WHERE password_hash IS NOT NULL) AS password_links,
+  count(*) FILTER (WHERE interstitial) AS interstitial_links
+FROM links;
@@ -0,0 +1,35 @@
+-- ============================================================
+-- RouteGenius — Migration 018: App Deep Links
+-- ============================================================
+-- Links can open an installed mobile app before falling back
+-- to the App Store / Play Store (see lib/deep-link.ts):
+--
+--   links.deep_link                — JSONB config: ios_url,
+--                                    android_url, ios_store_url,
+--                                    android_store_url
+--   click_events.deep_link_outcome — "app" / "store" / "web";
+--                                    null for links without one
+--
+-- Mobile clicks are stored with their fallback ("store", or
+-- "web" without a store URL) and upgraded to "app" when the
+-- landing page reports the app took over (/api/deep-link).
+-- ============================================================
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS deep_link JSONB;
+
+ALTER TABLE click_events
+  ADD COLUMN IF NOT EXISTS deep_link_outcome TEXT;
+
+ALTER TABLE click_events
+  DROP CONSTRAINT IF EXISTS click_events_deep_link_outcome_check;
+ALTER TABLE click_events
+  ADD CONSTRAINT click_events_deep_link_outcome_check
+  CHECK (deep_link_outcome IS NULL OR deep_link_outcome IN ('app', 'store', 'web'));
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT deep_link_outcome, count(*) AS clicks
+FROM click_events
+WHERE deep_link_outcome IS NOT NULL
+GROUP BY deep_link_outcome;
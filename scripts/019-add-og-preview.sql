@@ -0,0 +1,26 @@
+-- ============================================================
+-- RouteGenius — Migration 019: Link Previews (Open Graph)
+-- ============================================================
+-- Per-link metadata for the preview card messaging apps and
+-- social networks build when a link is shared
+-- (see lib/og-preview.ts):
+--
+--   links.og_title       — preview title (null = link title)
+--   links.og_description — preview description
+--   links.og_image_url   — preview image (GCS upload)
+--
+-- When any is set, link-preview crawlers get an HTML page
+-- with these Open Graph tags instead of the redirect.
+-- ============================================================
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS og_title TEXT,
+  ADD COLUMN IF NOT EXISTS og_description TEXT,
+  ADD COLUMN IF NOT EXISTS og_image_url TEXT;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT count(*) FILTER (WHERE og_title IS NOT NULL) AS with_title,
+       count(*) FILTER (WHERE og_description IS NOT NULL) AS with_description,
+       count(*) FILTER (WHERE og_image_url IS NOT NULL) AS with_image
+FROM links;
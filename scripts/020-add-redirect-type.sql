@@ -0,0 +1,39 @@
+-- ============================================================
+-- RouteGenius — Migration 020: Redirect Methods
+-- ============================================================
+-- Each link chooses how visitors are sent on
+-- (see lib/redirect-type.ts):
+--
+--   links.redirect_type        — "301" / "302" / "307" /
+--                                "meta_refresh" / "javascript"
+--   click_events.redirect_type — method used for the click;
+--                                NULL when a deep-link or
+--                                link-preview page was served
+--
+-- Existing links keep the previous behaviour ("307"); their
+-- past clicks are left NULL (method not recorded).
+-- ============================================================
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS redirect_type TEXT NOT NULL DEFAULT '307';
+
+ALTER TABLE links
+  DROP CONSTRAINT IF EXISTS links_redirect_type_check;
+ALTER TABLE links
+  ADD CONSTRAINT links_redirect_type_check
+  CHECK (redirect_type IN ('301', '302', '307', 'meta_refresh', 'javascript'));
+
+ALTER TABLE click_events
+  ADD COLUMN IF NOT EXISTS redirect_type TEXT;
+
+ALTER TABLE click_events
+  DROP CONSTRAINT IF EXISTS click_events_redirect_type_check;
+ALTER TABLE click_events
+  ADD CONSTRAINT click_events_redirect_type_check
+  CHECK (redirect_type IS NULL OR redirect_type IN ('301', '302', '307', 'meta_refresh', 'javascript'));
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT redirect_type, count(*) AS links
+FROM links
+GROUP BY redirect_type;
@@ -0,0 +1,27 @@
+-- ============================================================
+-- RouteGenius — Migration 021: Retargeting Pixels
+-- ============================================================
+-- Links and projects can list tracking pixels fired on a short
+-- page before the redirect (see lib/tracking-pixels.ts):
+--
+--   links.tracking_pixels    — JSONB: ga4_measurement_id,
+--                              meta_pixel_id, tiktok_pixel_id,
+--                              custom_head_html, custom_body_html
+--                              (NULL = inherit the project's)
+--   projects.tracking_pixels — default for the project's links
+--                              (NULL = none)
+-- ============================================================
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS tracking_pixels JSONB;
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS tracking_pixels JSONB;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT 'links' AS scope, count(*) AS with_pixels
+FROM links WHERE tracking_pixels IS NOT NULL
+UNION ALL
+SELECT 'projects', count(*)
+FROM projects WHERE tracking_pixels IS NOT NULL;
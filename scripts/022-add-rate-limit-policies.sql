@@ -0,0 +1,65 @@
+-- ============================================================
+-- RouteGenius — Migration 022: Rate Limit Policies
+-- ============================================================
+-- Links and projects can override the redirect's per-IP rate
+-- limit (see lib/rate-limit-policy.ts):
+--
+--   links.rate_limit    — JSONB: max_requests, window_seconds
+--                         (NULL = inherit the project's)
+--   projects.rate_limit — default for the project's links
+--                         (NULL = global 100 per 10 s)
+--
+-- consume_rate_limit() counts a request like check_rate_limit()
+-- but returns the window's count and the seconds until it ends,
+-- so the limit can be checked in the app and reported in the
+-- X-RateLimit-* headers (lib/rate-limit.ts).
+-- ============================================================
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS rate_limit JSONB;
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS rate_limit JSONB;
+
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_key TEXT,
+  p_window_seconds INTEGER DEFAULT 10
+)
+RETURNS TABLE (hits INTEGER, reset_seconds DOUBLE PRECISION)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_window_start TIMESTAMPTZ;
+  v_count INTEGER;
+BEGIN
+  -- Current window start, aligned to multiples of the window
+  v_window_start := to_timestamp(
+    floor(EXTRACT(EPOCH FROM now()) / p_window_seconds) * p_window_seconds
+  );
+
+  -- Upsert: increment counter or insert new entry
+  INSERT INTO rate_limits AS r (key, window_start, request_count)
+  VALUES (p_key, v_window_start, 1)
+  ON CONFLICT (key, window_start)
+  DO UPDATE SET request_count = r.request_count + 1
+  RETURNING r.request_count INTO v_count;
+
+  -- Cleanup old entries (older than 2 windows)
+  DELETE FROM rate_limits
+  WHERE key = p_key
+    AND window_start < v_window_start - (p_window_seconds * 2) * INTERVAL '1 second';
+
+  hits := v_count;
+  reset_seconds := EXTRACT(EPOCH FROM
+    v_window_start + p_window_seconds * INTERVAL '1 second' - now());
+  RETURN NEXT;
+END;
+$$;
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT 'links' AS scope, count(*) AS with_rate_limit
+FROM links WHERE rate_limit IS NOT NULL
+UNION ALL
+SELECT 'projects', count(*)
+FROM projects WHERE rate_limit IS NOT NULL;
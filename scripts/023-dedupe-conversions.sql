@@ -0,0 +1,37 @@
+-- ============================================================
+-- RouteGenius — Migration 023: Conversion Deduplication
+-- ============================================================
+-- Partners retry postbacks, so the same conversion can arrive
+-- more than once. A conversion is now unique per click, event
+-- and transaction ID (see recordConversion() in
+-- lib/mock-data.ts):
+--
+--   conversions.transaction_id — optional order / transaction
+--                                ID sent as ?transaction_id=
+--                                (alias txid); NULL when the
+--                                caller sends none, which
+--                                allows one conversion per
+--                                click and event
+--
+-- Existing duplicates (same click, event and no transaction
+-- ID) are removed first, keeping the earliest row.
+-- ============================================================
+
+ALTER TABLE conversions
+  ADD COLUMN IF NOT EXISTS transaction_id TEXT;
+
+DELETE FROM conversions c
+USING conversions earlier
+WHERE c.click_event_id = earlier.click_event_id
+  AND c.event_name = earlier.event_name
+  AND COALESCE(c.transaction_id, '') = COALESCE(earlier.transaction_id, '')
+  AND c.id > earlier.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversions_dedupe
+  ON conversions (click_event_id, event_name, (COALESCE(transaction_id, '')));
+
+-- ── Verify ──────────────────────────────────────────────────
+
+SELECT count(*) AS conversions,
+       count(transaction_id) AS with_transaction_id
+FROM conversions;